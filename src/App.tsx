@@ -1,12 +1,25 @@
-import React, { useState, useEffect } from 'react';
-import { LogOut, Package, BarChart3, Plus, Users, Search } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { LogOut, Package, BarChart3, Plus, Users, Search, Upload, BookUser, Receipt, Truck, ShieldCheck } from 'lucide-react';
 import { AuthContext, useAuthProvider, useAuth } from './hooks/useAuth';
 import { useNotification } from './hooks/useNotification';
+import { useOrderEvents } from './hooks/useOrderEvents';
+import { usePermissions } from './hooks/usePermission';
+import { RouterContext, useRouterProvider, useRouter } from './hooks/useRouter';
+import { getRoleInfo } from './utils/permissions';
+import { PUBLIC_ROUTES, ROUTE_PERMISSIONS, getScreenName, getRedirectPath, buildLoginPath } from './utils/routes';
+import Can from './components/auth/Can';
+import type { OrderRealtimeEvent, ShippingOrder, ShippingOrderData } from './types';
 import AuthPage from './components/auth/AuthPage';
 import ShippingOrderForm from './components/shipping/ShippingOrderForm';
+import { extractOrderFormData } from './components/shipping/orderFields';
+import BulkImportPage from './components/shipping/BulkImportPage';
+import AddressBookPage from './components/addresses/AddressBookPage';
 import Dashboard from './components/dashboard/Dashboard';
 import UserManagement from './components/admin/UserManagement';
+import RateCardManagement from './components/admin/RateCardManagement';
 import TrackingPage from './components/tracking/TrackingPage';
+import MyDeliveriesPage from './components/driver/MyDeliveriesPage';
+import SecurityPage from './components/profile/SecurityPage';
 import ToastContainer from './components/notifications/ToastContainer';
 import NotificationPermission from './components/notifications/NotificationPermission';
 
@@ -20,30 +33,84 @@ const AppContent: React.FC = () => {
     notifyOrderStatusChange,
     notifyNewOrder
   } = useNotification();
-  type PageType = 'dashboard' | 'new-order' | 'users' | 'tracking';
-  const [currentPage, setCurrentPage] = useState<PageType>('dashboard');
+  const can = usePermissions();
+  const { route, pathname, search, navigate } = useRouter();
+  const screen = getScreenName(route);
   const [showPermissionRequest, setShowPermissionRequest] = useState(false);
+  // 주문 복제로 새 배송접수를 시작할 때 미리 채울 값 (key로 폼을 새로 마운트)
+  const [orderPrefill, setOrderPrefill] = useState<{ key: number; data: Partial<ShippingOrderData>; notice: string } | null>(null);
+
+  // 역할별 시작 화면 (배송기사는 내 배송, 그 외는 대시보드)
+  const homePath = can('deliveries.view_assigned') ? '/my-deliveries' : '/dashboard';
+  // 정책상 2단계 인증이 필수인데 아직 등록하지 않은 사용자
+  const mustEnrollTwoFactor = !!user?.two_factor_required && !user.two_factor_enabled;
+
+  /**
+   * 현재 경로를 보여줄 수 없으면 이동할 경로
+   * - 로그인 전: 공개 화면 외에는 로그인 화면으로 (로그인 후 원래 경로로 돌아옴)
+   * - 로그인 후: 로그인 화면·"/"·없는 경로·권한 없는 화면은 시작 화면으로
+   * - 2단계 인증 등록이 필요하면 배송 추적 외에는 보안 설정 화면으로
+   */
+  let redirectPath: string | null = null;
+  if (!isLoading) {
+    if (!isAuthenticated) {
+      if (!PUBLIC_ROUTES.includes(route.name)) redirectPath = buildLoginPath(pathname + search);
+    } else if (mustEnrollTwoFactor) {
+      if (route.name !== 'security' && route.name !== 'tracking') redirectPath = '/profile/security';
+    } else if (route.name === 'login') {
+      redirectPath = getRedirectPath(search) ?? homePath;
+    } else if (route.name === 'home' || route.name === 'not-found') {
+      redirectPath = homePath;
+    } else {
+      const requiredPermission = ROUTE_PERMISSIONS[route.name];
+      if (requiredPermission && !can(requiredPermission)) redirectPath = homePath;
+    }
+  }
 
-  // URL에서 tracking 모드 확인
   useEffect(() => {
-    const urlPath = window.location.pathname;
-    const searchParams = new URLSearchParams(window.location.search);
-    
-    if (urlPath.includes('/tracking') || searchParams.has('number')) {
-      setCurrentPage('tracking' as PageType);
+    if (redirectPath) navigate(redirectPath, { replace: true });
+  }, [redirectPath, navigate]);
+
+  /**
+   * 다른 사용자가 만든 주문 이벤트를 알림으로 표시
+   * 본인이 일으킨 변경은 해당 화면에서 이미 알림을 띄우므로 제외
+   */
+  const handleOrderEvent = useCallback((event: OrderRealtimeEvent) => {
+    const actorId = event.actorId ?? (event.type === 'order.created' ? event.order.user_id : undefined);
+    if (actorId !== undefined && actorId === user?.id) return;
+
+    if (event.type === 'order.created') {
+      // 새 주문 알림은 권한이 있는 사용자만
+      if (can('orders.notify_new')) {
+        notifyNewOrder({
+          orderId: event.order.id,
+          customerName: event.order.receiver_name,
+          productName: event.order.package_description,
+          amount: event.order.package_value
+        });
+      }
+    } else {
+      notifyOrderStatusChange({
+        orderId: event.order.id,
+        status: event.order.status,
+        customerName: event.order.receiver_name,
+        trackingNumber: event.order.tracking_number
+      });
     }
-  }, []);
+  }, [user?.id, can, notifyNewOrder, notifyOrderStatusChange]);
 
-  // 로그인 후 알림 권한 요청 (관리자/매니저만)
+  useOrderEvents(handleOrderEvent, isAuthenticated);
+
+  // 로그인 후 알림 권한 요청 (새 주문 알림을 받는 사용자만)
   useEffect(() => {
-    if (isAuthenticated && (user?.role === 'admin' || user?.role === 'manager') && permission === 'default') {
+    if (isAuthenticated && can('orders.notify_new') && permission === 'default') {
       const timer = setTimeout(() => {
         setShowPermissionRequest(true);
       }, 2000); // 2초 후 권한 요청 표시
       
       return () => clearTimeout(timer);
     }
-  }, [isAuthenticated, user?.role, permission]);
+  }, [isAuthenticated, can, permission]);
 
   if (isLoading) {
     return (
@@ -57,22 +124,40 @@ const AppContent: React.FC = () => {
   }
 
   // 추적 페이지는 인증없이 접근 가능
-  if (currentPage === 'tracking') {
-    return <TrackingPage onNavigateBack={isAuthenticated ? () => setCurrentPage('dashboard' as PageType) : undefined} />;
+  if (route.name === 'tracking') {
+    return <TrackingPage onNavigateBack={isAuthenticated ? () => navigate(homePath) : undefined} />;
   }
 
   if (!isAuthenticated) {
-    return <AuthPage />;
+    return route.name === 'login' ? <AuthPage /> : null;
   }
 
+  // 다른 경로로 이동하는 중
+  if (redirectPath) {
+    return null;
+  }
+
+  const roleInfo = getRoleInfo(user?.role);
+
   const handleLogout = async () => {
     try {
       await logout();
+      navigate('/login', { replace: true });
     } catch (error) {
       console.error('로그아웃 오류:', error);
     }
   };
 
+  // 기존 주문 내용으로 새 배송접수 시작 (시스템 필드 제외)
+  const handleDuplicateOrder = (order: ShippingOrder) => {
+    setOrderPrefill({
+      key: Date.now(),
+      data: extractOrderFormData(order),
+      notice: `주문 #${order.id}의 내용을 불러왔습니다. 희망 배송일 등 달라진 정보를 확인한 뒤 접수하세요.`
+    });
+    navigate('/orders/new');
+  };
+
   return (
     <div className="min-h-screen bg-gray-100">
       {/* 헤더 */}
@@ -89,10 +174,24 @@ const AppContent: React.FC = () => {
             
             {/* 네비게이션 메뉴 */}
             <nav className="flex items-center gap-1 sm:gap-2">
+              <Can permission="deliveries.view_assigned">
+                <button
+                  onClick={() => navigate('/my-deliveries')}
+                  className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg transition-colors touch-manipulation ${
+                    screen === 'my-deliveries'
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                  }`}
+                >
+                  <Truck className="w-5 h-5" />
+                  <span className="hidden md:inline">내 배송</span>
+                </button>
+              </Can>
+
               <button
-                onClick={() => setCurrentPage('dashboard' as PageType)}
+                onClick={() => navigate('/dashboard')}
                 className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg transition-colors touch-manipulation ${
-                  currentPage === 'dashboard'
+                  screen === 'dashboard'
                     ? 'bg-blue-100 text-blue-700'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
                 }`}
@@ -102,9 +201,12 @@ const AppContent: React.FC = () => {
               </button>
               
               <button
-                onClick={() => setCurrentPage('new-order' as PageType)}
+                onClick={() => {
+                  setOrderPrefill(null);
+                  navigate('/orders/new');
+                }}
                 className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg transition-colors touch-manipulation ${
-                  currentPage === 'new-order'
+                  screen === 'new-order'
                     ? 'bg-blue-100 text-blue-700'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
                 }`}
@@ -114,9 +216,33 @@ const AppContent: React.FC = () => {
               </button>
 
               <button
-                onClick={() => setCurrentPage('tracking' as PageType)}
+                onClick={() => navigate('/orders/import')}
+                className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg transition-colors touch-manipulation ${
+                  screen === 'bulk-import'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+              >
+                <Upload className="w-5 h-5" />
+                <span className="hidden md:inline">일괄 접수</span>
+              </button>
+
+              <button
+                onClick={() => navigate('/addresses')}
+                className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg transition-colors touch-manipulation ${
+                  screen === 'address-book'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+              >
+                <BookUser className="w-5 h-5" />
+                <span className="hidden md:inline">주소록</span>
+              </button>
+
+              <button
+                onClick={() => navigate('/tracking')}
                 className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg transition-colors touch-manipulation ${
-                  (currentPage as string) === 'tracking'
+                  screen === 'tracking'
                     ? 'bg-blue-100 text-blue-700'
                     : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
                 }`}
@@ -126,7 +252,7 @@ const AppContent: React.FC = () => {
               </button>
               
               {/* 테스트용 알림 버튼 (개발 중) */}
-              {(user?.role === 'admin' || user?.role === 'manager') && (
+              <Can permission="orders.notify_new">
                 <button
                   onClick={() => {
                     notifyOrderStatusChange({
@@ -141,14 +267,13 @@ const AppContent: React.FC = () => {
                 >
                   🔔
                 </button>
-              )}
+              </Can>
               
-              {/* 관리자/매니저만 사용자 관리 메뉴 표시 */}
-              {(user?.role === 'admin' || user?.role === 'manager') && (
+              <Can permission="users.view">
                 <button
-                  onClick={() => setCurrentPage('users' as PageType)}
+                  onClick={() => navigate('/users')}
                   className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg transition-colors touch-manipulation ${
-                    currentPage === 'users'
+                    screen === 'users'
                       ? 'bg-blue-100 text-blue-700'
                       : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
                   }`}
@@ -156,7 +281,21 @@ const AppContent: React.FC = () => {
                   <Users className="w-5 h-5" />
                   <span className="hidden md:inline">사용자 관리</span>
                 </button>
-              )}
+              </Can>
+
+              <Can permission="pricing.manage">
+                <button
+                  onClick={() => navigate('/rate-cards')}
+                  className={`flex items-center gap-2 px-3 sm:px-4 py-2 rounded-lg transition-colors touch-manipulation ${
+                    screen === 'rate-cards'
+                      ? 'bg-blue-100 text-blue-700'
+                      : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                  }`}
+                >
+                  <Receipt className="w-5 h-5" />
+                  <span className="hidden md:inline">요금표 관리</span>
+                </button>
+              </Can>
             </nav>
             
             <div className="flex items-center gap-2 sm:gap-4">
@@ -167,14 +306,8 @@ const AppContent: React.FC = () => {
                     <p className="text-xs text-gray-500">@{user?.username}</p>
                   </div>
                   {user?.role && (
-                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                      user.role === 'admin' 
-                        ? 'bg-red-100 text-red-800' 
-                        : user.role === 'manager'
-                        ? 'bg-blue-100 text-blue-800'
-                        : 'bg-gray-100 text-gray-800'
-                    }`}>
-                      {user.role === 'admin' ? '관리자' : user.role === 'manager' ? '매니저' : '사용자'}
+                    <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${roleInfo.badgeClassName}`}>
+                      {roleInfo.label}
                     </span>
                   )}
                 </div>
@@ -183,18 +316,24 @@ const AppContent: React.FC = () => {
               {/* 모바일에서는 역할 배지만 표시 */}
               <div className="sm:hidden">
                 {user?.role && (
-                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                    user.role === 'admin' 
-                      ? 'bg-red-100 text-red-800' 
-                      : user.role === 'manager'
-                      ? 'bg-blue-100 text-blue-800'
-                      : 'bg-gray-100 text-gray-800'
-                  }`}>
-                    {user.role === 'admin' ? '관리자' : user.role === 'manager' ? '매니저' : '사용자'}
+                  <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${roleInfo.badgeClassName}`}>
+                    {roleInfo.label}
                   </span>
                 )}
               </div>
               
+              <button
+                onClick={() => navigate('/profile/security')}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors touch-manipulation ${
+                  screen === 'security'
+                    ? 'bg-blue-100 text-blue-700'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+                }`}
+                title="보안 설정"
+              >
+                <ShieldCheck className="w-5 h-5" />
+              </button>
+
               <button
                 onClick={handleLogout}
                 className="flex items-center gap-2 px-3 sm:px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors touch-manipulation"
@@ -211,15 +350,33 @@ const AppContent: React.FC = () => {
       {/* 메인 콘텐츠 */}
       <main className="py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          {currentPage === 'dashboard' ? (
+          {screen === 'dashboard' ? (
             <Dashboard 
-              key={Date.now()} 
               onOrderStatusChange={notifyOrderStatusChange}
+              onDuplicateOrder={handleDuplicateOrder}
             />
-          ) : currentPage === 'users' ? (
+          ) : screen === 'users' ? (
             <UserManagement />
-          ) : (currentPage as string) === 'tracking' ? (
-            <TrackingPage onNavigateBack={() => setCurrentPage('dashboard' as PageType)} />
+          ) : screen === 'rate-cards' ? (
+            <RateCardManagement />
+          ) : screen === 'my-deliveries' ? (
+            <MyDeliveriesPage />
+          ) : screen === 'address-book' ? (
+            <AddressBookPage />
+          ) : screen === 'security' ? (
+            <SecurityPage />
+          ) : screen === 'bulk-import' ? (
+            <>
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">일괄 배송 접수</h2>
+                <p className="text-gray-600">
+                  CSV 또는 Excel(XLSX) 파일로 여러 건의 배송을 한 번에 접수합니다.
+                  접수 전에 행별 검증 결과를 확인할 수 있습니다.
+                </p>
+              </div>
+
+              <BulkImportPage onComplete={() => navigate('/dashboard')} />
+            </>
           ) : (
             <>
               <div className="mb-6">
@@ -231,7 +388,10 @@ const AppContent: React.FC = () => {
               </div>
               
               <ShippingOrderForm 
-                onSuccess={() => setCurrentPage('dashboard' as PageType)}
+                key={orderPrefill?.key ?? 'new'}
+                initialData={orderPrefill?.data}
+                prefillNotice={orderPrefill?.notice}
+                onSuccess={() => navigate('/dashboard')}
                 onNewOrder={notifyNewOrder}
               />
             </>
@@ -266,11 +426,14 @@ const AppContent: React.FC = () => {
 
 const App: React.FC = () => {
   const authValue = useAuthProvider();
+  const routerValue = useRouterProvider();
 
   return (
-    <AuthContext.Provider value={authValue}>
-      <AppContent />
-    </AuthContext.Provider>
+    <RouterContext.Provider value={routerValue}>
+      <AuthContext.Provider value={authValue}>
+        <AppContent />
+      </AuthContext.Provider>
+    </RouterContext.Provider>
   );
 };
 
@@ -0,0 +1,388 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BookUser, Plus, Edit, Trash2, Search, Star, Phone, Building } from 'lucide-react';
+import { addressBookAPI, getErrorMessage } from '../../services/api';
+import type { AddressBookEntry, AddressBookEntryData, AddressBookEntryType } from '../../types';
+import { ADDRESS_TYPE_LABELS, formatAddressLine } from './addressFields';
+import AddressSearchDialog from './AddressSearchDialog';
+
+const EMPTY_FORM: AddressBookEntryData = {
+  type: 'sender',
+  label: '',
+  name: '',
+  phone: '',
+  email: '',
+  company: '',
+  address: '',
+  detail_address: '',
+  zipcode: ''
+};
+
+const TYPE_TABS: { value: AddressBookEntryType | ''; label: string }[] = [
+  { value: '', label: '전체' },
+  { value: 'sender', label: '발송인' },
+  { value: 'receiver', label: '수취인' }
+];
+
+/** 입력 폼 필드 (라벨, 키, 필수 여부) */
+const FORM_FIELDS: { key: keyof Omit<AddressBookEntryData, 'type'>; label: string; required?: boolean; placeholder?: string }[] = [
+  { key: 'label', label: '별칭', placeholder: '예: 본사 물류창고' },
+  { key: 'name', label: '이름', required: true },
+  { key: 'phone', label: '전화번호', required: true, placeholder: '010-1234-5678' },
+  { key: 'email', label: '이메일' },
+  { key: 'company', label: '회사명' },
+  { key: 'zipcode', label: '우편번호', required: true, placeholder: '12345' },
+  { key: 'address', label: '주소', required: true },
+  { key: 'detail_address', label: '상세주소' }
+];
+
+/**
+ * 주소록 관리 화면
+ * 자주 쓰는 발송인/수취인 주소를 등록·수정·삭제하고 기본 발송인을 지정
+ */
+const AddressBookPage: React.FC = () => {
+  const [addresses, setAddresses] = useState<AddressBookEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [typeFilter, setTypeFilter] = useState<AddressBookEntryType | ''>('');
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<AddressBookEntry | null>(null);
+  const [formData, setFormData] = useState<AddressBookEntryData>(EMPTY_FORM);
+  const [showAddressSearch, setShowAddressSearch] = useState(false);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const fetchAddresses = useCallback(async () => {
+    try {
+      const response = await addressBookAPI.getAddresses(typeFilter || undefined, searchTerm.trim());
+      setAddresses(response.addresses || []);
+    } catch (error) {
+      console.error('주소록 조회 실패:', error);
+      showNotification('error', getErrorMessage(error, '주소록을 불러오는데 실패했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [typeFilter, searchTerm]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchAddresses, 300);
+    return () => clearTimeout(timer);
+  }, [fetchAddresses]);
+
+  const openCreateModal = () => {
+    setEditingEntry(null);
+    setFormData({ ...EMPTY_FORM, type: typeFilter || 'sender' });
+    setShowFormModal(true);
+  };
+
+  const openEditModal = (entry: AddressBookEntry) => {
+    setEditingEntry(entry);
+    setFormData({
+      type: entry.type,
+      label: entry.label || '',
+      name: entry.name,
+      phone: entry.phone,
+      email: entry.email || '',
+      company: entry.company || '',
+      address: entry.address,
+      detail_address: entry.detail_address || '',
+      zipcode: entry.zipcode
+    });
+    setShowFormModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // 빈 선택 항목은 보내지 않음
+    const data = Object.fromEntries(
+      Object.entries(formData).map(([key, value]) => [key, typeof value === 'string' ? value.trim() || undefined : value])
+    ) as unknown as AddressBookEntryData;
+
+    try {
+      if (editingEntry) {
+        await addressBookAPI.updateAddress(editingEntry.id, data);
+        showNotification('success', '주소가 수정되었습니다.');
+      } else {
+        await addressBookAPI.createAddress(data);
+        showNotification('success', '주소가 추가되었습니다.');
+      }
+      setShowFormModal(false);
+      fetchAddresses();
+    } catch (error) {
+      console.error('주소 저장 실패:', error);
+      showNotification('error', getErrorMessage(error, '주소 저장에 실패했습니다.'));
+    }
+  };
+
+  const handleDelete = async (entry: AddressBookEntry) => {
+    if (!window.confirm(`"${entry.label || entry.name}" 주소를 삭제하시겠습니까?`)) return;
+
+    try {
+      await addressBookAPI.deleteAddress(entry.id);
+      showNotification('success', '주소가 삭제되었습니다.');
+      fetchAddresses();
+    } catch (error) {
+      console.error('주소 삭제 실패:', error);
+      showNotification('error', getErrorMessage(error, '주소 삭제에 실패했습니다.'));
+    }
+  };
+
+  const handleSetDefault = async (entry: AddressBookEntry) => {
+    try {
+      await addressBookAPI.setDefaultSender(entry.id);
+      showNotification('success', `"${entry.label || entry.name}"을(를) 기본 발송인으로 지정했습니다.`);
+      fetchAddresses();
+    } catch (error) {
+      console.error('기본 발송인 지정 실패:', error);
+      showNotification('error', getErrorMessage(error, '기본 발송인 지정에 실패했습니다.'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">주소록을 로딩 중...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 알림 메시지 */}
+      {notification && (
+        <div className={`fixed top-4 right-4 z-50 p-4 rounded-lg shadow-lg border ${
+          notification.type === 'success'
+            ? 'bg-green-50 text-green-800 border-green-200'
+            : 'bg-red-50 text-red-800 border-red-200'
+        }`}>
+          <span className="font-medium">{notification.message}</span>
+        </div>
+      )}
+
+      {/* 헤더 */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+          <div className="flex items-center gap-3">
+            <BookUser className="w-8 h-8 text-blue-500" />
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">주소록</h2>
+              <p className="text-gray-600">자주 쓰는 발송인/수취인 주소를 관리합니다</p>
+            </div>
+          </div>
+
+          <button
+            onClick={openCreateModal}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            새 주소 추가
+          </button>
+        </div>
+
+        {/* 검색 및 필터 */}
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="flex-1">
+            <div className="relative">
+              <Search className="w-5 h-5 absolute left-3 top-3 text-gray-400" />
+              <input
+                type="text"
+                placeholder="이름, 별칭, 주소로 검색..."
+                className="w-full pl-10 pr-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex rounded-lg border overflow-hidden">
+            {TYPE_TABS.map(tab => (
+              <button
+                key={tab.value}
+                onClick={() => setTypeFilter(tab.value)}
+                className={`px-4 py-2 text-sm ${
+                  typeFilter === tab.value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* 주소 목록 */}
+      {addresses.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          {searchTerm ? '검색 결과가 없습니다.' : '저장된 주소가 없습니다. 배송접수 시 "주소록에 저장"을 선택하거나 직접 추가하세요.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {addresses.map(entry => (
+            <div key={entry.id} className="bg-white rounded-lg shadow p-4">
+              <div className="flex items-start justify-between gap-2 mb-2">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                      entry.type === 'sender' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'
+                    }`}>
+                      {ADDRESS_TYPE_LABELS[entry.type]}
+                    </span>
+                    {entry.is_default && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                        <Star className="w-3 h-3" />
+                        기본 발송인
+                      </span>
+                    )}
+                  </div>
+                  <h3 className="mt-1 font-semibold text-gray-900 truncate">
+                    {entry.label || entry.name}
+                    {entry.label && <span className="ml-2 text-sm font-normal text-gray-500">{entry.name}</span>}
+                  </h3>
+                </div>
+
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {entry.type === 'sender' && !entry.is_default && (
+                    <button
+                      onClick={() => handleSetDefault(entry)}
+                      className="p-2 text-gray-400 hover:text-yellow-500 rounded-lg hover:bg-gray-100"
+                      title="기본 발송인으로 지정"
+                    >
+                      <Star className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => openEditModal(entry)}
+                    className="p-2 text-gray-400 hover:text-blue-600 rounded-lg hover:bg-gray-100"
+                    title="수정"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(entry)}
+                    className="p-2 text-gray-400 hover:text-red-600 rounded-lg hover:bg-gray-100"
+                    title="삭제"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-1 text-sm text-gray-600">
+                <div className="flex items-center gap-2">
+                  <Phone className="w-4 h-4 text-gray-400" />
+                  {entry.phone}
+                  {entry.email && <span className="text-gray-400">· {entry.email}</span>}
+                </div>
+                {entry.company && (
+                  <div className="flex items-center gap-2">
+                    <Building className="w-4 h-4 text-gray-400" />
+                    {entry.company}
+                  </div>
+                )}
+                <p>{formatAddressLine(entry)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* 주소 추가/수정 모달 */}
+      {showFormModal && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center">
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75" onClick={() => setShowFormModal(false)}></div>
+
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <form onSubmit={handleSubmit}>
+                <div className="bg-white px-6 py-4">
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">
+                    {editingEntry ? `주소 수정: ${editingEntry.label || editingEntry.name}` : '새 주소 추가'}
+                  </h3>
+
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">구분</label>
+                      <select
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        value={formData.type}
+                        onChange={(e) => setFormData({ ...formData, type: e.target.value as AddressBookEntryType })}
+                      >
+                        <option value="sender">발송인</option>
+                        <option value="receiver">수취인</option>
+                      </select>
+                    </div>
+
+                    {FORM_FIELDS.map(field => (
+                      <div key={field.key}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {field.label} {field.required && <span className="text-red-500">*</span>}
+                        </label>
+                        <div className="flex gap-2">
+                          <input
+                            type={field.key === 'email' ? 'email' : 'text'}
+                            required={field.required}
+                            placeholder={field.placeholder}
+                            pattern={field.key === 'zipcode' ? '\\d{5}' : undefined}
+                            title={field.key === 'zipcode' ? '우편번호는 5자리 숫자여야 합니다' : undefined}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={formData[field.key] || ''}
+                            onChange={(e) => setFormData({ ...formData, [field.key]: e.target.value })}
+                          />
+                          {field.key === 'zipcode' && (
+                            <button
+                              type="button"
+                              onClick={() => setShowAddressSearch(true)}
+                              className="flex items-center gap-1 px-3 py-2 text-sm text-white bg-gray-700 rounded-md hover:bg-gray-800 whitespace-nowrap"
+                            >
+                              <Search className="w-4 h-4" />
+                              주소 검색
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="bg-gray-50 px-6 py-3 flex justify-end gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setShowFormModal(false)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    취소
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+                  >
+                    {editingEntry ? '저장' : '추가'}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showAddressSearch && (
+        <AddressSearchDialog
+          onSelect={(result) => {
+            setFormData(prev => ({ ...prev, zipcode: result.zipcode, address: result.roadAddress }));
+            setShowAddressSearch(false);
+          }}
+          onClose={() => setShowAddressSearch(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AddressBookPage;
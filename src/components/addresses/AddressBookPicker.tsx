@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { BookUser, Search, Star, X } from 'lucide-react';
+import { addressBookAPI, getErrorMessage } from '../../services/api';
+import type { AddressBookEntry, AddressBookEntryType } from '../../types';
+import { ADDRESS_TYPE_LABELS, formatAddressLine } from './addressFields';
+
+interface AddressBookPickerProps {
+  type: AddressBookEntryType;
+  onSelect: (entry: AddressBookEntry) => void;
+}
+
+/**
+ * 배송접수 폼에서 주소록 항목을 골라 채우는 선택기
+ * 열 때마다 최신 주소록을 조회
+ */
+const AddressBookPicker: React.FC<AddressBookPickerProps> = ({ type, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [addresses, setAddresses] = useState<AddressBookEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setIsLoading(true);
+        setError('');
+        const response = await addressBookAPI.getAddresses(type, search.trim());
+        if (!cancelled) setAddresses(response.addresses || []);
+      } catch (err) {
+        if (!cancelled) setError(getErrorMessage(err, '주소록을 불러오지 못했습니다.'));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isOpen, type, search]);
+
+  const handleSelect = (entry: AddressBookEntry) => {
+    onSelect(entry);
+    setIsOpen(false);
+    setSearch('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 text-sm text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors touch-manipulation"
+      >
+        <BookUser className="w-4 h-4" />
+        주소록에서 선택
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-20 mt-2 w-80 sm:w-96 bg-white border border-gray-200 rounded-lg shadow-lg">
+          <div className="flex items-center gap-2 p-3 border-b">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={`${ADDRESS_TYPE_LABELS[type]} 이름, 주소 검색`}
+                className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                autoFocus
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="p-1 text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto">
+            {isLoading ? (
+              <div className="p-4 text-sm text-center text-gray-500">불러오는 중...</div>
+            ) : error ? (
+              <div className="p-4 text-sm text-center text-red-600">{error}</div>
+            ) : addresses.length === 0 ? (
+              <div className="p-4 text-sm text-center text-gray-500">
+                {search ? '검색 결과가 없습니다.' : `저장된 ${ADDRESS_TYPE_LABELS[type]} 주소가 없습니다.`}
+              </div>
+            ) : (
+              addresses.map(entry => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => handleSelect(entry)}
+                  className="w-full px-4 py-3 text-left border-b last:border-b-0 hover:bg-gray-50"
+                >
+                  <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                    {entry.is_default && <Star className="w-4 h-4 text-yellow-500 fill-yellow-400" />}
+                    {entry.label || entry.name}
+                    {entry.label && <span className="font-normal text-gray-500">{entry.name}</span>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {entry.phone}{entry.company && ` · ${entry.company}`}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">{formatAddressLine(entry)}</div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AddressBookPicker;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { X, Search, MapPin } from 'lucide-react';
+import { getErrorMessage } from '../../services/api';
+import { searchAddress, getAddressSearchProvider } from '../../services/addressSearch';
+import type { AddressSearchResult } from '../../types';
+
+interface AddressSearchDialogProps {
+  onSelect: (result: AddressSearchResult) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+/**
+ * 우편번호/도로명 주소 검색 대화상자
+ * 검색 결과를 고르면 우편번호와 도로명 주소를 돌려주고, 상세주소는 폼에서 직접 입력
+ */
+const AddressSearchDialog: React.FC<AddressSearchDialogProps> = ({ onSelect, onClose }) => {
+  const [keyword, setKeyword] = useState('');
+  const [searchedKeyword, setSearchedKeyword] = useState('');
+  const [results, setResults] = useState<AddressSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const runSearch = async (searchKeyword: string, nextPage: number) => {
+    try {
+      setIsLoading(true);
+      setError('');
+      const response = await searchAddress(searchKeyword, nextPage, PAGE_SIZE);
+      setResults(prev => (nextPage === 1 ? response.results : [...prev, ...response.results]));
+      setTotal(response.total);
+      setPage(nextPage);
+      setSearchedKeyword(searchKeyword);
+    } catch (err) {
+      setError(getErrorMessage(err, '주소 검색 중 오류가 발생했습니다.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSearch = () => {
+    const trimmed = keyword.trim();
+    if (trimmed.length < 2) {
+      setError('검색어를 2자 이상 입력해주세요.');
+      return;
+    }
+    runSearch(trimmed, 1);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* 배경 오버레이 */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={onClose}
+        ></div>
+
+        {/* 모달 컨테이너 */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-xl sm:w-full">
+          <div className="flex items-center justify-between px-6 py-4 border-b">
+            <div className="flex items-center gap-2">
+              <MapPin className="w-5 h-5 text-blue-600" />
+              <h3 className="text-lg font-semibold text-gray-900">주소 검색</h3>
+            </div>
+            <button
+              type="button"
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="px-6 py-4 space-y-4">
+            {/* 배송접수 폼 안에서 열리므로 form 대신 Enter 키로 검색 (바깥 폼 제출 방지) */}
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <input
+                  type="text"
+                  value={keyword}
+                  onChange={(e) => setKeyword(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                      e.preventDefault();
+                      handleSearch();
+                    }
+                  }}
+                  placeholder="도로명, 지번, 건물명 (예: 세종대로 110, 역삼동 737)"
+                  className="w-full pl-10 pr-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  autoFocus
+                />
+              </div>
+              <button
+                type="button"
+                onClick={handleSearch}
+                disabled={isLoading}
+                className="px-4 py-3 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-blue-300 transition-colors touch-manipulation"
+              >
+                검색
+              </button>
+            </div>
+
+            <p className="text-xs text-gray-500">검색 출처: {getAddressSearchProvider().label}</p>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="max-h-[50vh] overflow-y-auto border rounded-lg divide-y">
+              {results.length === 0 ? (
+                <div className="p-6 text-sm text-center text-gray-500">
+                  {isLoading ? '검색 중...' : searchedKeyword ? '검색 결과가 없습니다.' : '검색어를 입력하고 검색 버튼을 누르세요.'}
+                </div>
+              ) : (
+                results.map(result => (
+                  <button
+                    key={`${result.zipcode}-${result.roadAddress}`}
+                    type="button"
+                    onClick={() => onSelect(result)}
+                    className="w-full px-4 py-3 text-left hover:bg-blue-50 touch-manipulation"
+                  >
+                    <div className="flex items-start gap-3">
+                      <span className="px-2 py-0.5 text-xs font-mono font-semibold text-blue-700 bg-blue-100 rounded">
+                        {result.zipcode}
+                      </span>
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {result.roadAddress}
+                          {result.buildingName && <span className="text-gray-500"> ({result.buildingName})</span>}
+                        </p>
+                        <p className="text-xs text-gray-500">지번: {result.jibunAddress}</p>
+                      </div>
+                    </div>
+                  </button>
+                ))
+              )}
+            </div>
+
+            {results.length > 0 && (
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>총 {total.toLocaleString()}건</span>
+                {results.length < total && (
+                  <button
+                    type="button"
+                    onClick={() => runSearch(searchedKeyword, page + 1)}
+                    disabled={isLoading}
+                    className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {isLoading ? '불러오는 중...' : '더 보기'}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AddressSearchDialog;
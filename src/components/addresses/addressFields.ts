@@ -0,0 +1,63 @@
+import type { AddressBookEntry, AddressBookEntryData, AddressBookEntryType, ShippingOrderData } from '../../types';
+
+/** 주소록 필드 (배송접수 폼에서는 sender_/receiver_ 접두사가 붙음) */
+const ADDRESS_FIELDS = ['name', 'phone', 'email', 'company', 'address', 'detail_address', 'zipcode'] as const;
+
+type AddressField = typeof ADDRESS_FIELDS[number];
+
+/** 주소록과 대응하는 배송접수 폼 필드 (sender_name, receiver_zipcode 등) */
+export type AddressOrderField = `${AddressBookEntryType}_${AddressField}` & keyof ShippingOrderData;
+
+/** 구분별 폼 필드 키 (예: sender + name → sender_name) */
+const toOrderField = (type: AddressBookEntryType, field: AddressField) =>
+  `${type}_${field}` as AddressOrderField;
+
+export const ADDRESS_TYPE_LABELS: Record<AddressBookEntryType, string> = {
+  sender: '발송인',
+  receiver: '수취인'
+};
+
+/**
+ * 주소록 항목을 배송접수 폼 값으로 변환
+ * 비어 있는 선택 항목도 빈 문자열로 채워 이전 값이 남지 않게 함
+ */
+export const addressToOrderFields = (
+  type: AddressBookEntryType,
+  entry: AddressBookEntryData
+): Partial<Record<AddressOrderField, string>> => {
+  const values: Partial<Record<AddressOrderField, string>> = {};
+  ADDRESS_FIELDS.forEach(field => {
+    values[toOrderField(type, field)] = entry[field] || '';
+  });
+  return values;
+};
+
+/**
+ * 배송접수 폼 값에서 발송인 또는 수취인 주소를 주소록 항목으로 추출
+ */
+export const orderFieldsToAddress = (type: AddressBookEntryType, data: ShippingOrderData): AddressBookEntryData => {
+  const entry: AddressBookEntryData = { type, name: '', phone: '', address: '', zipcode: '' };
+  ADDRESS_FIELDS.forEach(field => {
+    const value = data[toOrderField(type, field)];
+    if (value && value.trim() !== '') {
+      entry[field] = value.trim();
+    }
+  });
+  return entry;
+};
+
+/**
+ * 두 주소가 같은 곳인지 비교 (주소록 중복 저장 방지용)
+ */
+export const isSameAddress = (a: AddressBookEntryData, b: AddressBookEntryData) =>
+  a.name === b.name &&
+  a.phone === b.phone &&
+  a.address === b.address &&
+  (a.detail_address || '') === (b.detail_address || '') &&
+  a.zipcode === b.zipcode;
+
+/**
+ * 목록 표시용 한 줄 요약
+ */
+export const formatAddressLine = (entry: AddressBookEntry | AddressBookEntryData) =>
+  [`(${entry.zipcode})`, entry.address, entry.detail_address].filter(Boolean).join(' ');
@@ -0,0 +1,50 @@
+import React from 'react';
+import { Check, Minus } from 'lucide-react';
+import { PERMISSIONS, ROLES, hasPermission } from '../../utils/permissions';
+
+/**
+ * 역할별 권한 매트릭스 (조회 전용)
+ * 역할에 부여된 권한은 utils/permissions.ts의 ROLE_PERMISSIONS에서 관리
+ */
+const PermissionMatrix: React.FC = () => (
+  <div className="overflow-x-auto border rounded-lg">
+    <table className="w-full text-sm">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">구분</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">권한</th>
+          {ROLES.map(({ role, label }) => (
+            <th key={role} className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {label}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {PERMISSIONS.map(({ permission, group, label }, index) => (
+          <tr key={permission} className="hover:bg-gray-50">
+            <td className="px-4 py-2 text-gray-500">
+              {/* 같은 구분이 이어지면 첫 행에만 표시 */}
+              {PERMISSIONS[index - 1]?.group !== group && group}
+            </td>
+            <td className="px-4 py-2">
+              <p className="text-gray-900">{label}</p>
+              <p className="text-xs font-mono text-gray-400">{permission}</p>
+            </td>
+            {ROLES.map(({ role }) => (
+              <td key={role} className="px-4 py-2 text-center">
+                {hasPermission(role, permission) ? (
+                  <Check className="inline w-4 h-4 text-green-600" aria-label="허용" />
+                ) : (
+                  <Minus className="inline w-4 h-4 text-gray-300" aria-label="없음" />
+                )}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default PermissionMatrix;
@@ -0,0 +1,464 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { PricingZone, RateCardVersionData } from '../../types';
+import { DELIVERY_TYPES } from '../shipping/orderFields';
+import { SURCHARGE_LABELS } from '../../utils/pricing';
+
+interface RateCardEditorProps {
+  value: RateCardVersionData;
+  onChange: (value: RateCardVersionData) => void;
+  /** 이미 적용된 버전은 수정 불가 (새 버전으로 복사해서 수정) */
+  readOnly: boolean;
+}
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 disabled:text-gray-600';
+
+interface NumberInputProps {
+  value: number;
+  onChange: (value: number) => void;
+  disabled: boolean;
+  step?: string;
+}
+
+// 빈 칸은 NaN으로 두고 저장 전 검증에서 걸러냄
+const NumberInput: React.FC<NumberInputProps> = ({ value, onChange, disabled, step }) => (
+  <input
+    type="number"
+    min="0"
+    step={step}
+    value={Number.isNaN(value) ? '' : value}
+    onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+    disabled={disabled}
+    className={inputClass}
+  />
+);
+
+interface PrefixInputProps {
+  prefixes: string[];
+  onChange: (prefixes: string[]) => void;
+  disabled: boolean;
+}
+
+// 쉼표 입력 중에 값이 정리되지 않도록 입력을 마친 뒤 목록으로 반영
+const PrefixInput: React.FC<PrefixInputProps> = ({ prefixes, onChange, disabled }) => {
+  const [text, setText] = useState(prefixes.join(', '));
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const next = text.split(/[\s,]+/).filter(Boolean);
+        setText(next.join(', '));
+        onChange(next);
+      }}
+      disabled={disabled}
+      placeholder="예: 01, 02, 03"
+      className={inputClass}
+    />
+  );
+};
+
+const Section: React.FC<{ title: string; description?: string; children: React.ReactNode }> = ({ title, description, children }) => (
+  <section className="space-y-3">
+    <div>
+      <h4 className="font-semibold text-gray-900">{title}</h4>
+      {description && <p className="text-xs text-gray-500">{description}</p>}
+    </div>
+    {children}
+  </section>
+);
+
+/**
+ * 요금표 편집기
+ * 중량 구간, 크기 등급, 지역과 지역 간 할증, 배송 유형 배수, 특수 옵션 할증과 보험료율을 편집
+ */
+const RateCardEditor: React.FC<RateCardEditorProps> = ({ value, onChange, readOnly }) => {
+  const update = (patch: Partial<RateCardVersionData>) => onChange({ ...value, ...patch });
+
+  const updateZone = (index: number, patch: Partial<PricingZone>) => {
+    const previous = value.zones[index];
+    const zones = value.zones.map((zone, i) => (i === index ? { ...zone, ...patch } : zone));
+
+    // 지역 코드를 바꾸면 지역 간 할증표의 키도 함께 변경
+    const nextCode = patch.code;
+    if (nextCode !== undefined && nextCode !== previous.code) {
+      const renameKeys = <T,>(record: Record<string, T>) =>
+        Object.fromEntries(Object.entries(record).map(([key, v]) => [key === previous.code ? nextCode : key, v]));
+      const zone_matrix = Object.fromEntries(
+        Object.entries(renameKeys(value.zone_matrix)).map(([origin, row]) => [origin, renameKeys(row)])
+      );
+      update({ zones, zone_matrix });
+    } else {
+      update({ zones });
+    }
+  };
+
+  const removeZone = (index: number) => {
+    const code = value.zones[index].code;
+    const zone_matrix = Object.fromEntries(
+      Object.entries(value.zone_matrix)
+        .filter(([origin]) => origin !== code)
+        .map(([origin, row]) => [origin, Object.fromEntries(Object.entries(row).filter(([dest]) => dest !== code))])
+    );
+    update({ zones: value.zones.filter((_, i) => i !== index), zone_matrix });
+  };
+
+  const setZoneFee = (origin: string, destination: string, fee: number) => {
+    update({
+      zone_matrix: {
+        ...value.zone_matrix,
+        [origin]: { ...value.zone_matrix[origin], [destination]: fee }
+      }
+    });
+  };
+
+  const addButtonClass = 'flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 disabled:hidden';
+
+  return (
+    <div className="space-y-8">
+      {/* 기본 정보 */}
+      <Section title="기본 정보">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700">
+            요금표 이름
+            <input
+              type="text"
+              value={value.name}
+              onChange={(e) => update({ name: e.target.value })}
+              disabled={readOnly}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            적용일
+            <input
+              type="date"
+              value={value.effective_from}
+              onChange={(e) => update({ effective_from: e.target.value })}
+              disabled={readOnly}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="text-sm text-gray-700 sm:col-span-2">
+            변경 메모
+            <input
+              type="text"
+              value={value.memo || ''}
+              onChange={(e) => update({ memo: e.target.value })}
+              disabled={readOnly}
+              placeholder="예: 유류비 인상 반영"
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+        </div>
+      </Section>
+
+      {/* 중량 구간 */}
+      <Section title="중량 구간" description="실중량과 부피 중량 중 큰 값이 속한 구간의 운임을 적용합니다.">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="pb-1 font-medium">상한 (kg 이하)</th>
+              <th className="pb-1 font-medium">운임 (원)</th>
+              <th className="w-10"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {value.weight_brackets.map((bracket, index) => (
+              <tr key={index}>
+                <td className="pr-2 py-1">
+                  <NumberInput
+                    value={bracket.max_weight}
+                    step="0.1"
+                    onChange={(max_weight) => update({
+                      weight_brackets: value.weight_brackets.map((b, i) => (i === index ? { ...b, max_weight } : b))
+                    })}
+                    disabled={readOnly}
+                  />
+                </td>
+                <td className="pr-2 py-1">
+                  <NumberInput
+                    value={bracket.fee}
+                    onChange={(fee) => update({
+                      weight_brackets: value.weight_brackets.map((b, i) => (i === index ? { ...b, fee } : b))
+                    })}
+                    disabled={readOnly}
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      onClick={() => update({ weight_brackets: value.weight_brackets.filter((_, i) => i !== index) })}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="삭제"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          type="button"
+          disabled={readOnly}
+          onClick={() => {
+            const last = value.weight_brackets[value.weight_brackets.length - 1];
+            update({ weight_brackets: [...value.weight_brackets, { max_weight: (last?.max_weight || 0) + 10, fee: last?.fee || 0 }] });
+          }}
+          className={addButtonClass}
+        >
+          <Plus className="w-4 h-4" />
+          구간 추가
+        </button>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700">
+            마지막 구간 초과 시 kg당 운임 (원)
+            <div className="mt-1">
+              <NumberInput value={value.extra_fee_per_kg} onChange={(extra_fee_per_kg) => update({ extra_fee_per_kg })} disabled={readOnly} />
+            </div>
+          </label>
+          <label className="text-sm text-gray-700">
+            부피 중량 환산 계수 (가로×세로×높이 ÷ 계수)
+            <div className="mt-1">
+              <NumberInput value={value.volumetric_divisor} onChange={(volumetric_divisor) => update({ volumetric_divisor })} disabled={readOnly} />
+            </div>
+          </label>
+        </div>
+      </Section>
+
+      {/* 크기 등급 */}
+      <Section title="크기 등급" description="세 변의 합이 가장 큰 등급의 상한을 넘으면 접수할 수 없습니다.">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="pb-1 font-medium">등급 이름</th>
+              <th className="pb-1 font-medium">세 변 합 (cm 이하)</th>
+              <th className="pb-1 font-medium">할증 (원)</th>
+              <th className="w-10"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {value.size_classes.map((sizeClass, index) => (
+              <tr key={index}>
+                <td className="pr-2 py-1">
+                  <input
+                    type="text"
+                    value={sizeClass.name}
+                    onChange={(e) => update({
+                      size_classes: value.size_classes.map((c, i) => (i === index ? { ...c, name: e.target.value } : c))
+                    })}
+                    disabled={readOnly}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="pr-2 py-1">
+                  <NumberInput
+                    value={sizeClass.max_sum_cm}
+                    onChange={(max_sum_cm) => update({
+                      size_classes: value.size_classes.map((c, i) => (i === index ? { ...c, max_sum_cm } : c))
+                    })}
+                    disabled={readOnly}
+                  />
+                </td>
+                <td className="pr-2 py-1">
+                  <NumberInput
+                    value={sizeClass.fee}
+                    onChange={(fee) => update({
+                      size_classes: value.size_classes.map((c, i) => (i === index ? { ...c, fee } : c))
+                    })}
+                    disabled={readOnly}
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      onClick={() => update({ size_classes: value.size_classes.filter((_, i) => i !== index) })}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="삭제"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          type="button"
+          disabled={readOnly}
+          onClick={() => update({ size_classes: [...value.size_classes, { name: '', max_sum_cm: NaN, fee: 0 }] })}
+          className={addButtonClass}
+        >
+          <Plus className="w-4 h-4" />
+          등급 추가
+        </button>
+      </Section>
+
+      {/* 지역 */}
+      <Section title="요금 지역" description="우편번호 앞자리로 지역을 판별합니다. 여러 접두사가 맞으면 가장 긴 접두사를 사용합니다.">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="pb-1 font-medium w-32">코드</th>
+              <th className="pb-1 font-medium w-32">이름</th>
+              <th className="pb-1 font-medium">우편번호 접두사</th>
+              <th className="w-10"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {value.zones.map((zone, index) => (
+              <tr key={index}>
+                <td className="pr-2 py-1">
+                  <input
+                    type="text"
+                    value={zone.code}
+                    onChange={(e) => updateZone(index, { code: e.target.value.trim().toLowerCase() })}
+                    disabled={readOnly}
+                    className={`${inputClass} font-mono`}
+                  />
+                </td>
+                <td className="pr-2 py-1">
+                  <input
+                    type="text"
+                    value={zone.name}
+                    onChange={(e) => updateZone(index, { name: e.target.value })}
+                    disabled={readOnly}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="pr-2 py-1">
+                  <PrefixInput
+                    key={zone.zipcode_prefixes.join(',')}
+                    prefixes={zone.zipcode_prefixes}
+                    onChange={(zipcode_prefixes) => updateZone(index, { zipcode_prefixes })}
+                    disabled={readOnly}
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  {!readOnly && (
+                    <button
+                      type="button"
+                      onClick={() => removeZone(index)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="삭제"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          type="button"
+          disabled={readOnly}
+          onClick={() => update({ zones: [...value.zones, { code: `zone${value.zones.length + 1}`, name: '', zipcode_prefixes: [] }] })}
+          className={addButtonClass}
+        >
+          <Plus className="w-4 h-4" />
+          지역 추가
+        </button>
+      </Section>
+
+      {/* 지역 간 할증 */}
+      {value.zones.length > 0 && (
+        <Section title="지역 간 할증 (원)" description="행은 출발 지역, 열은 도착 지역입니다. 빈 칸은 할증 없음으로 계산합니다.">
+          <div className="overflow-x-auto">
+            <table className="text-sm">
+              <thead>
+                <tr>
+                  <th className="px-2 py-1 text-left font-medium text-gray-500">출발 \ 도착</th>
+                  {value.zones.map((zone, index) => (
+                    <th key={index} className="px-2 py-1 font-medium text-gray-700 whitespace-nowrap">{zone.name || zone.code}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {value.zones.map((origin, originIndex) => (
+                  <tr key={originIndex}>
+                    <th className="px-2 py-1 text-left font-medium text-gray-700 whitespace-nowrap">{origin.name || origin.code}</th>
+                    {value.zones.map((destination, destinationIndex) => (
+                      <td key={destinationIndex} className="px-1 py-1 w-24">
+                        <NumberInput
+                          value={value.zone_matrix[origin.code]?.[destination.code] ?? 0}
+                          onChange={(fee) => setZoneFee(origin.code, destination.code, fee)}
+                          disabled={readOnly}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Section>
+      )}
+
+      {/* 배송 유형 배수 */}
+      <Section title="배송 유형 배수" description="기본 운임, 크기·지역 할증 합계에 곱합니다. 특수 옵션 할증과 보험료에는 적용하지 않습니다.">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {DELIVERY_TYPES.map(type => (
+            <label key={type} className="text-sm text-gray-700">
+              {type}
+              <div className="mt-1">
+                <NumberInput
+                  value={value.delivery_type_multipliers[type] ?? 1}
+                  step="0.05"
+                  onChange={(multiplier) => update({
+                    delivery_type_multipliers: { ...value.delivery_type_multipliers, [type]: multiplier }
+                  })}
+                  disabled={readOnly}
+                />
+              </div>
+            </label>
+          ))}
+        </div>
+      </Section>
+
+      {/* 특수 옵션 할증 및 보험 */}
+      <Section title="특수 옵션 할증 및 보험">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {(Object.keys(SURCHARGE_LABELS) as (keyof RateCardVersionData['surcharges'])[]).map(option => (
+            <label key={option} className="text-sm text-gray-700">
+              {SURCHARGE_LABELS[option]} (원)
+              <div className="mt-1">
+                <NumberInput
+                  value={value.surcharges[option]}
+                  onChange={(fee) => update({ surcharges: { ...value.surcharges, [option]: fee } })}
+                  disabled={readOnly}
+                />
+              </div>
+            </label>
+          ))}
+          <label className="text-sm text-gray-700">
+            보험료율 (%)
+            <div className="mt-1">
+              <NumberInput
+                value={Math.round(value.insurance_rate * 10000) / 100}
+                step="0.01"
+                onChange={(percent) => update({ insurance_rate: percent / 100 })}
+                disabled={readOnly}
+              />
+            </div>
+          </label>
+          <label className="text-sm text-gray-700">
+            최소 보험료 (원)
+            <div className="mt-1">
+              <NumberInput value={value.insurance_min_fee} onChange={(insurance_min_fee) => update({ insurance_min_fee })} disabled={readOnly} />
+            </div>
+          </label>
+        </div>
+      </Section>
+    </div>
+  );
+};
+
+export default RateCardEditor;
@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Receipt, Plus, Copy, Save, Trash2 } from 'lucide-react';
+import { pricingAPI, getErrorMessage } from '../../services/api';
+import type { RateCard, RateCardStatus, RateCardVersion, RateCardVersionData } from '../../types';
+import { DEFAULT_RATE_CARD, getRateCardStatuses, validateRateCard } from '../../utils/pricing';
+import { toDateString } from '../../utils/date';
+import RateCardEditor from './RateCardEditor';
+import RateCardSimulator from './RateCardSimulator';
+
+const STATUS_LABELS: Record<RateCardStatus, { label: string; className: string }> = {
+  active: { label: '적용 중', className: 'bg-green-100 text-green-800' },
+  scheduled: { label: '적용 예정', className: 'bg-blue-100 text-blue-800' },
+  expired: { label: '만료', className: 'bg-gray-100 text-gray-600' }
+};
+
+// 요금표에서 편집할 항목만 추출 (버전 번호, 작성 정보 등 서버 관리 필드 제외)
+const toVersionData = (rateCard: RateCard, effective_from: string, memo = ''): RateCardVersionData => ({
+  name: rateCard.name,
+  effective_from,
+  memo,
+  weight_brackets: rateCard.weight_brackets,
+  extra_fee_per_kg: rateCard.extra_fee_per_kg,
+  volumetric_divisor: rateCard.volumetric_divisor,
+  size_classes: rateCard.size_classes,
+  zones: rateCard.zones,
+  zone_matrix: rateCard.zone_matrix,
+  delivery_type_multipliers: rateCard.delivery_type_multipliers,
+  surcharges: rateCard.surcharges,
+  insurance_rate: rateCard.insurance_rate,
+  insurance_min_fee: rateCard.insurance_min_fee
+});
+
+const getTomorrow = () => toDateString(new Date(Date.now() + 24 * 60 * 60 * 1000));
+
+/**
+ * 배송비 요금표 관리 (관리자 전용)
+ * 요금표는 버전으로 관리하며, 적용일이 지난 버전은 수정하지 않고 새 버전을 만들어 변경
+ */
+const RateCardManagement: React.FC = () => {
+  const [versions, setVersions] = useState<RateCardVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [editing, setEditing] = useState<RateCardVersionData | null>(null);
+  // 편집 대상이 바뀌면 편집기 내부 입력 상태를 새로 시작
+  const [editorKey, setEditorKey] = useState(0);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const today = toDateString(new Date());
+  const statuses = getRateCardStatuses(versions, today);
+  const selected = versions.find(v => v.id === selectedId) || null;
+  const isReadOnly = !!selected && statuses[selected.id] !== 'scheduled';
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const openEditor = (id: number | null, data: RateCardVersionData) => {
+    setSelectedId(id);
+    setEditing(data);
+    setEditorKey(prev => prev + 1);
+    setValidationErrors([]);
+  };
+
+  const fetchVersions = useCallback(async (selectId?: number) => {
+    try {
+      setLoading(true);
+      const response = await pricingAPI.getRateCardVersions();
+      const list = [...(response.rateCards || [])].sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+      setVersions(list);
+
+      // 지정한 버전, 없으면 적용 중인 버전을 선택 (등록된 버전이 없으면 기본 요금표로 첫 버전 작성)
+      const listStatuses = getRateCardStatuses(list, toDateString(new Date()));
+      const target = list.find(v => v.id === selectId) || list.find(v => listStatuses[v.id] === 'active') || list[0];
+      setSelectedId(target?.id ?? null);
+      setEditing(target
+        ? toVersionData(target, target.effective_from, target.memo)
+        : toVersionData(DEFAULT_RATE_CARD, toDateString(new Date())));
+      setEditorKey(prev => prev + 1);
+      setValidationErrors([]);
+    } catch (error) {
+      console.error('요금표 목록 조회 실패:', error);
+      setNotification({ type: 'error', message: '요금표 목록을 불러오는데 실패했습니다.' });
+      setTimeout(() => setNotification(null), 3000);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions]);
+
+  // 기존 버전(없으면 기본 요금표)을 복사해 새 버전 작성 시작
+  const startNewVersion = (source: RateCardVersion | null) => {
+    openEditor(null, toVersionData(source || DEFAULT_RATE_CARD, getTomorrow()));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const errors = validateRateCard(editing);
+    // 이미 적용 중인 요금을 소급해서 바꿀 수 없도록 내일 이후부터 적용 (첫 버전은 오늘부터 가능)
+    const hasActive = versions.some(v => statuses[v.id] === 'active');
+    if (editing.effective_from && (hasActive ? editing.effective_from <= today : editing.effective_from < today)) {
+      errors.push(hasActive ? '적용일은 내일 이후여야 합니다.' : '적용일은 오늘 이후여야 합니다.');
+    }
+    setValidationErrors(errors);
+    if (errors.length > 0) return;
+
+    try {
+      setIsSaving(true);
+      const response = selectedId
+        ? await pricingAPI.updateRateCardVersion(selectedId, editing)
+        : await pricingAPI.createRateCardVersion(editing);
+      showNotification('success', `요금표 v${response.rateCard.version}을(를) 저장했습니다.`);
+      fetchVersions(response.rateCard.id);
+    } catch (error) {
+      showNotification('error', getErrorMessage(error, '요금표 저장에 실패했습니다.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`적용 예정인 요금표 v${selected.version}을(를) 삭제하시겠습니까?`)) return;
+
+    try {
+      await pricingAPI.deleteRateCardVersion(selected.id);
+      showNotification('success', '요금표를 삭제했습니다.');
+      fetchVersions();
+    } catch (error) {
+      showNotification('error', getErrorMessage(error, '요금표 삭제에 실패했습니다.'));
+    }
+  };
+
+  if (loading && versions.length === 0) {
+    return (
+      <div className="flex items-center justify-center min-h-64">
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">요금표를 로딩 중...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* 알림 메시지 */}
+      {notification && (
+        <div className={`fixed top-4 right-4 z-50 p-4 rounded-lg shadow-lg border ${
+          notification.type === 'success'
+            ? 'bg-green-50 text-green-800 border-green-200'
+            : 'bg-red-50 text-red-800 border-red-200'
+        }`}>
+          <span className="font-medium">{notification.message}</span>
+        </div>
+      )}
+
+      {/* 헤더 */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <Receipt className="w-8 h-8 text-blue-500" />
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">요금표 관리</h2>
+              <p className="text-gray-600">배송비 계산에 쓰는 요금표를 버전별로 관리합니다</p>
+            </div>
+          </div>
+
+          <button
+            onClick={() => startNewVersion(versions.find(v => statuses[v.id] === 'active') || null)}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            새 버전 만들기
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          {/* 버전 목록 */}
+          <div className="bg-white rounded-lg shadow divide-y">
+            {versions.length === 0 ? (
+              <div className="p-6 text-sm text-center text-gray-500">
+                등록된 요금표가 없습니다. 첫 버전을 저장하기 전까지는 기본 요금표로 견적을 계산합니다.
+              </div>
+            ) : (
+              versions.map(version => (
+                <button
+                  key={version.id}
+                  onClick={() => openEditor(version.id, toVersionData(version, version.effective_from, version.memo))}
+                  className={`w-full px-4 py-3 text-left hover:bg-gray-50 ${selectedId === version.id ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">v{version.version}</span>
+                    <span className="text-sm text-gray-700 truncate">{version.name}</span>
+                    <span className={`ml-auto shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_LABELS[statuses[version.id]].className}`}>
+                      {STATUS_LABELS[statuses[version.id]].label}
+                    </span>
+                  </div>
+                  <div className="mt-1 text-xs text-gray-500">
+                    {version.effective_from}부터 적용
+                    {version.memo && ` · ${version.memo}`}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* 시뮬레이션 */}
+          {editing && (
+            <div className="bg-white rounded-lg shadow p-6">
+              <RateCardSimulator
+                rateCard={{ ...editing, version: selected?.version ?? 0 }}
+                savedRateCardId={selected?.id}
+              />
+            </div>
+          )}
+        </div>
+
+        {/* 편집기 */}
+        {editing && (
+          <div className="lg:col-span-2 bg-white rounded-lg shadow p-6 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {selected ? `요금표 v${selected.version}` : '새 요금표 버전'}
+              </h3>
+              <div className="flex gap-2">
+                {selected && (
+                  <button
+                    onClick={() => startNewVersion(selected)}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    <Copy className="w-4 h-4" />
+                    복사해서 새 버전
+                  </button>
+                )}
+                {selected && !isReadOnly && (
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    삭제
+                  </button>
+                )}
+                {!isReadOnly && (
+                  <button
+                    onClick={handleSave}
+                    disabled={isSaving}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+                  >
+                    <Save className="w-4 h-4" />
+                    {isSaving ? '저장 중...' : '저장'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {isReadOnly && (
+              <p className="p-3 text-sm text-gray-700 bg-gray-50 border rounded-lg">
+                이미 적용된 요금표는 수정할 수 없습니다. 요금을 바꾸려면 "복사해서 새 버전"으로 적용일을 지정한 새 버전을 만드세요.
+              </p>
+            )}
+
+            {validationErrors.length > 0 && (
+              <ul className="p-3 space-y-1 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg list-disc list-inside">
+                {validationErrors.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            <RateCardEditor key={editorKey} value={editing} onChange={setEditing} readOnly={isReadOnly} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RateCardManagement;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { Calculator } from 'lucide-react';
+import type { RateCard, ShippingQuote, ShippingQuoteInput } from '../../types';
+import { pricingAPI, getErrorMessage } from '../../services/api';
+import { calculateShippingQuote, SURCHARGE_LABELS } from '../../utils/pricing';
+import { DELIVERY_TYPES } from '../shipping/orderFields';
+import ShippingQuoteSummary from '../shipping/ShippingQuoteSummary';
+
+interface RateCardSimulatorProps {
+  /** 편집 중인 요금표 (저장 전 값으로도 계산) */
+  rateCard: RateCard;
+  /** 저장된 버전이면 서버 계산과 비교할 수 있음 */
+  savedRateCardId?: number;
+}
+
+const INITIAL_INPUT: ShippingQuoteInput = {
+  sender_zipcode: '04524',
+  receiver_zipcode: '48058',
+  package_weight: 3,
+  package_size: '40x30x20',
+  delivery_type: '일반',
+  is_fragile: false,
+  is_frozen: false,
+  requires_signature: false,
+  insurance_amount: 0
+};
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * 요금 시뮬레이션 패널
+ * 임의의 화물 조건으로 편집 중인 요금표의 견적을 바로 계산하고, 저장된 버전은 서버 계산 결과와 비교
+ */
+const RateCardSimulator: React.FC<RateCardSimulatorProps> = ({ rateCard, savedRateCardId }) => {
+  const [input, setInput] = useState<ShippingQuoteInput>(INITIAL_INPUT);
+  const [serverQuote, setServerQuote] = useState<ShippingQuote | null>(null);
+  const [serverError, setServerError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  const result = calculateShippingQuote(rateCard, input);
+
+  const update = (patch: Partial<ShippingQuoteInput>) => {
+    setInput(prev => ({ ...prev, ...patch }));
+    setServerQuote(null);
+    setServerError('');
+  };
+
+  const checkWithServer = async () => {
+    try {
+      setIsChecking(true);
+      setServerError('');
+      const response = await pricingAPI.simulate(input, savedRateCardId);
+      setServerQuote(response.quote);
+    } catch (error) {
+      setServerError(getErrorMessage(error, '서버 견적 계산에 실패했습니다.'));
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Calculator className="w-5 h-5 text-blue-500" />
+        <h3 className="font-semibold text-gray-900">요금 시뮬레이션</h3>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-sm text-gray-700">
+        <label>
+          출발 우편번호
+          <input type="text" maxLength={5} value={input.sender_zipcode || ''} onChange={(e) => update({ sender_zipcode: e.target.value })} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label>
+          도착 우편번호
+          <input type="text" maxLength={5} value={input.receiver_zipcode || ''} onChange={(e) => update({ receiver_zipcode: e.target.value })} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label>
+          중량 (kg)
+          <input type="number" min="0" step="0.1" value={input.package_weight ?? ''} onChange={(e) => update({ package_weight: Number(e.target.value) })} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label>
+          크기 (cm)
+          <input type="text" value={input.package_size || ''} onChange={(e) => update({ package_size: e.target.value })} placeholder="30x20x10" className={`mt-1 ${inputClass}`} />
+        </label>
+        <label>
+          배송 유형
+          <select value={input.delivery_type} onChange={(e) => update({ delivery_type: e.target.value })} className={`mt-1 ${inputClass}`}>
+            {DELIVERY_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          보험 가입금액 (원)
+          <input type="number" min="0" value={input.insurance_amount ?? 0} onChange={(e) => update({ insurance_amount: Number(e.target.value) })} className={`mt-1 ${inputClass}`} />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+        {(Object.keys(SURCHARGE_LABELS) as (keyof typeof SURCHARGE_LABELS)[]).map(option => (
+          <label key={option} className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!input[option]}
+              onChange={(e) => update({ [option]: e.target.checked })}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            {SURCHARGE_LABELS[option]}
+          </label>
+        ))}
+      </div>
+
+      <ShippingQuoteSummary result={result} />
+
+      {savedRateCardId !== undefined && (
+        <div className="text-sm">
+          <button
+            type="button"
+            onClick={checkWithServer}
+            disabled={isChecking}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isChecking ? '계산 중...' : '서버 계산으로 확인'}
+          </button>
+          {serverQuote && (
+            <p className={`mt-2 ${serverQuote.total === result.quote?.total ? 'text-green-700' : 'text-red-600'}`}>
+              서버 견적 {serverQuote.total.toLocaleString()}원
+              {serverQuote.total === result.quote?.total ? ' (일치)' : ' — 화면 계산과 다릅니다. 저장하지 않은 변경이 있는지 확인하세요.'}
+            </p>
+          )}
+          {serverError && <p className="mt-2 text-red-600">{serverError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RateCardSimulator;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { KeyRound } from 'lucide-react';
+import { twoFactorAPI, getErrorMessage } from '../../services/api';
+import { useAuth } from '../../hooks/useAuth';
+import { ROLES } from '../../utils/permissions';
+import type { UserRole } from '../../types';
+
+/**
+ * 역할별 2단계 인증 필수 정책 (관리자)
+ * 필수 역할의 사용자는 로그인 후 보안 설정에서 2단계 인증을 등록해야 다른 화면을 쓸 수 있음
+ */
+const TwoFactorPolicyPanel: React.FC = () => {
+  const { refreshUser } = useAuth();
+  const [requiredRoles, setRequiredRoles] = useState<UserRole[]>([]);
+  const [savedRoles, setSavedRoles] = useState<UserRole[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    twoFactorAPI.getPolicy()
+      .then(policy => {
+        if (cancelled) return;
+        setRequiredRoles(policy.required_roles);
+        setSavedRoles(policy.required_roles);
+      })
+      .catch(error => {
+        console.error('2단계 인증 정책 조회 실패:', error);
+        if (!cancelled) setMessage({ type: 'error', text: getErrorMessage(error, '2단계 인증 정책을 불러오지 못했습니다.') });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const toggleRole = (role: UserRole) => {
+    setRequiredRoles(prev => (prev.includes(role) ? prev.filter(r => r !== role) : [...prev, role]));
+    setMessage(null);
+  };
+
+  const isChanged =
+    requiredRoles.length !== savedRoles.length || requiredRoles.some(role => !savedRoles.includes(role));
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      const policy = await twoFactorAPI.updatePolicy({ required_roles: requiredRoles });
+      setRequiredRoles(policy.required_roles);
+      setSavedRoles(policy.required_roles);
+      setMessage({ type: 'success', text: '2단계 인증 정책이 저장되었습니다.' });
+      // 내 역할이 필수 대상이 되었을 수 있으므로 내 정보 갱신
+      await refreshUser();
+    } catch (error) {
+      console.error('2단계 인증 정책 저장 실패:', error);
+      setMessage({ type: 'error', text: getErrorMessage(error, '2단계 인증 정책 저장에 실패했습니다.') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-1">
+        <KeyRound className="w-5 h-5 text-blue-500" />
+        <h3 className="font-semibold text-gray-900">2단계 인증 필수 역할</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        선택한 역할의 사용자는 다음 로그인부터 2단계 인증(인증 앱)을 등록해야 서비스를 이용할 수 있습니다.
+        이미 등록한 사용자는 해제할 수 없게 됩니다.
+      </p>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">정책을 불러오는 중...</p>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          {ROLES.map(({ role, label, badgeClassName }) => (
+            <label key={role} className="flex items-center gap-2 px-3 py-2 border rounded-lg cursor-pointer hover:bg-gray-50">
+              <input
+                type="checkbox"
+                checked={requiredRoles.includes(role)}
+                onChange={() => toggleRole(role)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${badgeClassName}`}>{label}</span>
+            </label>
+          ))}
+
+          <button
+            onClick={handleSave}
+            disabled={!isChanged || isSaving}
+            className="ml-auto px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            {isSaving ? '저장 중...' : '정책 저장'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorPolicyPanel;
@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Users, Plus, Edit, Trash2, Search, Eye, EyeOff } from 'lucide-react';
+import { Users, Plus, Edit, Trash2, Search, Eye, EyeOff, ShieldCheck, KeyRound } from 'lucide-react';
 import { userAPI } from '../../services/api';
 import { useAuth } from '../../hooks/useAuth';
+import { usePermissions } from '../../hooks/usePermission';
+import { ROLES, getRoleInfo } from '../../utils/permissions';
+import type { UserRole } from '../../types';
+import PermissionMatrix from './PermissionMatrix';
+import TwoFactorPolicyPanel from './TwoFactorPolicyPanel';
 
 interface User {
   id: number;
@@ -9,15 +14,20 @@ interface User {
   name: string;
   phone?: string;
   company?: string;
-  role: 'admin' | 'manager' | 'user';
+  role: UserRole;
   is_active: boolean;
+  two_factor_enabled?: boolean;
   last_login?: string;
   created_at: string;
   updated_at: string;
 }
 
 const UserManagement: React.FC = () => {
-  const { user: currentUser } = useAuth();
+  const { user: currentUser, refreshUser } = useAuth();
+  const can = usePermissions();
+  const canManageUsers = can('users.manage');
+  const [showPermissionMatrix, setShowPermissionMatrix] = useState(false);
+  const [showTwoFactorPolicy, setShowTwoFactorPolicy] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -112,7 +122,7 @@ const UserManagement: React.FC = () => {
         is_active: formData.is_active
       };
 
-      if (currentUser?.role === 'admin') {
+      if (canManageUsers) {
         updateData.role = formData.role;
       }
 
@@ -121,6 +131,11 @@ const UserManagement: React.FC = () => {
       }
 
       await userAPI.updateUser(selectedUser.id, updateData);
+
+      // 내 정보를 고쳤으면 헤더 표시와 권한, 다른 탭에도 반영
+      if (selectedUser.id === currentUser?.id) {
+        refreshUser().catch(error => console.error('내 정보 갱신 실패:', error));
+      }
       
       showNotification('success', '사용자 정보가 성공적으로 업데이트되었습니다.');
       setShowEditModal(false);
@@ -163,17 +178,11 @@ const UserManagement: React.FC = () => {
   };
 
   const getRoleBadge = (role: string) => {
-    const config = {
-      admin: { color: 'bg-red-100 text-red-800', text: '관리자' },
-      manager: { color: 'bg-blue-100 text-blue-800', text: '매니저' },
-      user: { color: 'bg-gray-100 text-gray-800', text: '사용자' }
-    };
-    
-    const { color, text } = config[role as keyof typeof config] || config.user;
+    const { label, badgeClassName } = getRoleInfo(role);
     
     return (
-      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${color}`}>
-        {text}
+      <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${badgeClassName}`}>
+        {label}
       </span>
     );
   };
@@ -229,20 +238,58 @@ const UserManagement: React.FC = () => {
             </div>
           </div>
           
-          {currentUser?.role === 'admin' && (
-            <button
-              onClick={() => {
-                resetForm();
-                setShowCreateModal(true);
-              }}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              <Plus className="w-5 h-5" />
-              새 사용자 생성
-            </button>
-          )}
+          <div className="flex items-center gap-2">
+            {can('permissions.view') && (
+              <button
+                onClick={() => setShowPermissionMatrix(prev => !prev)}
+                className={`flex items-center gap-2 px-4 py-2 border rounded-lg transition-colors ${
+                  showPermissionMatrix ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <ShieldCheck className="w-5 h-5" />
+                역할별 권한
+              </button>
+            )}
+
+            {can('security.manage_2fa') && (
+              <button
+                onClick={() => setShowTwoFactorPolicy(prev => !prev)}
+                className={`flex items-center gap-2 px-4 py-2 border rounded-lg transition-colors ${
+                  showTwoFactorPolicy ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <KeyRound className="w-5 h-5" />
+                2단계 인증 정책
+              </button>
+            )}
+
+            {canManageUsers && (
+              <button
+                onClick={() => {
+                  resetForm();
+                  setShowCreateModal(true);
+                }}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                <Plus className="w-5 h-5" />
+                새 사용자 생성
+              </button>
+            )}
+          </div>
         </div>
 
+        {showPermissionMatrix && (
+          <div className="mb-4">
+            <PermissionMatrix />
+          </div>
+        )}
+
+        {showTwoFactorPolicy && (
+          <div className="mb-4">
+            <TwoFactorPolicyPanel />
+          </div>
+        )}
+
         {/* 검색 및 필터 */}
         <div className="flex gap-4">
           <div className="flex-1">
@@ -264,9 +311,9 @@ const UserManagement: React.FC = () => {
             onChange={(e) => setRoleFilter(e.target.value)}
           >
             <option value="">모든 역할</option>
-            <option value="admin">관리자</option>
-            <option value="manager">매니저</option>
-            <option value="user">사용자</option>
+            {ROLES.map(({ role, label }) => (
+              <option key={role} value={role}>{label}</option>
+            ))}
           </select>
         </div>
       </div>
@@ -316,6 +363,12 @@ const UserManagement: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getRoleBadge(user.role)}
+                      {user.two_factor_enabled && (
+                        <span className="ml-1 inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800" title="2단계 인증 사용 중">
+                          <KeyRound className="w-3 h-3" />
+                          2FA
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {getStatusBadge(user.is_active)}
@@ -336,7 +389,7 @@ const UserManagement: React.FC = () => {
                           <Edit className="w-4 h-4" />
                         </button>
                         
-                        {currentUser?.role === 'admin' && currentUser.id !== user.id && (
+                        {canManageUsers && currentUser?.id !== user.id && (
                           <button
                             onClick={() => handleDeleteUser(user)}
                             className="text-red-600 hover:text-red-900 p-1 rounded"
@@ -440,9 +493,9 @@ const UserManagement: React.FC = () => {
                         value={formData.role}
                         onChange={(e) => setFormData({ ...formData, role: e.target.value })}
                       >
-                        <option value="user">사용자</option>
-                        <option value="manager">매니저</option>
-                        <option value="admin">관리자</option>
+                        {ROLES.map(({ role, label }) => (
+                          <option key={role} value={role}>{label}</option>
+                        ))}
                       </select>
                     </div>
                   </div>
@@ -545,7 +598,7 @@ const UserManagement: React.FC = () => {
                       />
                     </div>
                     
-                    {currentUser?.role === 'admin' && (
+                    {canManageUsers && (
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-1">역할</label>
                         <select
@@ -553,14 +606,14 @@ const UserManagement: React.FC = () => {
                           value={formData.role}
                           onChange={(e) => setFormData({ ...formData, role: e.target.value })}
                         >
-                          <option value="user">사용자</option>
-                          <option value="manager">매니저</option>
-                          <option value="admin">관리자</option>
+                          {ROLES.map(({ role, label }) => (
+                            <option key={role} value={role}>{label}</option>
+                          ))}
                         </select>
                       </div>
                     )}
                     
-                    {currentUser?.role === 'admin' && (
+                    {canManageUsers && (
                       <div>
                         <label className="flex items-center">
                           <input
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { User, Lock, Phone, Building, Eye, EyeOff, AlertCircle } from 'lucide-react';
+import { User, Lock, Phone, Building, Eye, EyeOff, AlertCircle, Clock, KeyRound } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import type { LoginData, RegisterData } from '../../types';
 
@@ -11,18 +11,25 @@ const AuthPage: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string>('');
   const [usernameCheck, setUsernameCheck] = useState<{ available: boolean; message: string } | null>(null);
+  // 2단계 인증 계정: 아이디/비밀번호 확인 후 받은 챌린지 (있으면 인증 코드 입력 단계)
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
 
-  const { login, register, checkUsername } = useAuth();
+  const { login, verifyTwoFactor, register, checkUsername, sessionExpiredMessage } = useAuth();
 
   const loginForm = useForm<LoginData>();
   const registerForm = useForm<RegisterData>();
+  const twoFactorForm = useForm<{ code: string }>();
 
   // 로그인 처리
   const handleLogin = async (data: LoginData) => {
     try {
       setIsSubmitting(true);
       setError('');
-      await login(data);
+      const result = await login(data);
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken);
+        twoFactorForm.reset();
+      }
     } catch (error: any) {
       setError(error.message);
     } finally {
@@ -30,6 +37,28 @@ const AuthPage: React.FC = () => {
     }
   };
 
+  // 2단계 인증 코드 확인
+  const handleTwoFactor = async ({ code }: { code: string }) => {
+    if (!challengeToken) return;
+    try {
+      setIsSubmitting(true);
+      setError('');
+      await verifyTwoFactor(challengeToken, code.trim());
+    } catch (error) {
+      setError((error as Error).message);
+      twoFactorForm.reset();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // 인증 코드 단계에서 아이디/비밀번호 입력으로 돌아가기
+  const cancelTwoFactor = () => {
+    setChallengeToken(null);
+    setError('');
+    loginForm.resetField('password');
+  };
+
   // 회원가입 처리
   const handleRegister = async (data: RegisterData) => {
     try {
@@ -83,10 +112,20 @@ const AuthPage: React.FC = () => {
           </div>
           <h1 className="text-2xl font-bold text-gray-800 mb-2">배송접수 시스템</h1>
           <p className="text-gray-600">
-            {isLogin ? '로그인하여 서비스를 이용하세요' : '회원가입하여 시작하세요'}
+            {challengeToken
+              ? '2단계 인증 코드를 입력하세요'
+              : isLogin ? '로그인하여 서비스를 이용하세요' : '회원가입하여 시작하세요'}
           </p>
         </div>
 
+        {/* 세션 만료 안내 */}
+        {sessionExpiredMessage && isLogin && !error && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-6 flex items-center gap-2">
+            <Clock className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+            <span className="text-yellow-800 text-sm">{sessionExpiredMessage}</span>
+          </div>
+        )}
+
         {/* 에러 메시지 */}
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6 flex items-center gap-2">
@@ -95,8 +134,50 @@ const AuthPage: React.FC = () => {
           </div>
         )}
 
-        {/* 로그인 폼 */}
-        {isLogin ? (
+        {/* 2단계 인증 코드 입력 */}
+        {challengeToken ? (
+          <form onSubmit={twoFactorForm.handleSubmit(handleTwoFactor)} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">인증 코드</label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <input
+                  type="text"
+                  inputMode="text"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  {...twoFactorForm.register('code', {
+                    required: '인증 코드를 입력하세요',
+                    pattern: { value: /^\s*(\d{6}|[a-zA-Z0-9]{4}-?[a-zA-Z0-9]{4})\s*$/, message: '6자리 숫자 또는 백업 코드를 입력하세요' }
+                  })}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg font-mono tracking-widest focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="123456"
+                />
+              </div>
+              {twoFactorForm.formState.errors.code && (
+                <p className="mt-1 text-sm text-red-600">{twoFactorForm.formState.errors.code.message}</p>
+              )}
+              <p className="mt-2 text-xs text-gray-500">
+                인증 앱에 표시된 6자리 코드를 입력하세요. 휴대폰을 사용할 수 없으면 백업 코드(xxxx-xxxx)를 입력할 수 있습니다.
+              </p>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-blue-300 text-white font-medium py-3 rounded-lg transition-colors"
+            >
+              {isSubmitting ? '확인 중...' : '확인'}
+            </button>
+            <button
+              type="button"
+              onClick={cancelTwoFactor}
+              className="w-full text-sm text-gray-600 hover:text-gray-900"
+            >
+              다른 계정으로 로그인
+            </button>
+          </form>
+        ) : isLogin ? (
           <form onSubmit={loginForm.handleSubmit(handleLogin)} className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">아이디</label>
@@ -277,14 +358,16 @@ const AuthPage: React.FC = () => {
         )}
 
         {/* 모드 전환 */}
-        <div className="mt-6 text-center">
-          <button
-            onClick={toggleMode}
-            className="text-blue-500 hover:text-blue-600 text-sm font-medium"
-          >
-            {isLogin ? '회원가입하기' : '이미 계정이 있나요? 로그인하기'}
-          </button>
-        </div>
+        {!challengeToken && (
+          <div className="mt-6 text-center">
+            <button
+              onClick={toggleMode}
+              className="text-blue-500 hover:text-blue-600 text-sm font-medium"
+            >
+              {isLogin ? '회원가입하기' : '이미 계정이 있나요? 로그인하기'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
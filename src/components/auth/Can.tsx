@@ -0,0 +1,20 @@
+import React from 'react';
+import type { Permission } from '../../types';
+import { usePermission } from '../../hooks/usePermission';
+
+interface CanProps {
+  permission: Permission;
+  /** 권한이 없을 때 대신 표시할 내용 */
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * 권한이 있을 때만 children을 표시
+ */
+const Can: React.FC<CanProps> = ({ permission, fallback = null, children }) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { createQrMatrix } from '../../utils/barcode';
+
+interface QrCodeProps {
+  value: string;
+  /** 한 변 길이 (CSS 길이, 예: 22mm, 180px) */
+  size: string;
+  title?: string;
+}
+
+/**
+ * QR 코드 SVG (4모듈 여백 포함)
+ * 배송 라벨과 2단계 인증 등록 화면에서 공통으로 사용
+ */
+const QrCode: React.FC<QrCodeProps> = ({ value, size, title }) => {
+  const matrix = createQrMatrix(value);
+  const margin = 4;
+  const viewSize = matrix.length + margin * 2;
+  // 모듈마다 rect를 만들지 않고 하나의 path로 그림
+  const path = matrix
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + margin} ${y + margin}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg
+      viewBox={`0 0 ${viewSize} ${viewSize}`}
+      style={{ width: size, height: size, display: 'block', background: '#fff' }}
+      shapeRendering="crispEdges"
+      role={title ? 'img' : undefined}
+      aria-label={title}
+    >
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
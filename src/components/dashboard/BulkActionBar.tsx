@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { CheckSquare, X, Hash, AlertTriangle, CheckCircle, Printer, Truck } from 'lucide-react';
+import { shippingAPI, userAPI, getErrorMessage } from '../../services/api';
+import type { ShippingOrder, User } from '../../types';
+import { runWithConcurrency } from '../../utils/concurrency';
+import { usePermissions } from '../../hooks/usePermission';
+import { ORDER_STATUSES, requiresInput, validateTransition } from '../../utils/orderStatus';
+
+/** 일괄 처리 시 동시에 보낼 요청 수 */
+const BULK_CONCURRENCY = 4;
+
+export interface BulkFailure {
+  orderId: number;
+  message: string;
+}
+
+interface BulkActionBarProps {
+  selectedOrders: ShippingOrder[];
+  onClearSelection: () => void;
+  onOpenTrackingAssign: () => void;
+  onPrintLabels: () => void;
+  /** 상태 일괄 변경이 끝난 뒤 성공한 주문 목록과 함께 호출 */
+  onStatusBatchComplete: (status: string, updatedOrders: ShippingOrder[]) => void;
+  /** 배송기사 일괄 배정이 끝난 뒤 배정된 주문 목록과 함께 호출 */
+  onDriverBatchComplete: (updatedOrders: ShippingOrder[]) => void;
+}
+
+/**
+ * 대시보드 선택 주문 일괄 처리 바
+ * 선택한 주문의 상태 일괄 변경, 배송기사 배정, 운송장 일괄 할당/라벨 인쇄 진입, 부분 실패 결과 표시
+ */
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedOrders,
+  onClearSelection,
+  onOpenTrackingAssign,
+  onPrintLabels,
+  onStatusBatchComplete,
+  onDriverBatchComplete
+}) => {
+  const can = usePermissions();
+  const canAssignDriver = can('orders.assign_driver');
+  const [targetStatus, setTargetStatus] = useState('');
+  const [statusReason, setStatusReason] = useState('');
+  const [drivers, setDrivers] = useState<User[]>([]);
+  const [targetDriverId, setTargetDriverId] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [result, setResult] = useState<{ label: string; succeeded: number; failures: BulkFailure[] } | null>(null);
+
+  // 배차 권한이 있으면 배정할 배송기사 목록 조회
+  useEffect(() => {
+    if (!canAssignDriver) return;
+    userAPI.getAllUsers(1, 100, '', 'driver')
+      .then(response => setDrivers(response.users || []))
+      .catch(error => console.error('배송기사 목록 조회 실패:', error));
+  }, [canAssignDriver]);
+
+  const handleApplyStatus = async () => {
+    if (!targetStatus || selectedOrders.length === 0) return;
+    if (!window.confirm(`선택한 ${selectedOrders.length}건의 상태를 "${targetStatus}"(으)로 변경하시겠습니까?`)) {
+      return;
+    }
+
+    // 상태 전이 규칙에 맞지 않는 주문(변경 불가 상태, 운송장 미할당, 서명 누락)은 요청하지 않고 실패로 표시
+    const details = requiresInput(targetStatus, 'reason') ? { reason: statusReason.trim() } : {};
+    const blockedFailures: BulkFailure[] = [];
+    const targetOrders = selectedOrders.filter(order => {
+      const message = validateTransition(order, targetStatus, details);
+      if (message) blockedFailures.push({ orderId: order.id, message });
+      return !message;
+    });
+
+    setIsProcessing(true);
+    setResult(null);
+    setProgress({ completed: 0, total: targetOrders.length });
+
+    const results = await runWithConcurrency(
+      targetOrders,
+      BULK_CONCURRENCY,
+      (order) => shippingAPI.updateOrderStatus(order.id, targetStatus, details),
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    const updatedOrders: ShippingOrder[] = [];
+    const failures: BulkFailure[] = blockedFailures;
+    results.forEach(r => {
+      if (r.status === 'fulfilled') {
+        updatedOrders.push({ ...r.item, status: targetStatus });
+      } else {
+        failures.push({ orderId: r.item.id, message: getErrorMessage(r.reason, '상태 변경에 실패했습니다.') });
+      }
+    });
+
+    setResult({ label: `"${targetStatus}" 변경`, succeeded: updatedOrders.length, failures });
+    setIsProcessing(false);
+    setTargetStatus('');
+    setStatusReason('');
+    onStatusBatchComplete(targetStatus, updatedOrders);
+  };
+
+  const handleAssignDriver = async () => {
+    const driver = drivers.find(d => d.id === Number(targetDriverId));
+    if (!driver || selectedOrders.length === 0) return;
+    if (!window.confirm(`선택한 ${selectedOrders.length}건을 ${driver.name} 기사에게 배정하시겠습니까?`)) {
+      return;
+    }
+
+    setIsProcessing(true);
+    setResult(null);
+    setProgress({ completed: 0, total: selectedOrders.length });
+
+    const results = await runWithConcurrency(
+      selectedOrders,
+      BULK_CONCURRENCY,
+      (order) => shippingAPI.assignDriver(order.id, driver.id),
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    const updatedOrders: ShippingOrder[] = [];
+    const failures: BulkFailure[] = [];
+    results.forEach(r => {
+      if (r.status === 'fulfilled') {
+        updatedOrders.push({ ...r.item, assigned_driver_id: driver.id, assigned_driver_name: driver.name });
+      } else {
+        failures.push({ orderId: r.item.id, message: getErrorMessage(r.reason, '배송기사 배정에 실패했습니다.') });
+      }
+    });
+
+    setResult({ label: `${driver.name} 기사 배정`, succeeded: updatedOrders.length, failures });
+    setIsProcessing(false);
+    setTargetDriverId('');
+    onDriverBatchComplete(updatedOrders);
+  };
+
+  if (selectedOrders.length === 0 && !result) {
+    if (!can('tracking.assign')) return null;
+    return (
+      <div className="flex justify-end px-6 py-3 border-b bg-gray-50">
+        <button
+          onClick={onOpenTrackingAssign}
+          className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors touch-manipulation"
+        >
+          <Hash className="w-4 h-4" />
+          운송장 일괄 할당
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-6 py-3 border-b bg-blue-50 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-blue-800">
+          <CheckSquare className="w-5 h-5" />
+          {selectedOrders.length}건 선택됨
+          {selectedOrders.length > 0 && (
+            <button
+              onClick={onClearSelection}
+              className="p-1 rounded hover:bg-blue-100"
+              title="선택 해제"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+          {can('orders.update_status') && (
+            <>
+              <select
+                value={targetStatus}
+                onChange={(e) => setTargetStatus(e.target.value)}
+                disabled={isProcessing || selectedOrders.length === 0}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">상태 선택</option>
+                {ORDER_STATUSES.map(({ status }) => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+              {requiresInput(targetStatus, 'reason') && (
+                <input
+                  type="text"
+                  value={statusReason}
+                  onChange={(e) => setStatusReason(e.target.value)}
+                  disabled={isProcessing}
+                  placeholder={`${targetStatus} 사유 (필수)`}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              )}
+              <button
+                onClick={handleApplyStatus}
+                disabled={isProcessing || !targetStatus || selectedOrders.length === 0 || (requiresInput(targetStatus, 'reason') && !statusReason.trim())}
+                className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-blue-300 transition-colors touch-manipulation"
+              >
+                {isProcessing ? `처리 중 ${progress.completed}/${progress.total}` : '상태 일괄 변경'}
+              </button>
+            </>
+          )}
+          {canAssignDriver && (
+            <>
+              <select
+                value={targetDriverId}
+                onChange={(e) => setTargetDriverId(e.target.value)}
+                disabled={isProcessing || selectedOrders.length === 0}
+                className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">배송기사 선택</option>
+                {drivers.map(driver => (
+                  <option key={driver.id} value={driver.id}>{driver.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleAssignDriver}
+                disabled={isProcessing || !targetDriverId || selectedOrders.length === 0}
+                className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors touch-manipulation"
+              >
+                <Truck className="w-4 h-4" />
+                기사 배정
+              </button>
+            </>
+          )}
+          {can('tracking.assign') && (
+            <button
+              onClick={onOpenTrackingAssign}
+              disabled={isProcessing}
+              className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors touch-manipulation"
+            >
+              <Hash className="w-4 h-4" />
+              운송장 일괄 할당
+            </button>
+          )}
+          <button
+            onClick={onPrintLabels}
+            disabled={isProcessing || selectedOrders.length === 0}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors touch-manipulation"
+          >
+            <Printer className="w-4 h-4" />
+            라벨 인쇄
+          </button>
+        </div>
+      </div>
+
+      {/* 일괄 처리 결과 */}
+      {result && (
+        <div className={`p-3 rounded-lg border text-sm ${
+          result.failures.length === 0 ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'
+        }`}>
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex items-center gap-2 font-medium">
+              {result.failures.length === 0 ? (
+                <CheckCircle className="w-4 h-4 text-green-500" />
+              ) : (
+                <AlertTriangle className="w-4 h-4 text-yellow-500" />
+              )}
+              {result.label}: {result.succeeded}건 성공
+              {result.failures.length > 0 && `, ${result.failures.length}건 실패`}
+            </div>
+            <button onClick={() => setResult(null)} className="p-1 rounded hover:bg-black hover:bg-opacity-5" title="닫기">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {result.failures.length > 0 && (
+            <ul className="mt-2 space-y-1 text-red-700 max-h-32 overflow-y-auto">
+              {result.failures.map(failure => (
+                <li key={failure.orderId}>주문 #{failure.orderId}: {failure.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,215 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { X, Upload, Hash, AlertTriangle, CheckCircle } from 'lucide-react';
+import { shippingAPI, getErrorMessage } from '../../services/api';
+import { runWithConcurrency } from '../../utils/concurrency';
+import { parseTrackingMapping } from './trackingMapping';
+import type { BulkFailure } from './BulkActionBar';
+
+/** 일괄 처리 시 동시에 보낼 요청 수 */
+const BULK_CONCURRENCY = 4;
+
+interface BulkTrackingModalProps {
+  onClose: () => void;
+  /** 입력란에 미리 채울 선택 주문 ID 목록 (모달을 열 때 한 번만 사용) */
+  initialOrderIds: number[];
+  /** 할당이 하나 이상 성공하면 성공 건수와 함께 호출 */
+  onCompleted: (assignedCount: number) => void;
+}
+
+/**
+ * 운송장 번호 일괄 할당 모달
+ * "주문ID, 운송장번호[, 택배회사]" 형식의 붙여넣기 또는 CSV 업로드로 여러 주문에 한 번에 할당
+ */
+const BulkTrackingModal: React.FC<BulkTrackingModalProps> = ({
+  onClose,
+  initialOrderIds,
+  onCompleted
+}) => {
+  const [text, setText] = useState(() => initialOrderIds.map(id => `${id},`).join('\n'));
+  const [defaultCompany, setDefaultCompany] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [result, setResult] = useState<{ succeeded: number; failures: BulkFailure[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => parseTrackingMapping(text), [text]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setText(await file.text());
+    setResult(null);
+  };
+
+  const handleSubmit = async () => {
+    if (parsed.entries.length === 0) return;
+
+    setIsProcessing(true);
+    setResult(null);
+    setProgress({ completed: 0, total: parsed.entries.length });
+
+    const results = await runWithConcurrency(
+      parsed.entries,
+      BULK_CONCURRENCY,
+      (entry) => shippingAPI.assignTrackingNumber(entry.orderId, {
+        tracking_number: entry.trackingNumber,
+        tracking_company: entry.trackingCompany || defaultCompany.trim() || undefined
+      }),
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    const failures: BulkFailure[] = [];
+    results.forEach(r => {
+      if (r.status === 'rejected') {
+        failures.push({ orderId: r.item.orderId, message: getErrorMessage(r.reason, '운송장 할당에 실패했습니다.') });
+      }
+    });
+    const succeeded = results.length - failures.length;
+
+    setResult({ succeeded, failures });
+    setIsProcessing(false);
+
+    if (succeeded > 0) {
+      onCompleted(succeeded);
+    }
+    // 실패한 주문만 다시 시도할 수 있도록 입력란에 남김
+    if (failures.length > 0) {
+      const failedIds = new Set(failures.map(f => f.orderId));
+      setText(parsed.entries
+        .filter(entry => failedIds.has(entry.orderId))
+        .map(entry => [entry.orderId, entry.trackingNumber, entry.trackingCompany].filter(Boolean).join(','))
+        .join('\n'));
+    } else {
+      setText('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* 배경 오버레이 */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={isProcessing ? undefined : onClose}
+        ></div>
+
+        {/* 모달 컨테이너 */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          <div className="flex items-center justify-between px-6 py-4 border-b">
+            <div className="flex items-center gap-2">
+              <Hash className="w-5 h-5 text-blue-600" />
+              <h3 className="text-lg font-semibold text-gray-900">운송장 일괄 할당</h3>
+            </div>
+            <button
+              onClick={onClose}
+              disabled={isProcessing}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 disabled:opacity-50"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="px-6 py-4 space-y-4">
+            <p className="text-sm text-gray-600">
+              한 줄에 하나씩 <span className="font-mono">주문ID, 운송장번호, 택배회사</span> 형식으로 입력하세요.
+              엑셀에서 복사해 붙여넣거나 CSV 파일을 불러올 수 있으며, 택배회사는 생략할 수 있습니다.
+            </p>
+
+            <textarea
+              value={text}
+              onChange={(e) => { setText(e.target.value); setResult(null); }}
+              rows={8}
+              disabled={isProcessing}
+              placeholder={'1024,123456789012,CJ대한통운\n1025,123456789013'}
+              className="w-full px-3 py-2 font-mono text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isProcessing}
+                className="flex items-center justify-center gap-2 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4" />
+                CSV 불러오기
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              <input
+                type="text"
+                value={defaultCompany}
+                onChange={(e) => setDefaultCompany(e.target.value)}
+                disabled={isProcessing}
+                placeholder="기본 택배회사 (줄에 없을 때 사용)"
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+
+            {/* 파싱 결과 미리보기 */}
+            <div className="text-sm">
+              <span className="font-medium text-gray-900">{parsed.entries.length}건 할당 예정</span>
+              {parsed.errors.length > 0 && (
+                <span className="ml-2 text-red-600">{parsed.errors.length}개 줄 오류</span>
+              )}
+            </div>
+            {parsed.errors.length > 0 && (
+              <ul className="p-3 space-y-1 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg max-h-32 overflow-y-auto">
+                {parsed.errors.map(error => (
+                  <li key={error.line}>{error.line}행: {error.message}</li>
+                ))}
+              </ul>
+            )}
+
+            {result && (
+              <div className={`p-3 rounded-lg border text-sm ${
+                result.failures.length === 0 ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'
+              }`}>
+                <div className="flex items-center gap-2 font-medium">
+                  {result.failures.length === 0 ? (
+                    <CheckCircle className="w-4 h-4 text-green-500" />
+                  ) : (
+                    <AlertTriangle className="w-4 h-4 text-yellow-500" />
+                  )}
+                  {result.succeeded}건 할당 완료
+                  {result.failures.length > 0 && `, ${result.failures.length}건 실패 (실패한 줄만 입력란에 남겨두었습니다)`}
+                </div>
+                {result.failures.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-red-700 max-h-32 overflow-y-auto">
+                    {result.failures.map(failure => (
+                      <li key={failure.orderId}>주문 #{failure.orderId}: {failure.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 px-6 py-4 border-t bg-gray-50">
+            <button
+              onClick={onClose}
+              disabled={isProcessing}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              닫기
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isProcessing || parsed.entries.length === 0}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              {isProcessing ? `할당 중 ${progress.completed}/${progress.total}` : `${parsed.entries.length}건 할당`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkTrackingModal;
@@ -1,22 +1,40 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Package, TrendingUp, Clock, CheckCircle, AlertCircle, Eye, Search, Filter, RefreshCw, Pause, Play, Truck, Download, FileSpreadsheet, FileText } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Package, Clock, CheckCircle, Eye, Search, Filter, RefreshCw, Pause, Play, Truck, Download, FileSpreadsheet, FileText, ArrowUp, ArrowDown, ArrowUpDown, Calendar, Wifi, WifiOff } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
-import { api, shippingAPI } from '../../services/api';
-import type { ShippingOrder } from '../../types';
+import { usePermissions } from '../../hooks/usePermission';
+import { useOrderEvents } from '../../hooks/useOrderEvents';
+import { useRouter } from '../../hooks/useRouter';
+import { shippingAPI } from '../../services/api';
+import type { ShippingOrder, ShippingOrderSortField, Pagination, ShippingStatistics, StatisticsRange, OrderRealtimeEvent, OrderStatusChangeDetails } from '../../types';
+import { getRecentRange } from '../../utils/date';
+import { ORDER_STATUSES } from '../../utils/orderStatus';
+import { formatPackageSummary } from '../../utils/packages';
+import { buildPath } from '../../utils/routes';
+import { parseDashboardFilters, buildDashboardQuery } from './dashboardFilters';
 import OrderDetailModal from './OrderDetailModal';
+import PaginationControls from './PaginationControls';
+import StatisticsCharts from './StatisticsCharts';
+import BulkActionBar from './BulkActionBar';
+import OrderStatusBadge from './OrderStatusBadge';
+import BulkTrackingModal from './BulkTrackingModal';
+import LabelPrintDialog from '../labels/LabelPrintDialog';
 
-/**
- * 대시보드 통계 데이터 인터페이스
- */
-interface DashboardStats {
-  total: number;
-  접수완료: number;
-  배송준비: number;
-  배송중: number;
-  배송완료: number;
-  취소: number;
-  반송: number;
-}
+/** 검색어 입력 후 서버 조회까지 대기 시간 (ms) */
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: { value: ShippingOrderSortField; label: string }[] = [
+  { value: 'created_at', label: '접수일' },
+  { value: 'tracking_number', label: '운송장번호' },
+  { value: 'sender_name', label: '발송인' },
+  { value: 'receiver_name', label: '수취인' },
+  { value: 'status', label: '상태' }
+];
+
+/** 실시간 이벤트가 연달아 올 때 목록 재조회를 묶는 대기 시간 (ms) */
+const REALTIME_REFRESH_DEBOUNCE_MS = 500;
+
+/** 통계 기간 빠른 선택 (일수) */
+const STATISTICS_PRESETS = [7, 30, 90];
 
 /**
  * 대시보드 컴포넌트 props 인터페이스
@@ -28,7 +46,11 @@ interface DashboardProps {
     status: string;
     customerName?: string;
     trackingNumber?: string;
+    /** 일괄 변경 시 변경된 주문 수 */
+    orderCount?: number;
   }) => void;
+  /** 주문 복제 선택 시 호출 (새 배송접수 화면으로 이동) */
+  onDuplicateOrder?: (order: ShippingOrder) => void;
 }
 
 /**
@@ -38,31 +60,186 @@ interface DashboardProps {
  * @param props - 컴포넌트 props
  * @returns 대시보드 JSX 엘리먼트
  */
-const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
+const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange, onDuplicateOrder }) => {
   const { user } = useAuth();
+  const { route, search, navigate } = useRouter();
+  // 목록 조건은 URL 쿼리 문자열에서 시작 (새로고침·공유한 링크에서도 같은 목록)
+  const [initialFilters] = useState(() => parseDashboardFilters(search));
   const [orders, setOrders] = useState<ShippingOrder[]>([]);
-  const [stats, setStats] = useState<DashboardStats>({
-    total: 0,
-    접수완료: 0,
-    배송준비: 0,
-    배송중: 0,
-    배송완료: 0,
-    취소: 0,
-    반송: 0
-  });
+  const [statistics, setStatistics] = useState<ShippingStatistics | null>(null);
+  const [statisticsRange, setStatisticsRange] = useState<StatisticsRange>(() => getRecentRange(30));
+  const [isStatisticsLoading, setIsStatisticsLoading] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
+  const [searchTerm, setSearchTerm] = useState(initialFilters.search);
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState(initialFilters.search);
+  const [statusFilter, setStatusFilter] = useState(initialFilters.status);
+  const [sortBy, setSortBy] = useState<ShippingOrderSortField>(initialFilters.sortBy);
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(initialFilters.sortOrder);
+  const [page, setPage] = useState(initialFilters.page);
+  const [limit, setLimit] = useState(initialFilters.limit);
+  const [pagination, setPagination] = useState<Pagination>({ page: initialFilters.page, limit: initialFilters.limit, total: 0, totalPages: 1 });
   const [selectedOrder, setSelectedOrder] = useState<ShippingOrder | null>(null);
-  const [isModalOpen, setIsModalOpen] = useState(false);
   const [isAutoRefreshEnabled, setIsAutoRefreshEnabled] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   const [isRefreshing, setIsRefreshing] = useState(false);
-  const [startDate, setStartDate] = useState('');
-  const [endDate, setEndDate] = useState('');
+  const [startDate, setStartDate] = useState(initialFilters.startDate);
+  const [endDate, setEndDate] = useState(initialFilters.endDate);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [isBulkTrackingOpen, setIsBulkTrackingOpen] = useState(false);
+  const [isLabelDialogOpen, setIsLabelDialogOpen] = useState(false);
   const intervalRef = useRef<number | null>(null);
   const visibilityRef = useRef<boolean>(true);
+  const hasLoadedRef = useRef(false);
+  const realtimeRefreshTimerRef = useRef<number | null>(null);
+  const refreshAllRef = useRef<() => void>(() => {});
+
+  /**
+   * 현재 페이지, 검색어, 필터, 정렬 조건으로 서버에서 주문 목록을 가져와서
+   * 로컬 상태를 업데이트
+   * @param showRefreshIndicator - 새로고침 인디케이터 표시 여부
+   */
+  const fetchOrders = useCallback(async (showRefreshIndicator = false) => {
+    try {
+      if (showRefreshIndicator) {
+        setIsRefreshing(true);
+      } else {
+        setLoading(true);
+      }
+      
+      const response = await shippingAPI.getOrders(page, limit, {
+        search: debouncedSearchTerm.trim() || undefined,
+        status: statusFilter !== 'all' ? statusFilter : undefined,
+        startDate: startDate || undefined,
+        endDate: endDate || undefined,
+        sortBy,
+        sortOrder
+      });
+      const ordersData = response.orders || [];
+      const paginationData = response.pagination || {
+        page,
+        limit,
+        total: ordersData.length,
+        totalPages: 1
+      };
+      
+      setOrders(ordersData);
+      setPagination(paginationData);
+      setLastUpdated(new Date());
+    } catch (error) {
+      console.error('주문 목록을 가져오는 중 오류 발생:', error);
+    } finally {
+      setLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [page, limit, debouncedSearchTerm, statusFilter, startDate, endDate, sortBy, sortOrder]);
+
+  /**
+   * 선택한 통계 기간의 서버 집계 통계를 가져와서 통계 카드와 차트를 업데이트
+   */
+  const fetchStatistics = useCallback(async () => {
+    try {
+      setIsStatisticsLoading(true);
+      const data = await shippingAPI.getStatistics(statisticsRange);
+      setStatistics(data);
+    } catch (error) {
+      console.error('통계를 가져오는 중 오류 발생:', error);
+    } finally {
+      setIsStatisticsLoading(false);
+    }
+  }, [statisticsRange]);
+
+  /**
+   * 검색어 입력이 멈춘 뒤에만 서버 조회가 일어나도록 디바운스
+   */
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  /**
+   * 목록 조건이 바뀌면 URL 쿼리 문자열에 반영 (히스토리는 쌓지 않고 현재 항목 교체)
+   */
+  const filtersQuery = buildDashboardQuery({
+    search: debouncedSearchTerm.trim(),
+    status: statusFilter,
+    startDate,
+    endDate,
+    sortBy,
+    sortOrder,
+    page,
+    limit
+  });
+
+  useEffect(() => {
+    navigate(`${window.location.pathname}${filtersQuery}`, { replace: true });
+  }, [filtersQuery, navigate]);
+
+  /**
+   * 주문 상세 주소(/orders/:id)로 들어오면 주문을 조회해서 상세 모달 표시
+   * 없는 주문이거나 권한이 없으면 목록으로 돌아감
+   */
+  const routeOrderId = route.name === 'order' ? route.orderId : null;
+
+  useEffect(() => {
+    if (routeOrderId === null) {
+      setSelectedOrder(null);
+      return;
+    }
+
+    let cancelled = false;
+    shippingAPI.getOrder(routeOrderId)
+      .then(response => {
+        if (!cancelled) setSelectedOrder(response.order);
+      })
+      .catch(error => {
+        console.error('주문 조회 실패:', error);
+        if (!cancelled) {
+          alert('주문 정보를 불러오지 못했습니다.');
+          navigate(`${buildPath({ name: 'dashboard' })}${window.location.search}`, { replace: true });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [routeOrderId, navigate]);
+
+  useEffect(() => {
+    refreshAllRef.current = () => {
+      fetchOrders(true);
+      fetchStatistics();
+    };
+  }, [fetchOrders, fetchStatistics]);
+
+  /**
+   * 실시간 주문 이벤트 처리
+   * 화면에 있는 주문은 즉시 갱신하고, 목록 구성과 통계는 잠시 후 서버 기준으로 다시 조회
+   */
+  const handleOrderEvent = useCallback((event: OrderRealtimeEvent) => {
+    setOrders(prev => prev.map(o => (o.id === event.order.id ? { ...o, ...event.order } : o)));
+    setSelectedOrder(prev => (prev && prev.id === event.order.id ? { ...prev, ...event.order } : prev));
+
+    if (realtimeRefreshTimerRef.current !== null) {
+      clearTimeout(realtimeRefreshTimerRef.current);
+    }
+    realtimeRefreshTimerRef.current = window.setTimeout(() => {
+      realtimeRefreshTimerRef.current = null;
+      refreshAllRef.current();
+    }, REALTIME_REFRESH_DEBOUNCE_MS);
+  }, []);
+
+  const connectionState = useOrderEvents(handleOrderEvent, isAutoRefreshEnabled);
+  const isRealtimeConnected = connectionState === 'connected';
+
+  useEffect(() => {
+    return () => {
+      if (realtimeRefreshTimerRef.current !== null) {
+        clearTimeout(realtimeRefreshTimerRef.current);
+      }
+    };
+  }, []);
 
   /**
    * 페이지 가시성 변화를 감지하여 비활성 상태에서 자동 새로고침을 중지하고,
@@ -75,23 +252,25 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
       // 페이지가 보이게 되면 즉시 새로고침
       if (!document.hidden && isAutoRefreshEnabled) {
         fetchOrders(true);
+        fetchStatistics();
       }
     };
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [isAutoRefreshEnabled]);
+  }, [isAutoRefreshEnabled, fetchOrders, fetchStatistics]);
 
   /**
-   * 자동 새로고침 기능 설정 - 10초마다 데이터 업데이트
+   * 자동 새로고침 기능 설정 - 실시간 연결이 없을 때만 10초마다 데이터 업데이트 (폴링 대체)
    * 페이지가 보이는 상태에서만 실행
    */
   useEffect(() => {
-    if (isAutoRefreshEnabled) {
+    if (isAutoRefreshEnabled && !isRealtimeConnected) {
       intervalRef.current = setInterval(() => {
         // 페이지가 보일 때만 새로고침
         if (visibilityRef.current) {
           fetchOrders(true); // 새로고침 인디케이터 표시
+          fetchStatistics();
         }
       }, 10000); // 10초마다
     } else {
@@ -106,101 +285,93 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
         clearInterval(intervalRef.current);
       }
     };
-  }, [isAutoRefreshEnabled]);
+  }, [isAutoRefreshEnabled, isRealtimeConnected, fetchOrders, fetchStatistics]);
 
   /**
-   * 컴포넌트 마운트 시 초기 데이터 로드
+   * 마운트 시 및 페이지/검색/필터/정렬 조건 변경 시 데이터 로드
+   * 최초 로드만 전체 로딩 화면을 표시하고 이후에는 새로고침 인디케이터 사용
    */
   useEffect(() => {
-    fetchOrders();
-  }, []);
+    fetchOrders(hasLoadedRef.current);
+    hasLoadedRef.current = true;
+  }, [fetchOrders]);
 
   /**
-   * 서버에서 주문 데이터를 가져와서 로컬 상태와 통계를 업데이트
-   * @param showRefreshIndicator - 새로고침 인디케이터 표시 여부
+   * 마운트 시 및 통계 기간 변경 시 통계 로드
    */
-  const fetchOrders = async (showRefreshIndicator = false) => {
-    try {
-      if (showRefreshIndicator) {
-        setIsRefreshing(true);
-      } else {
-        setLoading(true);
-      }
-      
-      const response = await api.get('/shipping/orders');
-      const ordersData = response.data.orders || [];
-      
-      setOrders(ordersData);
-      setLastUpdated(new Date());
-      
-      // 통계 계산
-      const newStats = {
-        total: ordersData.length,
-        접수완료: ordersData.filter((o: ShippingOrder) => o.status === '접수완료').length,
-        배송준비: ordersData.filter((o: ShippingOrder) => o.status === '배송준비').length,
-        배송중: ordersData.filter((o: ShippingOrder) => o.status === '배송중').length,
-        배송완료: ordersData.filter((o: ShippingOrder) => o.status === '배송완료').length,
-        취소: ordersData.filter((o: ShippingOrder) => o.status === '취소').length,
-        반송: ordersData.filter((o: ShippingOrder) => o.status === '반송').length
-      };
-      setStats(newStats);
-    } catch (error: any) {
-      console.error('주문 목록을 가져오는 중 오류 발생:', error);
-    } finally {
-      setLoading(false);
-      setIsRefreshing(false);
-    }
-  };
+  useEffect(() => {
+    fetchStatistics();
+  }, [fetchStatistics]);
+
+  const hasActiveFilters = !!(searchTerm || statusFilter !== 'all' || startDate || endDate);
 
   /**
-   * 주문 상태에 따른 배지 스타일과 아이콘을 반환
-   * @param status - 주문 상태 (접수완료, 배솨준비, 배송중, 배송완료, 취소, 반송)
-   * @returns JSX 요소
+   * 정렬 컬럼 변경 - 같은 컬럼을 다시 누르면 정렬 방향 전환
+   * @param field - 정렬 기준 컬럼
    */
-  const getStatusBadge = (status: string) => {
-    const statusConfig = {
-      '접수완료': { color: 'bg-yellow-100 text-yellow-800', text: '접수완료', icon: Clock },
-      '배송준비': { color: 'bg-blue-100 text-blue-800', text: '배송준비', icon: TrendingUp },
-      '배송중': { color: 'bg-orange-100 text-orange-800', text: '배송중', icon: Truck },
-      '배송완료': { color: 'bg-green-100 text-green-800', text: '배송완료', icon: CheckCircle },
-      '취소': { color: 'bg-red-100 text-red-800', text: '취소', icon: AlertCircle },
-      '반송': { color: 'bg-red-100 text-red-800', text: '반송', icon: AlertCircle }
-    };
-    
-    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig['접수완료'];
-    const Icon = config.icon;
-    
+  const handleSortChange = (field: ShippingOrderSortField) => {
+    if (field === sortBy) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortBy(field);
+      setSortOrder(field === 'created_at' ? 'desc' : 'asc');
+    }
+    setPage(1);
+  };
+
+  const handleLimitChange = (newLimit: number) => {
+    setLimit(newLimit);
+    setPage(1);
+  };
+
+  const renderSortableHeader = (field: ShippingOrderSortField, label: string) => {
+    const SortIcon = sortBy !== field ? ArrowUpDown : sortOrder === 'asc' ? ArrowUp : ArrowDown;
     return (
-      <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${config.color}`}>
-        <Icon className="w-3 h-3" />
-        {config.text}
-      </span>
+      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+        <button
+          onClick={() => handleSortChange(field)}
+          className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-900 ${sortBy === field ? 'text-gray-900' : ''}`}
+        >
+          {label}
+          <SortIcon className="w-3 h-3" />
+        </button>
+      </th>
     );
   };
 
-  const filteredOrders = orders.filter(order => {
-    const matchesSearch = 
-      order.tracking_number?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.receiver_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.sender_name?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
-
+  // 목록에서 연 주문은 받아 둔 내용을 먼저 보여주고, 주소(/orders/:id)가 바뀌면 최신 내용을 다시 조회
   const handleOrderClick = (order: ShippingOrder) => {
     setSelectedOrder(order);
-    setIsModalOpen(true);
+    handleOpenOrderById(order.id);
+  };
+
+  // 상세 모달에서 연결된 주문(반품 원 주문/회수 주문)으로 이동할 때도 사용
+  const handleOpenOrderById = (orderId: number) => {
+    navigate(`${buildPath({ name: 'order', orderId })}${filtersQuery}`);
   };
 
   const handleCloseModal = () => {
-    setIsModalOpen(false);
-    setSelectedOrder(null);
+    navigate(`${buildPath({ name: 'dashboard' })}${filtersQuery}`);
+  };
+
+  // 선택은 현재 페이지에 보이는 주문 기준으로만 유효
+  const can = usePermissions();
+  // 주문 선택(체크박스)과 일괄 처리 바 표시 여부
+  const canSelectOrders = can('orders.bulk_update');
+  const selectedOrders = orders.filter(order => selectedIds.includes(order.id));
+  const isAllSelected = orders.length > 0 && selectedOrders.length === orders.length;
+
+  const toggleOrderSelection = (orderId: number) => {
+    setSelectedIds(prev => (prev.includes(orderId) ? prev.filter(id => id !== orderId) : [...prev, orderId]));
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(isAllSelected ? [] : orders.map(order => order.id));
   };
 
   const handleManualRefresh = () => {
     fetchOrders(true);
+    fetchStatistics();
   };
 
   const toggleAutoRefresh = () => {
@@ -215,12 +386,13 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
     });
   };
 
-  const handleStatusUpdate = async (orderId: number, newStatus: string) => {
+  const handleStatusUpdate = async (orderId: number, newStatus: string, details?: OrderStatusChangeDetails) => {
     try {
-      await shippingAPI.updateOrderStatus(orderId, newStatus);
+      await shippingAPI.updateOrderStatus(orderId, newStatus, details);
       
-      // 주문 목록 새로고침
+      // 주문 목록 및 통계 새로고침
       await fetchOrders(true);
+      fetchStatistics();
       
       // 선택된 주문 업데이트
       if (selectedOrder && selectedOrder.id === orderId) {
@@ -237,11 +409,51 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
         });
       }
       
-    } catch (error: any) {
+    } catch (error) {
       console.error('상태 업데이트 실패:', error);
+      // 상세 모달에서 실패 사유를 표시
+      throw error;
+    }
+  };
+
+  /**
+   * 상태 일괄 변경 완료 처리
+   * 목록과 통계를 새로고침하고, 알림은 주문별이 아닌 한 번만 발송
+   * @param newStatus - 변경된 상태
+   * @param updatedOrders - 변경에 성공한 주문 목록
+   */
+  const handleBulkStatusComplete = (newStatus: string, updatedOrders: ShippingOrder[]) => {
+    if (updatedOrders.length === 0) return;
+
+    const updatedIds = updatedOrders.map(order => order.id);
+    setSelectedIds(prev => prev.filter(id => !updatedIds.includes(id)));
+    fetchOrders(true);
+    fetchStatistics();
+
+    if (onOrderStatusChange) {
+      onOrderStatusChange({
+        orderId: updatedOrders[0].id,
+        status: newStatus,
+        customerName: updatedOrders[0].receiver_name,
+        trackingNumber: updatedOrders[0].tracking_number,
+        orderCount: updatedOrders.length
+      });
     }
   };
 
+  const handleBulkDriverComplete = (updatedOrders: ShippingOrder[]) => {
+    if (updatedOrders.length === 0) return;
+
+    const updatedIds = updatedOrders.map(order => order.id);
+    setSelectedIds(prev => prev.filter(id => !updatedIds.includes(id)));
+    fetchOrders(true);
+  };
+
+  const handleBulkTrackingComplete = () => {
+    fetchOrders(true);
+    fetchStatistics();
+  };
+
   /**
    * 데이터를 지정된 형식으로 내보내기
    * @param format - 내보내기 형식 (xlsx 또는 csv)
@@ -289,6 +501,16 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
     }
   };
 
+  const summary = statistics?.summary || {
+    total: 0,
+    접수완료: 0,
+    배송준비: 0,
+    배송중: 0,
+    배송완료: 0,
+    취소: 0,
+    반송: 0
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-100 flex items-center justify-center">
@@ -310,13 +532,48 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
         </p>
       </div>
 
+      {/* 통계 기간 선택 */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <Calendar className="w-5 h-5 text-gray-400" />
+          <span>통계 기간</span>
+          {isStatisticsLoading && <RefreshCw className="w-4 h-4 animate-spin text-blue-500" />}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {STATISTICS_PRESETS.map(days => (
+            <button
+              key={days}
+              onClick={() => setStatisticsRange(getRecentRange(days))}
+              className="px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors touch-manipulation"
+            >
+              최근 {days}일
+            </button>
+          ))}
+          <input
+            type="date"
+            value={statisticsRange.startDate}
+            max={statisticsRange.endDate}
+            onChange={(e) => e.target.value && setStatisticsRange({ ...statisticsRange, startDate: e.target.value })}
+            className="px-3 py-1.5 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span className="text-gray-400">~</span>
+          <input
+            type="date"
+            value={statisticsRange.endDate}
+            min={statisticsRange.startDate}
+            onChange={(e) => e.target.value && setStatisticsRange({ ...statisticsRange, endDate: e.target.value })}
+            className="px-3 py-1.5 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
       {/* 통계 카드 */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600">전체 주문</p>
-              <p className="text-3xl font-bold text-gray-900">{stats.total}</p>
+              <p className="text-3xl font-bold text-gray-900">{summary.total}</p>
             </div>
             <Package className="w-12 h-12 text-blue-500" />
           </div>
@@ -326,7 +583,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600">접수완료</p>
-              <p className="text-3xl font-bold text-yellow-600">{stats.접수완료}</p>
+              <p className="text-3xl font-bold text-yellow-600">{summary.접수완료}</p>
             </div>
             <Clock className="w-12 h-12 text-yellow-500" />
           </div>
@@ -336,7 +593,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600">배송중</p>
-              <p className="text-3xl font-bold text-blue-600">{stats.배송중}</p>
+              <p className="text-3xl font-bold text-blue-600">{summary.배송중}</p>
             </div>
             <Truck className="w-12 h-12 text-blue-500" />
           </div>
@@ -346,13 +603,16 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm text-gray-600">배송완료</p>
-              <p className="text-3xl font-bold text-green-600">{stats.배송완료}</p>
+              <p className="text-3xl font-bold text-green-600">{summary.배송완료}</p>
             </div>
             <CheckCircle className="w-12 h-12 text-green-500" />
           </div>
         </div>
       </div>
 
+      {/* 접수량 추이 및 상태 퍼널 */}
+      <StatisticsCharts statistics={statistics} loading={isStatisticsLoading} />
+
       {/* 주문 목록 */}
       <div className="bg-white rounded-lg shadow">
         <div className="p-6 border-b">
@@ -366,6 +626,21 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
                   <RefreshCw className="w-4 h-4 animate-spin text-blue-500" />
                 )}
                 <span>마지막 업데이트: {formatLastUpdated(lastUpdated)}</span>
+                {isAutoRefreshEnabled && (
+                  isRealtimeConnected ? (
+                    <span className="inline-flex items-center gap-1 text-green-600" title="실시간 업데이트 연결됨">
+                      <Wifi className="w-4 h-4" />
+                      <span className="hidden sm:inline">실시간</span>
+                    </span>
+                  ) : (
+                    <span className="inline-flex items-center gap-1 text-gray-400" title="실시간 연결 없음 - 10초마다 새로고침">
+                      <WifiOff className="w-4 h-4" />
+                      <span className="hidden sm:inline">
+                        {connectionState === 'polling' ? '폴링' : '연결 중'}
+                      </span>
+                    </span>
+                  )
+                )}
               </div>
             </div>
             
@@ -407,14 +682,16 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
                   </button>
                   
                   {/* 데이터 내보내기 버튼 */}
-                  <button
-                    onClick={() => setShowExportModal(true)}
-                    className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors touch-manipulation"
-                    title="데이터 내보내기"
-                  >
-                    <Download className="w-4 h-4" />
-                    <span className="hidden xs:inline">내보내기</span>
-                  </button>
+                  {can('exports.run') && (
+                    <button
+                      onClick={() => setShowExportModal(true)}
+                      className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors touch-manipulation"
+                      title="데이터 내보내기"
+                    >
+                      <Download className="w-4 h-4" />
+                      <span className="hidden xs:inline">내보내기</span>
+                    </button>
+                  )}
                 </div>
               </div>
               
@@ -428,7 +705,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
                     placeholder="운송장번호, 수취인, 발송인 검색..."
                     className="w-full pl-10 pr-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
                     value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
+                    onChange={(e) => {
+                      setSearchTerm(e.target.value);
+                      setPage(1);
+                    }}
                   />
                 </div>
 
@@ -438,60 +718,133 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
                   <select
                     className="w-full pl-10 pr-8 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent appearance-none bg-white text-base"
                     value={statusFilter}
-                    onChange={(e) => setStatusFilter(e.target.value)}
+                    onChange={(e) => {
+                      setStatusFilter(e.target.value);
+                      setPage(1);
+                    }}
                   >
                     <option value="all">모든 상태</option>
-                    <option value="접수완료">접수완료</option>
-                    <option value="배송준비">배송준비</option>
-                    <option value="배송중">배송중</option>
-                    <option value="배송완료">배송완료</option>
-                    <option value="취소">취소</option>
-                    <option value="반송">반송</option>
+                    {ORDER_STATUSES.map(({ status }) => (
+                      <option key={status} value={status}>{status}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* 접수일 범위 및 정렬 */}
+              <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+                <div className="flex items-center gap-2">
+                  <Calendar className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                  <input
+                    type="date"
+                    value={startDate}
+                    max={endDate || undefined}
+                    onChange={(e) => {
+                      setStartDate(e.target.value);
+                      setPage(1);
+                    }}
+                    className="flex-1 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    title="접수일 시작"
+                  />
+                  <span className="text-gray-400">~</span>
+                  <input
+                    type="date"
+                    value={endDate}
+                    min={startDate || undefined}
+                    onChange={(e) => {
+                      setEndDate(e.target.value);
+                      setPage(1);
+                    }}
+                    className="flex-1 px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    title="접수일 종료"
+                  />
+                </div>
+
+                {/* 모바일/태블릿: 정렬 선택 (데스크톱은 테이블 헤더 클릭) */}
+                <div className="flex items-center gap-2 lg:hidden">
+                  <select
+                    className="flex-1 px-3 py-2 border rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                    value={sortBy}
+                    onChange={(e) => handleSortChange(e.target.value as ShippingOrderSortField)}
+                  >
+                    {SORT_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}순</option>
+                    ))}
                   </select>
+                  <button
+                    onClick={() => handleSortChange(sortBy)}
+                    className="p-2 border rounded-lg bg-white hover:bg-gray-50 touch-manipulation"
+                    title={sortOrder === 'asc' ? '오름차순' : '내림차순'}
+                  >
+                    {sortOrder === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+                  </button>
                 </div>
               </div>
             </div>
           </div>
         </div>
 
+        {/* 일괄 처리 */}
+        {canSelectOrders && (
+          <BulkActionBar
+            selectedOrders={selectedOrders}
+            onClearSelection={() => setSelectedIds([])}
+            onOpenTrackingAssign={() => setIsBulkTrackingOpen(true)}
+            onPrintLabels={() => setIsLabelDialogOpen(true)}
+            onStatusBatchComplete={handleBulkStatusComplete}
+            onDriverBatchComplete={handleBulkDriverComplete}
+          />
+        )}
+
         {/* 데스크톱: 테이블 뷰 */}
         <div className="hidden lg:block overflow-x-auto">
           <table className="w-full">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  운송장번호
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  발송인
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  수취인
-                </th>
+                {canSelectOrders && (
+                  <th className="pl-6 py-3 w-10">
+                    <input
+                      type="checkbox"
+                      checked={isAllSelected}
+                      onChange={toggleSelectAll}
+                      className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      title="현재 페이지 전체 선택"
+                    />
+                  </th>
+                )}
+                {renderSortableHeader('tracking_number', '운송장번호')}
+                {renderSortableHeader('sender_name', '발송인')}
+                {renderSortableHeader('receiver_name', '수취인')}
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   상품명
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  상태
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  접수일
-                </th>
+                {renderSortableHeader('status', '상태')}
+                {renderSortableHeader('created_at', '접수일')}
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   액션
                 </th>
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredOrders.length === 0 ? (
+              {orders.length === 0 ? (
                 <tr>
-                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
-                    {searchTerm || statusFilter !== 'all' ? '검색 결과가 없습니다.' : '배송 주문이 없습니다.'}
+                  <td colSpan={canSelectOrders ? 8 : 7} className="px-6 py-8 text-center text-gray-500">
+                    {hasActiveFilters ? '검색 결과가 없습니다.' : '배송 주문이 없습니다.'}
                   </td>
                 </tr>
               ) : (
-                filteredOrders.map((order) => (
-                  <tr key={order.id} className="hover:bg-gray-50">
+                orders.map((order) => (
+                  <tr key={order.id} className={selectedIds.includes(order.id) ? 'bg-blue-50' : 'hover:bg-gray-50'}>
+                    {canSelectOrders && (
+                      <td className="pl-6 py-4 w-10">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(order.id)}
+                          onChange={() => toggleOrderSelection(order.id)}
+                          className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                      </td>
+                    )}
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                       {order.tracking_number || '-'}
                     </td>
@@ -502,10 +855,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
                       {order.receiver_name}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {order.package_description || order.package_type || '-'}
+                      {formatPackageSummary(order) || '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      {getStatusBadge(order.status)}
+                      <OrderStatusBadge status={order.status} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {new Date(order.created_at).toLocaleDateString('ko-KR')}
@@ -528,23 +881,31 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
 
         {/* 모바일/태블릿: 카드 뷰 */}
         <div className="lg:hidden space-y-4">
-          {filteredOrders.length === 0 ? (
+          {orders.length === 0 ? (
             <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
-              {searchTerm || statusFilter !== 'all' ? '검색 결과가 없습니다.' : '배송 주문이 없습니다.'}
+              {hasActiveFilters ? '검색 결과가 없습니다.' : '배송 주문이 없습니다.'}
             </div>
           ) : (
-            filteredOrders.map((order) => (
+            orders.map((order) => (
               <div key={order.id} className="bg-white rounded-lg shadow hover:shadow-md transition-shadow">
                 <div className="p-4">
                   {/* 카드 헤더 */}
                   <div className="flex items-center justify-between mb-3">
                     <div className="flex items-center gap-2">
+                      {canSelectOrders && (
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.includes(order.id)}
+                          onChange={() => toggleOrderSelection(order.id)}
+                          className="w-5 h-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500 touch-manipulation"
+                        />
+                      )}
                       <Truck className="w-5 h-5 text-blue-500" />
                       <span className="font-medium text-gray-900">
                         {order.tracking_number || `주문 #${order.id}`}
                       </span>
                     </div>
-                    {getStatusBadge(order.status)}
+                    <OrderStatusBadge status={order.status} />
                   </div>
                   
                   {/* 카드 내용 */}
@@ -557,11 +918,11 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
                       <span className="text-sm text-gray-500">수취인</span>
                       <span className="text-sm font-medium text-gray-900">{order.receiver_name}</span>
                     </div>
-                    {(order.package_description || order.package_type) && (
+                    {formatPackageSummary(order) && (
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-gray-500">상품</span>
                         <span className="text-sm font-medium text-gray-900 text-right">
-                          {order.package_description || order.package_type}
+                          {formatPackageSummary(order)}
                         </span>
                       </div>
                     )}
@@ -588,6 +949,14 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
             ))
           )}
         </div>
+
+        {/* 페이지 이동 */}
+        <PaginationControls
+          pagination={pagination}
+          onPageChange={setPage}
+          onLimitChange={handleLimitChange}
+          disabled={isRefreshing}
+        />
       </div>
 
       {/* 데이터 내보내기 모달 */}
@@ -639,8 +1008,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
                   </button>
                 </div>
                 
-                {/* 매니저/관리자만 통계 리포트 내보내기 가능 */}
-                {(user?.role === 'admin' || user?.role === 'manager') && (
+                {/* 통계 리포트 내보내기는 권한이 있는 사용자만 */}
+                {can('exports.statistics') && (
                   <>
                     <h4 className="text-sm font-medium text-gray-700 mt-4">통계 리포트 내보내기</h4>
                     <div className="grid grid-cols-2 gap-3">
@@ -680,14 +1049,40 @@ const Dashboard: React.FC<DashboardProps> = ({ onOrderStatusChange }) => {
       {/* 주문 상세 모달 */}
       <OrderDetailModal
         order={selectedOrder}
-        isOpen={isModalOpen}
+        isOpen={routeOrderId !== null}
         onClose={handleCloseModal}
-        onStatusUpdate={(user?.role === 'admin' || user?.role === 'manager') ? handleStatusUpdate : undefined}
-        onTrackingAssigned={() => {
-          // 운송장 할당 후 데이터 새로고침
+        onStatusUpdate={can('orders.update_status') ? handleStatusUpdate : undefined}
+        onTrackingAssigned={(tracking) => {
+          // 열려 있는 상세 정보에 바로 반영하고 (라벨 인쇄 가능) 목록 새로고침
+          setSelectedOrder(prev => (prev ? { ...prev, ...tracking } : prev));
+          fetchOrders(true);
+        }}
+        onDuplicate={onDuplicateOrder}
+        onOrderUpdated={(order) => {
+          setSelectedOrder(order);
           fetchOrders(true);
+          fetchStatistics();
         }}
+        onOrderChanged={() => {
+          fetchOrders(true);
+          fetchStatistics();
+        }}
+        onOpenOrder={handleOpenOrderById}
       />
+
+      {/* 운송장 일괄 할당 모달 */}
+      {can('tracking.assign') && isBulkTrackingOpen && (
+        <BulkTrackingModal
+          onClose={() => setIsBulkTrackingOpen(false)}
+          initialOrderIds={selectedOrders.map(order => order.id)}
+          onCompleted={handleBulkTrackingComplete}
+        />
+      )}
+
+      {/* 선택 주문 라벨 인쇄 */}
+      {isLabelDialogOpen && (
+        <LabelPrintDialog orders={selectedOrders} onClose={() => setIsLabelDialogOpen(false)} />
+      )}
     </div>
   );
 };
@@ -1,19 +1,42 @@
 import React, { useState } from 'react';
-import { X, Package, User, MapPin, Truck, Clock, CheckCircle, AlertCircle, TrendingUp, Edit, Hash } from 'lucide-react';
-import type { ShippingOrder } from '../../types';
-import { shippingAPI } from '../../services/api';
+import { X, Package, User, MapPin, Truck, CheckCircle, AlertCircle, Edit, Hash, Printer, Copy, Ban } from 'lucide-react';
+import type { OrderStatusChangeDetails, ProofOfDelivery, ShippingOrder } from '../../types';
+import { shippingAPI, getErrorMessage } from '../../services/api';
 import { useAuth } from '../../hooks/useAuth';
+import { usePermission } from '../../hooks/usePermission';
+import LabelPrintDialog from '../labels/LabelPrintDialog';
+import ProofOfDeliveryModal from '../delivery/ProofOfDeliveryModal';
+import ProofOfDeliveryView from '../delivery/ProofOfDeliveryView';
+import { isSignatureMissing } from '../../utils/proofOfDelivery';
+import { getAllowedTransitions, getOrderStatusInfo, isOrderEditable, requiresInput, validateTransition } from '../../utils/orderStatus';
+import OrderStatusBadge from './OrderStatusBadge';
+import OrderHistoryTimeline from './OrderHistoryTimeline';
+import OrderEditForm from '../shipping/OrderEditForm';
+import ReturnRequestPanel from '../returns/ReturnRequestPanel';
+import { getOrderPackages } from '../../utils/packages';
+import { getTrackingPath } from '../../utils/routes';
 
 interface OrderDetailModalProps {
   order: ShippingOrder | null;
   isOpen: boolean;
   onClose: () => void;
-  onStatusUpdate?: (orderId: number, newStatus: string) => Promise<void>;
-  onTrackingAssigned?: () => void;
+  onStatusUpdate?: (orderId: number, newStatus: string, details?: OrderStatusChangeDetails) => Promise<void>;
+  /** 운송장 할당 성공 시 할당된 운송장 정보와 함께 호출 */
+  onTrackingAssigned?: (tracking: { tracking_number: string; tracking_company?: string }) => void;
+  /** 이 주문 내용으로 새 배송접수 시작 */
+  onDuplicate?: (order: ShippingOrder) => void;
+  /** 주문 수정/취소 성공 시 서버가 돌려준 최신 주문과 함께 호출 */
+  onOrderUpdated?: (order: ShippingOrder) => void;
+  /** 반품 요청/처리 등으로 주문 목록을 새로고침해야 할 때 호출 */
+  onOrderChanged?: () => void;
+  /** 연결된 다른 주문(원 주문/회수 주문) 열기 */
+  onOpenOrder?: (orderId: number) => void;
 }
 
-const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onClose, onStatusUpdate, onTrackingAssigned }) => {
+const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onClose, onStatusUpdate, onTrackingAssigned, onDuplicate, onOrderUpdated, onOrderChanged, onOpenOrder }) => {
   const { user } = useAuth();
+  const canAssignTracking = usePermission('tracking.assign');
+  const canUpdateStatus = usePermission('orders.update_status');
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
   const [showStatusDropdown, setShowStatusDropdown] = useState(false);
   const [showTrackingForm, setShowTrackingForm] = useState(false);
@@ -22,29 +45,30 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onCl
     tracking_company: '',
     estimated_delivery: ''
   });
+  const [showLabelDialog, setShowLabelDialog] = useState(false);
+  const [showProofModal, setShowProofModal] = useState(false);
+  // 사유 입력이 필요한 상태(취소/반송)를 선택했을 때의 입력값
+  const [pendingStatus, setPendingStatus] = useState<string | null>(null);
+  const [statusReason, setStatusReason] = useState('');
+  const [statusError, setStatusError] = useState('');
+  // 수정/취소 중인 주문 (다른 주문을 열면 자동으로 해제되도록 주문 ID로 보관)
+  const [editingOrderId, setEditingOrderId] = useState<number | null>(null);
+  const [cancelOrderId, setCancelOrderId] = useState<number | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [cancelError, setCancelError] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+  // 목록이 새로고침되기 전에도 방금 업로드한 증빙을 표시
+  const [uploadedProof, setUploadedProof] = useState<{ orderId: number; proof: ProofOfDelivery } | null>(null);
   
   if (!isOpen || !order) return null;
 
-  const getStatusBadge = (status: string) => {
-    const statusConfig = {
-      '접수완료': { color: 'bg-yellow-100 text-yellow-800', text: '접수완료', icon: Clock },
-      '배송준비': { color: 'bg-blue-100 text-blue-800', text: '배송준비', icon: TrendingUp },
-      '배송중': { color: 'bg-orange-100 text-orange-800', text: '배송중', icon: Truck },
-      '배송완료': { color: 'bg-green-100 text-green-800', text: '배송완료', icon: CheckCircle },
-      '취소': { color: 'bg-red-100 text-red-800', text: '취소', icon: AlertCircle },
-      '반송': { color: 'bg-red-100 text-red-800', text: '반송', icon: AlertCircle }
-    };
-    
-    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig['접수완료'];
-    const Icon = config.icon;
-    
-    return (
-      <span className={`inline-flex items-center gap-2 px-3 py-2 rounded-full text-sm font-medium ${config.color}`}>
-        <Icon className="w-4 h-4" />
-        {config.text}
-      </span>
-    );
-  };
+  const isEditing = editingOrderId === order.id;
+  const isCancelFormOpen = cancelOrderId === order.id;
+  // 출고 전 주문은 주문자 본인과 상태 변경 권한이 있는 직원이 수정/취소 가능
+  const canModifyOrder = isOrderEditable(order.status) && (order.user_id === user?.id || canUpdateStatus);
+  const packages = getOrderPackages(order);
+
+  const proofOfDelivery = order.proof_of_delivery ?? (uploadedProof?.orderId === order.id ? uploadedProof.proof : null);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('ko-KR', {
@@ -56,29 +80,82 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onCl
     });
   };
 
-  const statusOptions = [
-    { value: '접수완료', label: '접수완료', color: 'bg-yellow-500' },
-    { value: '배송준비', label: '배송준비', color: 'bg-blue-500' },
-    { value: '배송중', label: '배송중', color: 'bg-orange-500' },
-    { value: '배송완료', label: '배송완료', color: 'bg-green-500' },
-    { value: '취소', label: '취소', color: 'bg-red-500' },
-    { value: '반송', label: '반송', color: 'bg-red-500' }
-  ];
+  const allowedStatuses = getAllowedTransitions(order.status);
 
-  const handleStatusChange = async (newStatus: string) => {
+  const toggleStatusDropdown = () => {
+    setShowStatusDropdown(!showStatusDropdown);
+    setPendingStatus(null);
+    setStatusError('');
+  };
+
+  const handleStatusChange = async (newStatus: string, details: OrderStatusChangeDetails = {}) => {
     if (!onStatusUpdate) return;
+
+    // 배송완료는 증빙(인수자/서명/사진)을 먼저 받은 뒤 처리
+    if (newStatus === '배송완료' && (!proofOfDelivery || isSignatureMissing({ ...order, proof_of_delivery: proofOfDelivery }))) {
+      setShowStatusDropdown(false);
+      setShowProofModal(true);
+      return;
+    }
+
+    // 취소/반송은 사유를 먼저 입력받음
+    if (requiresInput(newStatus, 'reason') && pendingStatus !== newStatus) {
+      setPendingStatus(newStatus);
+      setStatusReason('');
+      setStatusError('');
+      return;
+    }
+
+    const validationError = validateTransition({ ...order, proof_of_delivery: proofOfDelivery }, newStatus, details);
+    if (validationError) {
+      setStatusError(validationError);
+      return;
+    }
     
     setIsUpdatingStatus(true);
     try {
-      await onStatusUpdate(order.id, newStatus);
+      await onStatusUpdate(order.id, newStatus, details);
       setShowStatusDropdown(false);
+      setPendingStatus(null);
     } catch (error) {
-      console.error('상태 변경 실패:', error);
+      setStatusError(getErrorMessage(error, '상태 변경에 실패했습니다.'));
     } finally {
       setIsUpdatingStatus(false);
     }
   };
 
+  const handleOrderSaved = (updatedOrder: ShippingOrder) => {
+    setEditingOrderId(null);
+    onOrderUpdated?.(updatedOrder);
+  };
+
+  const openCancelForm = () => {
+    setCancelOrderId(order.id);
+    setCancelReason('');
+    setCancelError('');
+  };
+
+  const handleCancelOrder = async () => {
+    if (!cancelReason.trim()) return;
+    try {
+      setIsCancelling(true);
+      setCancelError('');
+      const response = await shippingAPI.cancelOrder(order.id, cancelReason.trim());
+      setCancelOrderId(null);
+      onOrderUpdated?.(response.order);
+    } catch (error) {
+      setCancelError(getErrorMessage(error, '주문 취소에 실패했습니다.'));
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleProofCompleted = async (proof: ProofOfDelivery) => {
+    setUploadedProof({ orderId: order.id, proof });
+    await onStatusUpdate?.(order.id, '배송완료');
+    setShowProofModal(false);
+  };
+
   const handleTrackingAssign = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -87,10 +164,14 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onCl
       return;
     }
 
+    const tracking = {
+      tracking_number: trackingFormData.tracking_number.trim(),
+      tracking_company: trackingFormData.tracking_company.trim() || undefined
+    };
+
     try {
       await shippingAPI.assignTrackingNumber(order.id, {
-        tracking_number: trackingFormData.tracking_number.trim(),
-        tracking_company: trackingFormData.tracking_company.trim() || undefined,
+        ...tracking,
         estimated_delivery: trackingFormData.estimated_delivery || undefined
       });
       
@@ -102,7 +183,7 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onCl
       });
       
       if (onTrackingAssigned) {
-        onTrackingAssigned();
+        onTrackingAssigned(tracking);
       }
       
       alert('운송장 번호가 성공적으로 할당되었습니다.');
@@ -137,8 +218,8 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onCl
               </div>
               
               <div className="flex items-center gap-3">
-                {/* 관리자/매니저만 운송장 할당 버튼 표시 */}
-                {(user?.role === 'admin' || user?.role === 'manager') && !order.tracking_number && (
+                {/* 운송장 할당 권한이 있을 때만 표시 */}
+                {canAssignTracking && !order.tracking_number && (
                   <button
                     onClick={() => setShowTrackingForm(true)}
                     className="px-3 py-1 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors text-sm flex items-center gap-1"
@@ -150,10 +231,10 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onCl
                 )}
                 
                 <div className="relative">
-                  {getStatusBadge(order.status)}
+                  <OrderStatusBadge status={order.status} size="md" />
                   {onStatusUpdate && (
                     <button
-                      onClick={() => setShowStatusDropdown(!showStatusDropdown)}
+                      onClick={toggleStatusDropdown}
                       className="ml-2 p-1 rounded-full hover:bg-gray-100 transition-colors"
                       title="상태 변경"
                     >
@@ -161,27 +242,62 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onCl
                     </button>
                   )}
                   
-                  {/* 상태 변경 드롭다운 */}
+                  {/* 상태 변경 드롭다운 (현재 상태에서 바꿀 수 있는 상태만 표시) */}
                   {showStatusDropdown && (
-                    <div className="absolute top-full left-0 mt-2 w-40 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
-                      <div className="py-1">
-                        {statusOptions.map((option) => (
-                          <button
-                            key={option.value}
-                            onClick={() => handleStatusChange(option.value)}
-                            disabled={isUpdatingStatus || option.value === order.status}
-                            className={`w-full px-3 py-2 text-left hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 ${
-                              option.value === order.status ? 'bg-gray-50' : ''
-                            }`}
-                          >
-                            <div className={`w-3 h-3 rounded-full ${option.color}`}></div>
-                            <span className="text-sm">{option.label}</span>
-                            {option.value === order.status && (
-                              <CheckCircle className="w-4 h-4 text-green-500 ml-auto" />
-                            )}
-                          </button>
-                        ))}
-                      </div>
+                    <div className="absolute top-full right-0 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+                      {pendingStatus ? (
+                        <div className="p-3 space-y-2">
+                          <label className="block text-sm font-medium text-gray-700">{pendingStatus} 사유 *</label>
+                          <textarea
+                            value={statusReason}
+                            onChange={(e) => setStatusReason(e.target.value)}
+                            rows={3}
+                            autoFocus
+                            className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            placeholder={`${pendingStatus} 사유를 입력하세요`}
+                          />
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => setPendingStatus(null)}
+                              className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+                            >
+                              뒤로
+                            </button>
+                            <button
+                              onClick={() => handleStatusChange(pendingStatus, { reason: statusReason.trim() })}
+                              disabled={isUpdatingStatus || !statusReason.trim()}
+                              className="px-3 py-1.5 text-sm text-white bg-red-600 rounded hover:bg-red-700 disabled:bg-red-300"
+                            >
+                              {pendingStatus} 처리
+                            </button>
+                          </div>
+                        </div>
+                      ) : allowedStatuses.length === 0 ? (
+                        <p className="px-3 py-2 text-sm text-gray-500">변경할 수 있는 상태가 없습니다.</p>
+                      ) : (
+                        <div className="py-1">
+                          {allowedStatuses.map((status) => {
+                            const needsTracking = requiresInput(status, 'tracking_number') && !order.tracking_number;
+                            return (
+                              <button
+                                key={status}
+                                onClick={() => handleStatusChange(status)}
+                                disabled={isUpdatingStatus || needsTracking}
+                                className="w-full px-3 py-2 text-left hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                              >
+                                <div className={`w-3 h-3 rounded-full ${getOrderStatusInfo(status).dotClassName}`}></div>
+                                <span className="text-sm">{status}</span>
+                                {needsTracking && (
+                                  <span className="ml-auto text-xs text-gray-500">운송장 필요</span>
+                                )}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                      {statusError && (
+                        <p className="px-3 pb-3 text-xs text-red-600">{statusError}</p>
+                      )}
                     </div>
                   )}
                 </div>
@@ -198,330 +314,480 @@ const OrderDetailModal: React.FC<OrderDetailModalProps> = ({ order, isOpen, onCl
 
           {/* 모달 본문 */}
           <div className="bg-white px-6 py-4 max-h-[calc(100vh-200px)] overflow-y-auto">
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {isEditing ? (
+              <OrderEditForm
+                order={order}
+                onSaved={handleOrderSaved}
+                onCancel={() => setEditingOrderId(null)}
+              />
+            ) : (
+              <>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               
-              {/* 발송인 정보 */}
-              <div className="bg-gray-50 rounded-lg p-6">
-                <div className="flex items-center gap-2 mb-4">
-                  <User className="w-5 h-5 text-blue-500" />
-                  <h4 className="text-lg font-semibold text-gray-900">발송인 정보</h4>
-                </div>
+                {/* 발송인 정보 */}
+                <div className="bg-gray-50 rounded-lg p-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <User className="w-5 h-5 text-blue-500" />
+                    <h4 className="text-lg font-semibold text-gray-900">발송인 정보</h4>
+                  </div>
                 
-                <div className="space-y-3">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">이름</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.sender_name || '-'}</p>
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">이름</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.sender_name || '-'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">전화번호</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.sender_phone || '-'}</p>
+                      </div>
                     </div>
+                  
                     <div>
-                      <label className="text-sm font-medium text-gray-600">전화번호</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.sender_phone || '-'}</p>
+                      <label className="text-sm font-medium text-gray-600">주소</label>
+                      <p className="text-sm text-gray-900 mt-1">
+                        ({order.sender_zipcode}) {order.sender_address} {order.sender_detail_address}
+                      </p>
                     </div>
-                  </div>
                   
-                  <div>
-                    <label className="text-sm font-medium text-gray-600">주소</label>
-                    <p className="text-sm text-gray-900 mt-1">
-                      ({order.sender_zipcode}) {order.sender_address} {order.sender_detail_address}
-                    </p>
-                  </div>
-                  
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">이메일</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.sender_email || '-'}</p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">이메일</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.sender_email || '-'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">회사명</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.sender_company || '-'}</p>
+                      </div>
                     </div>
+                  
                     <div>
-                      <label className="text-sm font-medium text-gray-600">회사명</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.sender_company || '-'}</p>
+                      <label className="text-sm font-medium text-gray-600">메모</label>
+                      <p className="text-sm text-gray-900 mt-1">{order.delivery_memo || '-'}</p>
                     </div>
                   </div>
-                  
-                  <div>
-                    <label className="text-sm font-medium text-gray-600">메모</label>
-                    <p className="text-sm text-gray-900 mt-1">{order.delivery_memo || '-'}</p>
-                  </div>
                 </div>
-              </div>
 
-              {/* 수취인 정보 */}
-              <div className="bg-gray-50 rounded-lg p-6">
-                <div className="flex items-center gap-2 mb-4">
-                  <MapPin className="w-5 h-5 text-green-500" />
-                  <h4 className="text-lg font-semibold text-gray-900">수취인 정보</h4>
-                </div>
+                {/* 수취인 정보 */}
+                <div className="bg-gray-50 rounded-lg p-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <MapPin className="w-5 h-5 text-green-500" />
+                    <h4 className="text-lg font-semibold text-gray-900">수취인 정보</h4>
+                  </div>
                 
-                <div className="space-y-3">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">이름</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.receiver_name || '-'}</p>
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">이름</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.receiver_name || '-'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">전화번호</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.receiver_phone || '-'}</p>
+                      </div>
                     </div>
+                  
                     <div>
-                      <label className="text-sm font-medium text-gray-600">전화번호</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.receiver_phone || '-'}</p>
+                      <label className="text-sm font-medium text-gray-600">주소</label>
+                      <p className="text-sm text-gray-900 mt-1">
+                        ({order.receiver_zipcode}) {order.receiver_address} {order.receiver_detail_address}
+                      </p>
                     </div>
-                  </div>
-                  
-                  <div>
-                    <label className="text-sm font-medium text-gray-600">주소</label>
-                    <p className="text-sm text-gray-900 mt-1">
-                      ({order.receiver_zipcode}) {order.receiver_address} {order.receiver_detail_address}
-                    </p>
-                  </div>
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">이메일</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.receiver_email || '-'}</p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">이메일</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.receiver_email || '-'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">회사명</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.receiver_company || '-'}</p>
+                      </div>
                     </div>
+                  
                     <div>
-                      <label className="text-sm font-medium text-gray-600">회사명</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.receiver_company || '-'}</p>
+                      <label className="text-sm font-medium text-gray-600">메모</label>
+                      <p className="text-sm text-gray-900 mt-1">{order.delivery_memo || '-'}</p>
                     </div>
                   </div>
-                  
-                  <div>
-                    <label className="text-sm font-medium text-gray-600">메모</label>
-                    <p className="text-sm text-gray-900 mt-1">{order.delivery_memo || '-'}</p>
-                  </div>
                 </div>
-              </div>
 
-              {/* 배송 정보 */}
-              <div className="bg-gray-50 rounded-lg p-6">
-                <div className="flex items-center gap-2 mb-4">
-                  <Truck className="w-5 h-5 text-purple-500" />
-                  <h4 className="text-lg font-semibold text-gray-900">배송 정보</h4>
-                </div>
+                {/* 배송 정보 */}
+                <div className="bg-gray-50 rounded-lg p-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <Truck className="w-5 h-5 text-purple-500" />
+                    <h4 className="text-lg font-semibold text-gray-900">배송 정보</h4>
+                  </div>
                 
-                <div className="space-y-3">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">상품명</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.package_description || '-'}</p>
-                    </div>
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">수량</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.package_type || '-'}</p>
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">상품명</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.package_description || '-'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">수량</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.package_type || '-'}</p>
+                      </div>
                     </div>
-                  </div>
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">무게 (kg)</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.package_weight || '-'}</p>
-                    </div>
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">크기 (cm)</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.package_size || '-'}</p>
-                    </div>
-                  </div>
+                    {packages.length > 1 ? (
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">
+                          화물 {packages.length}개 (총 {order.package_weight || '-'}kg)
+                        </label>
+                        <ul className="mt-1 divide-y divide-gray-200 border border-gray-200 rounded-lg bg-white">
+                          {packages.map((pkg, index) => (
+                            <li key={index} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm">
+                              <span className="text-gray-900">
+                                {index + 1}. {[pkg.package_type, pkg.package_weight && `${pkg.package_weight}kg`, pkg.package_size, pkg.package_description].filter(Boolean).join(' · ')}
+                              </span>
+                              <span className="font-mono text-xs text-gray-500">{pkg.tracking_number || '운송장 미배정'}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="text-sm font-medium text-gray-600">무게 (kg)</label>
+                          <p className="text-sm text-gray-900 mt-1">{order.package_weight || '-'}</p>
+                        </div>
+                        <div>
+                          <label className="text-sm font-medium text-gray-600">크기 (cm)</label>
+                          <p className="text-sm text-gray-900 mt-1">{order.package_size || '-'}</p>
+                        </div>
+                      </div>
+                    )}
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">배송비</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.package_value ? `${order.package_value}원` : '-'}</p>
-                    </div>
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">운송장번호</label>
-                      <div className="mt-1 flex items-center gap-2">
-                        <p className="text-sm text-gray-900 font-mono">{order.tracking_number || '미배정'}</p>
-                        {order.tracking_number && (
-                          <a
-                            href={`/tracking?number=${order.tracking_number}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="text-blue-500 hover:text-blue-700 text-xs underline"
-                          >
-                            추적
-                          </a>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">배송비</label>
+                        <p className="text-sm text-gray-900 mt-1">
+                          {order.shipping_fee != null ? `${Number(order.shipping_fee).toLocaleString()}원` : '-'}
+                        </p>
+                        {order.shipping_fee_breakdown && order.shipping_fee_breakdown.length > 0 && (
+                          <ul className="mt-1 space-y-0.5 text-xs text-gray-500">
+                            {order.shipping_fee_breakdown.map((line, index) => (
+                              <li key={index}>{line.label} {line.amount.toLocaleString()}원</li>
+                            ))}
+                          </ul>
                         )}
                       </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">운송장번호</label>
+                        <div className="mt-1 flex items-center gap-2">
+                          <p className="text-sm text-gray-900 font-mono">{order.tracking_number || '미배정'}</p>
+                          {order.tracking_number && (
+                            <a
+                              href={getTrackingPath(order.tracking_number)}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-500 hover:text-blue-700 text-xs underline"
+                            >
+                              추적
+                            </a>
+                          )}
+                        </div>
+                      </div>
                     </div>
-                  </div>
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">희망배송일</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.delivery_date || '-'}</p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">희망배송일</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.delivery_date || '-'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">배송유형</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.delivery_type || '-'}</p>
+                      </div>
                     </div>
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">배송유형</label>
-                      <p className="text-sm text-gray-900 mt-1">{order.delivery_type || '-'}</p>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">담당 기사</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.assigned_driver_name || '미배정'}</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">배송 위치</label>
+                        <p className="text-sm text-gray-900 mt-1">{order.delivery_location_note || '-'}</p>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
 
-              {/* 특수 옵션 */}
-              <div className="bg-gray-50 rounded-lg p-6">
-                <div className="flex items-center gap-2 mb-4">
-                  <AlertCircle className="w-5 h-5 text-orange-500" />
-                  <h4 className="text-lg font-semibold text-gray-900">특수 옵션</h4>
-                </div>
+                {/* 특수 옵션 */}
+                <div className="bg-gray-50 rounded-lg p-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <AlertCircle className="w-5 h-5 text-orange-500" />
+                    <h4 className="text-lg font-semibold text-gray-900">특수 옵션</h4>
+                  </div>
                 
-                <div className="space-y-3">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <label className="text-sm font-medium text-gray-600">보험가입</label>
-                      <p className="text-sm text-gray-900 mt-1">
-                        {order.insurance_amount && order.insurance_amount > 0 ? '가입' : '미가입'}
-                        {order.insurance_amount && order.insurance_amount > 0 && ` (${order.insurance_amount}원)`}
-                      </p>
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">보험가입</label>
+                        <p className="text-sm text-gray-900 mt-1">
+                          {order.insurance_amount && order.insurance_amount > 0 ? '가입' : '미가입'}
+                          {order.insurance_amount && order.insurance_amount > 0 && ` (${order.insurance_amount}원)`}
+                        </p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">착불</label>
+                        <p className="text-sm text-gray-900 mt-1">
+                          {order.requires_signature ? '서명필요' : '서명불필요'}
+                        </p>
+                      </div>
                     </div>
+                  
                     <div>
-                      <label className="text-sm font-medium text-gray-600">착불</label>
-                      <p className="text-sm text-gray-900 mt-1">
-                        {order.requires_signature ? '서명필요' : '서명불필요'}
+                      <label className="text-sm font-medium text-gray-600">특별 요청사항</label>
+                      <p className="text-sm text-gray-900 mt-1 whitespace-pre-wrap">
+                        {order.special_instructions || '없음'}
                       </p>
                     </div>
                   </div>
-                  
-                  <div>
-                    <label className="text-sm font-medium text-gray-600">특별 요청사항</label>
-                    <p className="text-sm text-gray-900 mt-1 whitespace-pre-wrap">
-                      {order.special_instructions || '없음'}
-                    </p>
-                  </div>
                 </div>
               </div>
-            </div>
 
-            {/* 운송장 할당 폼 */}
-            {showTrackingForm && (user?.role === 'admin' || user?.role === 'manager') && (
-              <div className="mt-8 bg-blue-50 border border-blue-200 rounded-lg p-6">
-                <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
-                  <Hash className="w-5 h-5 text-blue-500" />
-                  운송장 번호 할당
-                </h4>
+              {/* 운송장 할당 폼 */}
+              {showTrackingForm && canAssignTracking && (
+                <div className="mt-8 bg-blue-50 border border-blue-200 rounded-lg p-6">
+                  <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                    <Hash className="w-5 h-5 text-blue-500" />
+                    운송장 번호 할당
+                  </h4>
                 
-                <form onSubmit={handleTrackingAssign} className="space-y-4">
-                  <div className="grid md:grid-cols-2 gap-4">
-                    <div>
-                      <label htmlFor="tracking_number" className="block text-sm font-medium text-gray-700 mb-1">
-                        운송장 번호 *
-                      </label>
-                      <input
-                        type="text"
-                        id="tracking_number"
-                        value={trackingFormData.tracking_number}
-                        onChange={(e) => setTrackingFormData(prev => ({ ...prev, tracking_number: e.target.value }))}
-                        placeholder="운송장 번호를 입력하세요"
-                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                        required
-                      />
-                    </div>
+                  <form onSubmit={handleTrackingAssign} className="space-y-4">
+                    <div className="grid md:grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="tracking_number" className="block text-sm font-medium text-gray-700 mb-1">
+                          운송장 번호 *
+                        </label>
+                        <input
+                          type="text"
+                          id="tracking_number"
+                          value={trackingFormData.tracking_number}
+                          onChange={(e) => setTrackingFormData(prev => ({ ...prev, tracking_number: e.target.value }))}
+                          placeholder="운송장 번호를 입력하세요"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          required
+                        />
+                      </div>
                     
+                      <div>
+                        <label htmlFor="tracking_company" className="block text-sm font-medium text-gray-700 mb-1">
+                          택배회사
+                        </label>
+                        <input
+                          type="text"
+                          id="tracking_company"
+                          value={trackingFormData.tracking_company}
+                          onChange={(e) => setTrackingFormData(prev => ({ ...prev, tracking_company: e.target.value }))}
+                          placeholder="예: CJ대한통운, 롯데택배"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                        />
+                      </div>
+                    </div>
+                  
                     <div>
-                      <label htmlFor="tracking_company" className="block text-sm font-medium text-gray-700 mb-1">
-                        택배회사
+                      <label htmlFor="estimated_delivery" className="block text-sm font-medium text-gray-700 mb-1">
+                        예상 배송일
                       </label>
                       <input
-                        type="text"
-                        id="tracking_company"
-                        value={trackingFormData.tracking_company}
-                        onChange={(e) => setTrackingFormData(prev => ({ ...prev, tracking_company: e.target.value }))}
-                        placeholder="예: CJ대한통운, 롯데택배"
+                        type="date"
+                        id="estimated_delivery"
+                        value={trackingFormData.estimated_delivery}
+                        onChange={(e) => setTrackingFormData(prev => ({ ...prev, estimated_delivery: e.target.value }))}
                         className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                       />
                     </div>
-                  </div>
                   
-                  <div>
-                    <label htmlFor="estimated_delivery" className="block text-sm font-medium text-gray-700 mb-1">
-                      예상 배송일
-                    </label>
-                    <input
-                      type="date"
-                      id="estimated_delivery"
-                      value={trackingFormData.estimated_delivery}
-                      onChange={(e) => setTrackingFormData(prev => ({ ...prev, estimated_delivery: e.target.value }))}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                    />
-                  </div>
-                  
-                  <div className="flex justify-end gap-3 pt-4">
-                    <button
-                      type="button"
-                      onClick={() => setShowTrackingForm(false)}
-                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
-                    >
-                      취소
-                    </button>
-                    <button
-                      type="submit"
-                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    >
-                      할당하기
-                    </button>
+                    <div className="flex justify-end gap-3 pt-4">
+                      <button
+                        type="button"
+                        onClick={() => setShowTrackingForm(false)}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        취소
+                      </button>
+                      <button
+                        type="submit"
+                        className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        할당하기
+                      </button>
+                    </div>
+                  </form>
+                </div>
+              )}
+
+              {/* 배송완료 증빙 */}
+              {proofOfDelivery && (
+                <div className="mt-8 bg-gray-50 rounded-lg p-6">
+                  <div className="flex items-center gap-2 mb-4">
+                    <CheckCircle className="w-5 h-5 text-green-500" />
+                    <h4 className="text-lg font-semibold text-gray-900">배송완료 증빙</h4>
                   </div>
-                </form>
+                  <ProofOfDeliveryView proof={proofOfDelivery} />
+                </div>
+              )}
+
+              {/* 반품 요청 및 원 주문/회수 주문 연결 */}
+              <div className="mt-8 empty:hidden">
+                <ReturnRequestPanel
+                  key={order.id}
+                  order={order}
+                  onChanged={onOrderChanged}
+                  onOpenOrder={onOpenOrder}
+                />
               </div>
-            )}
 
-            {/* 배송 추적 정보 */}
-            {order.tracking_number && (
-              <div className="mt-8 bg-green-50 border border-green-200 rounded-lg p-6">
-                <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
-                  <Truck className="w-5 h-5 text-green-500" />
-                  배송 추적 정보
-                </h4>
+              {/* 변경 이력 (상태·운송장·배차가 바뀌면 다시 조회) */}
+              <div className="mt-8">
+                <OrderHistoryTimeline
+                  key={`${order.id}-${order.status}-${order.tracking_number ?? ''}-${order.assigned_driver_id ?? ''}`}
+                  orderId={order.id}
+                />
+              </div>
+
+              {/* 배송 추적 정보 */}
+              {order.tracking_number && (
+                <div className="mt-8 bg-green-50 border border-green-200 rounded-lg p-6">
+                  <h4 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
+                    <Truck className="w-5 h-5 text-green-500" />
+                    배송 추적 정보
+                  </h4>
                 
-                <div className="grid md:grid-cols-3 gap-4 mb-4">
-                  <div>
-                    <span className="text-sm font-medium text-gray-600">운송장 번호</span>
-                    <p className="text-lg font-mono text-gray-900">{order.tracking_number}</p>
-                  </div>
-                  {order.tracking_company && (
+                  <div className="grid md:grid-cols-3 gap-4 mb-4">
                     <div>
-                      <span className="text-sm font-medium text-gray-600">택배회사</span>
-                      <p className="text-lg text-gray-900">{order.tracking_company}</p>
+                      <span className="text-sm font-medium text-gray-600">운송장 번호</span>
+                      <p className="text-lg font-mono text-gray-900">{order.tracking_number}</p>
                     </div>
-                  )}
-                  {order.estimated_delivery && (
-                    <div>
-                      <span className="text-sm font-medium text-gray-600">예상 배송일</span>
-                      <p className="text-lg text-gray-900">{new Date(order.estimated_delivery).toLocaleDateString('ko-KR')}</p>
-                    </div>
-                  )}
-                </div>
+                    {order.tracking_company && (
+                      <div>
+                        <span className="text-sm font-medium text-gray-600">택배회사</span>
+                        <p className="text-lg text-gray-900">{order.tracking_company}</p>
+                      </div>
+                    )}
+                    {order.estimated_delivery && (
+                      <div>
+                        <span className="text-sm font-medium text-gray-600">예상 배송일</span>
+                        <p className="text-lg text-gray-900">{new Date(order.estimated_delivery).toLocaleDateString('ko-KR')}</p>
+                      </div>
+                    )}
+                  </div>
                 
-                <div className="flex justify-center">
-                  <a
-                    href={`/tracking?number=${order.tracking_number}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="inline-flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
-                  >
-                    <Truck className="w-5 h-5" />
-                    배송 추적하기
-                  </a>
+                  <div className="flex justify-center">
+                    <a
+                      href={getTrackingPath(order.tracking_number)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                    >
+                      <Truck className="w-5 h-5" />
+                      배송 추적하기
+                    </a>
+                  </div>
                 </div>
-              </div>
+              )}
+              </>
             )}
           </div>
 
+          {/* 주문 취소 사유 입력 */}
+          {isCancelFormOpen && (
+            <div className="bg-red-50 border-t border-red-200 px-6 py-4 space-y-2">
+              <label className="block text-sm font-medium text-red-800">주문 취소 사유 *</label>
+              <textarea
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 text-sm border border-red-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                placeholder="취소 사유를 입력하세요 (예: 주소 오류로 재접수 예정)"
+              />
+              {cancelError && <p className="text-sm text-red-600">{cancelError}</p>}
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setCancelOrderId(null)}
+                  disabled={isCancelling}
+                  className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  돌아가기
+                </button>
+                <button
+                  onClick={handleCancelOrder}
+                  disabled={isCancelling || !cancelReason.trim()}
+                  className="px-3 py-1.5 text-sm text-white bg-red-600 rounded-md hover:bg-red-700 disabled:bg-red-300"
+                >
+                  {isCancelling ? '취소 중...' : '주문 취소'}
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* 모달 푸터 */}
-          <div className="bg-gray-50 px-6 py-4 flex justify-end gap-3">
+          <div className="bg-gray-50 px-6 py-4 flex flex-wrap justify-end gap-3">
             <button
               onClick={onClose}
               className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
             >
               닫기
             </button>
-            <button
-              onClick={() => {
-                // TODO: 주문 수정 기능 구현
-                console.log('주문 수정:', order.id);
-              }}
-              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            >
-              주문 수정
-            </button>
+            {onDuplicate && (
+              <button
+                onClick={() => onDuplicate(order)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 flex items-center gap-2"
+                title="이 주문 내용으로 새 배송접수"
+              >
+                <Copy className="w-4 h-4" />
+                주문 복제
+              </button>
+            )}
+            {order.tracking_number && (
+              <button
+                onClick={() => setShowLabelDialog(true)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 flex items-center gap-2"
+              >
+                <Printer className="w-4 h-4" />
+                라벨 인쇄
+              </button>
+            )}
+            {canModifyOrder && !isEditing && (
+              <>
+                <button
+                  onClick={openCancelForm}
+                  className="px-4 py-2 text-sm font-medium text-red-600 bg-white border border-red-200 rounded-md hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-500 flex items-center gap-2"
+                >
+                  <Ban className="w-4 h-4" />
+                  주문 취소
+                </button>
+                <button
+                  onClick={() => {
+                    setCancelOrderId(null);
+                    setEditingOrderId(order.id);
+                  }}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  주문 수정
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
+
+      {showLabelDialog && (
+        <LabelPrintDialog orders={[order]} onClose={() => setShowLabelDialog(false)} />
+      )}
+
+      {showProofModal && (
+        <ProofOfDeliveryModal
+          order={order}
+          onClose={() => setShowProofModal(false)}
+          onCompleted={handleProofCompleted}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,125 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, RefreshCw, ArrowRight, Hash, Truck, CheckCircle, Edit, PenLine } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { OrderHistoryEntry, OrderHistoryEventType } from '../../types';
+import { shippingAPI, getErrorMessage } from '../../services/api';
+import { getRoleInfo } from '../../utils/permissions';
+import { getOrderStatusInfo } from '../../utils/orderStatus';
+import { ORDER_FIELD_LABELS } from '../shipping/orderFields';
+
+interface OrderHistoryTimelineProps {
+  orderId: number;
+}
+
+const EVENT_LABELS: Record<OrderHistoryEventType, { label: string; icon: LucideIcon; className: string }> = {
+  status_changed: { label: '상태 변경', icon: Edit, className: 'bg-blue-100 text-blue-600' },
+  tracking_assigned: { label: '운송장 할당', icon: Hash, className: 'bg-purple-100 text-purple-600' },
+  driver_assigned: { label: '배송기사 배정', icon: Truck, className: 'bg-amber-100 text-amber-600' },
+  proof_uploaded: { label: '배송완료 증빙', icon: CheckCircle, className: 'bg-green-100 text-green-600' },
+  order_updated: { label: '주문 수정', icon: PenLine, className: 'bg-gray-200 text-gray-700' }
+};
+
+/**
+ * 주문 변경 이력 타임라인
+ * 누가, 언제, 어떤 값을 어떤 값으로 바꿨는지와 사유/메모를 최신순으로 표시
+ */
+const OrderHistoryTimeline: React.FC<OrderHistoryTimelineProps> = ({ orderId }) => {
+  const [history, setHistory] = useState<OrderHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError('');
+      const response = await shippingAPI.getOrderHistory(orderId);
+      const entries = [...(response.history || [])].sort((a, b) => b.created_at.localeCompare(a.created_at));
+      setHistory(entries);
+    } catch (err) {
+      setError(getErrorMessage(err, '변경 이력을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const renderValue = (entry: OrderHistoryEntry, value: string | null) => {
+    if (!value) return <span className="text-gray-400">없음</span>;
+    if (entry.type === 'status_changed') {
+      return (
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getOrderStatusInfo(value).badgeClassName}`}>
+          {value}
+        </span>
+      );
+    }
+    return <span className="font-medium text-gray-900">{value}</span>;
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-gray-500" />
+          <h4 className="text-lg font-semibold text-gray-900">변경 이력</h4>
+        </div>
+        <button
+          onClick={fetchHistory}
+          disabled={loading}
+          className="p-1 text-gray-500 rounded hover:bg-gray-200 disabled:opacity-50"
+          title="새로고침"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : loading && history.length === 0 ? (
+        <p className="text-sm text-gray-500">불러오는 중...</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-gray-500">변경 이력이 없습니다.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-3 space-y-5">
+          {history.map(entry => {
+            const event = EVENT_LABELS[entry.type] || EVENT_LABELS.status_changed;
+            const Icon = event.icon;
+            return (
+              <li key={entry.id} className="ml-6">
+                <span className={`absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full ring-4 ring-gray-50 ${event.className}`}>
+                  <Icon className="w-3 h-3" />
+                </span>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900">
+                    {event.label}
+                    {entry.type === 'order_updated' && entry.field && ` · ${ORDER_FIELD_LABELS[entry.field] || entry.field}`}
+                  </span>
+                  <time className="text-xs text-gray-500">{new Date(entry.created_at).toLocaleString('ko-KR')}</time>
+                </div>
+                {entry.type !== 'proof_uploaded' && (
+                  <div className="mt-1 flex flex-wrap items-center gap-2 text-sm">
+                    {renderValue(entry, entry.previous_value)}
+                    <ArrowRight className="w-4 h-4 text-gray-400" />
+                    {renderValue(entry, entry.new_value)}
+                  </div>
+                )}
+                {entry.note && (
+                  <p className="mt-1 text-sm text-gray-700 bg-white border rounded px-2 py-1">{entry.note}</p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  {entry.actor_id === null
+                    ? '시스템'
+                    : `${entry.actor_name || `사용자 #${entry.actor_id}`}${entry.actor_role ? ` (${getRoleInfo(entry.actor_role).label})` : ''}`}
+                </p>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default OrderHistoryTimeline;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { getOrderStatusInfo } from '../../utils/orderStatus';
+
+interface OrderStatusBadgeProps {
+  status: string;
+  size?: 'sm' | 'md';
+}
+
+/**
+ * 주문 상태 배지 (아이콘 + 상태명)
+ */
+const OrderStatusBadge: React.FC<OrderStatusBadgeProps> = ({ status, size = 'sm' }) => {
+  const info = getOrderStatusInfo(status);
+  const Icon = info.icon;
+
+  return size === 'sm' ? (
+    <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${info.badgeClassName}`}>
+      <Icon className="w-3 h-3" />
+      {status}
+    </span>
+  ) : (
+    <span className={`inline-flex items-center gap-2 px-3 py-2 rounded-full text-sm font-medium ${info.badgeClassName}`}>
+      <Icon className="w-4 h-4" />
+      {status}
+    </span>
+  );
+};
+
+export default OrderStatusBadge;
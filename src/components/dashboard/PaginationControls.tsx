@@ -0,0 +1,106 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import type { Pagination } from '../../types';
+
+const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+
+/** 현재 페이지 좌우로 표시할 페이지 번호 개수 */
+const PAGE_WINDOW = 2;
+
+interface PaginationControlsProps {
+  pagination: Pagination;
+  onPageChange: (page: number) => void;
+  onLimitChange: (limit: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 목록 하단 페이지 이동 및 페이지 크기 선택 컴포넌트
+ * 서버에서 받은 pagination 정보를 기준으로 렌더링
+ */
+const PaginationControls: React.FC<PaginationControlsProps> = ({ pagination, onPageChange, onLimitChange, disabled }) => {
+  const { page, limit, total } = pagination;
+  const totalPages = Math.max(pagination.totalPages, 1);
+  const rangeStart = total === 0 ? 0 : (page - 1) * limit + 1;
+  const rangeEnd = Math.min(page * limit, total);
+
+  const pageNumbers: number[] = [];
+  for (let p = Math.max(1, page - PAGE_WINDOW); p <= Math.min(totalPages, page + PAGE_WINDOW); p++) {
+    pageNumbers.push(p);
+  }
+
+  const buttonClass = 'p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors touch-manipulation';
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-6 py-4 border-t">
+      <div className="flex items-center gap-3 text-sm text-gray-600">
+        <span>
+          총 <strong className="text-gray-900">{total.toLocaleString()}</strong>건 중 {rangeStart.toLocaleString()}-{rangeEnd.toLocaleString()}
+        </span>
+        <select
+          className="px-2 py-1 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          value={limit}
+          onChange={(e) => onLimitChange(Number(e.target.value))}
+          disabled={disabled}
+        >
+          {PAGE_SIZE_OPTIONS.map(size => (
+            <option key={size} value={size}>{size}개씩 보기</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => onPageChange(1)}
+          disabled={disabled || page <= 1}
+          className={buttonClass}
+          title="첫 페이지"
+        >
+          <ChevronsLeft className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onPageChange(page - 1)}
+          disabled={disabled || page <= 1}
+          className={buttonClass}
+          title="이전 페이지"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+
+        {pageNumbers.map(p => (
+          <button
+            key={p}
+            onClick={() => onPageChange(p)}
+            disabled={disabled}
+            className={`min-w-[2.25rem] px-2 py-1.5 text-sm rounded-lg border transition-colors touch-manipulation ${
+              p === page
+                ? 'bg-blue-500 text-white border-blue-500'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {p}
+          </button>
+        ))}
+
+        <button
+          onClick={() => onPageChange(page + 1)}
+          disabled={disabled || page >= totalPages}
+          className={buttonClass}
+          title="다음 페이지"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => onPageChange(totalPages)}
+          disabled={disabled || page >= totalPages}
+          className={buttonClass}
+          title="마지막 페이지"
+        >
+          <ChevronsRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaginationControls;
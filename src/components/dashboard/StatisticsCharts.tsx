@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { BarChart3, Filter } from 'lucide-react';
+import type { ShippingStatistics } from '../../types';
+import { listDatesInRange, getWeekStart } from '../../utils/date';
+
+/** 퍼널로 표시할 정상 배송 흐름 */
+const FUNNEL_STAGES = ['접수완료', '배송준비', '배송중', '배송완료'];
+
+/** 퍼널에서 이탈로 집계할 상태 */
+const EXIT_STATUSES = ['취소', '반송'];
+
+interface VolumePoint {
+  label: string;
+  title: string;
+  count: number;
+}
+
+interface StatisticsChartsProps {
+  statistics: ShippingStatistics | null;
+  loading?: boolean;
+}
+
+/**
+ * 일자별 접수 건수를 기간 전체 날짜로 채워서 반환 (데이터 없는 날은 0건)
+ */
+const buildDailyPoints = (statistics: ShippingStatistics): VolumePoint[] => {
+  const counts = new Map(statistics.daily.map(item => [item.date, item.count]));
+  return listDatesInRange(statistics.range).map(date => ({
+    label: date.slice(5).replace('-', '/'),
+    title: date,
+    count: counts.get(date) || 0
+  }));
+};
+
+/**
+ * 일자별 접수 건수를 월요일 시작 주 단위로 합산
+ */
+const buildWeeklyPoints = (statistics: ShippingStatistics): VolumePoint[] => {
+  const weeks = new Map<string, number>();
+  buildDailyPoints(statistics).forEach(point => {
+    const weekStart = getWeekStart(point.title);
+    weeks.set(weekStart, (weeks.get(weekStart) || 0) + point.count);
+  });
+  return Array.from(weeks.entries()).map(([weekStart, count]) => ({
+    label: `${weekStart.slice(5).replace('-', '/')}주`,
+    title: `${weekStart} 주`,
+    count
+  }));
+};
+
+/**
+ * 기간 내 상태 전이 건수로 단계별 진입 건수와 이탈 건수를 계산
+ */
+const buildFunnel = (statistics: ShippingStatistics) => {
+  const entered = (status: string) => statistics.transitions
+    .filter(t => t.to === status)
+    .reduce((sum, t) => sum + t.count, 0);
+  const exited = (from: string) => statistics.transitions
+    .filter(t => t.from === from && EXIT_STATUSES.includes(t.to))
+    .reduce((sum, t) => sum + t.count, 0);
+
+  return FUNNEL_STAGES.map((status, index) => {
+    const count = entered(status);
+    const previous = index > 0 ? entered(FUNNEL_STAGES[index - 1]) : count;
+    return {
+      status,
+      count,
+      rate: previous > 0 ? Math.round((count / previous) * 100) : 0,
+      exits: exited(status)
+    };
+  });
+};
+
+/**
+ * 막대 그래프 - 외부 차트 라이브러리 없이 div 높이로 렌더링
+ */
+const VolumeBarChart: React.FC<{ points: VolumePoint[] }> = ({ points }) => {
+  const max = Math.max(...points.map(p => p.count), 1);
+  // 막대가 많을 때는 축 라벨을 일정 간격으로만 표시
+  const labelEvery = Math.max(1, Math.ceil(points.length / 10));
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-40 border-b border-gray-200">
+        {points.map(point => (
+          <div key={point.title} className="flex-1 h-full flex flex-col justify-end group relative">
+            <div
+              className="bg-blue-500 group-hover:bg-blue-600 rounded-t transition-colors"
+              style={{ height: `${(point.count / max) * 100}%`, minHeight: point.count > 0 ? 2 : 0 }}
+              title={`${point.title}: ${point.count}건`}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-0.5 mt-1">
+        {points.map((point, index) => (
+          <div key={point.title} className="flex-1 text-[10px] text-gray-500 text-center overflow-visible whitespace-nowrap">
+            {index % labelEvery === 0 ? point.label : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 통계 차트 컴포넌트
+ * 기간별 접수량 추이(일/주 단위)와 상태 전이 퍼널 표시
+ */
+const StatisticsCharts: React.FC<StatisticsChartsProps> = ({ statistics, loading }) => {
+  const [granularity, setGranularity] = useState<'daily' | 'weekly'>('daily');
+
+  if (!statistics) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+        {loading ? '통계를 불러오는 중...' : '통계 데이터를 불러올 수 없습니다.'}
+      </div>
+    );
+  }
+
+  const points = granularity === 'daily' ? buildDailyPoints(statistics) : buildWeeklyPoints(statistics);
+  const totalVolume = points.reduce((sum, p) => sum + p.count, 0);
+  const funnel = buildFunnel(statistics);
+  const funnelMax = Math.max(...funnel.map(stage => stage.count), 1);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* 접수량 추이 */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-blue-500" />
+            <h3 className="text-lg font-semibold text-gray-900">접수량 추이</h3>
+            <span className="text-sm text-gray-500">총 {totalVolume.toLocaleString()}건</span>
+          </div>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+            {(['daily', 'weekly'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setGranularity(option)}
+                className={`px-3 py-1 transition-colors ${
+                  granularity === option ? 'bg-blue-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option === 'daily' ? '일별' : '주별'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <VolumeBarChart points={points} />
+      </div>
+
+      {/* 상태 전이 퍼널 */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <Filter className="w-5 h-5 text-purple-500" />
+          <h3 className="text-lg font-semibold text-gray-900">배송 단계 퍼널</h3>
+        </div>
+        <div className="space-y-3">
+          {funnel.map((stage, index) => (
+            <div key={stage.status}>
+              <div className="flex items-center justify-between text-sm mb-1">
+                <span className="font-medium text-gray-700">{stage.status}</span>
+                <span className="text-gray-600">
+                  {stage.count.toLocaleString()}건
+                  {index > 0 && <span className="ml-2 text-gray-400">({stage.rate}%)</span>}
+                </span>
+              </div>
+              <div className="w-full bg-gray-100 rounded h-5">
+                <div
+                  className="bg-purple-500 h-5 rounded transition-all"
+                  style={{ width: `${(stage.count / funnelMax) * 100}%` }}
+                />
+              </div>
+              {stage.exits > 0 && (
+                <p className="text-xs text-red-600 mt-1">취소/반송 이탈 {stage.exits.toLocaleString()}건</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatisticsCharts;
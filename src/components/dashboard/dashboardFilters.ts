@@ -0,0 +1,89 @@
+import type { ShippingOrderSortField } from '../../types';
+import { isOrderStatus } from '../../utils/orderStatus';
+
+/**
+ * 대시보드 목록 조건 (URL 쿼리 문자열에 보관해서 새로고침·공유·뒤로 가기 후에도 유지)
+ */
+export interface DashboardFilters {
+  search: string;
+  status: string; // 'all'이면 전체
+  startDate: string;
+  endDate: string;
+  sortBy: ShippingOrderSortField;
+  sortOrder: 'asc' | 'desc';
+  page: number;
+  limit: number;
+}
+
+export const DEFAULT_DASHBOARD_FILTERS: DashboardFilters = {
+  search: '',
+  status: 'all',
+  startDate: '',
+  endDate: '',
+  sortBy: 'created_at',
+  sortOrder: 'desc',
+  page: 1,
+  limit: 10
+};
+
+const SORT_FIELDS: ShippingOrderSortField[] = ['created_at', 'tracking_number', 'sender_name', 'receiver_name', 'status'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** 쿼리 파라미터 이름 */
+const PARAM_NAMES: Record<keyof DashboardFilters, string> = {
+  search: 'q',
+  status: 'status',
+  startDate: 'from',
+  endDate: 'to',
+  sortBy: 'sort',
+  sortOrder: 'order',
+  page: 'page',
+  limit: 'limit'
+};
+
+const toPositiveInteger = (value: string | null, fallback: number) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+/**
+ * 쿼리 문자열에서 목록 조건 읽기 (잘못된 값은 기본값으로)
+ */
+export const parseDashboardFilters = (search: string): DashboardFilters => {
+  const params = new URLSearchParams(search);
+  const get = (key: keyof DashboardFilters) => params.get(PARAM_NAMES[key]);
+  const defaults = DEFAULT_DASHBOARD_FILTERS;
+
+  const status = get('status');
+  const sortBy = get('sortBy') as ShippingOrderSortField | null;
+  const sortOrder = get('sortOrder');
+  const startDate = get('startDate');
+  const endDate = get('endDate');
+
+  return {
+    search: get('search') || defaults.search,
+    status: status && isOrderStatus(status) ? status : defaults.status,
+    startDate: startDate && DATE_PATTERN.test(startDate) ? startDate : defaults.startDate,
+    endDate: endDate && DATE_PATTERN.test(endDate) ? endDate : defaults.endDate,
+    sortBy: sortBy && SORT_FIELDS.includes(sortBy) ? sortBy : defaults.sortBy,
+    sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : defaults.sortOrder,
+    page: toPositiveInteger(get('page'), defaults.page),
+    limit: toPositiveInteger(get('limit'), defaults.limit)
+  };
+};
+
+/**
+ * 목록 조건을 쿼리 문자열로 (기본값인 조건은 생략해서 주소를 짧게 유지)
+ * @returns "?q=..." 형식, 모두 기본값이면 빈 문자열
+ */
+export const buildDashboardQuery = (filters: DashboardFilters): string => {
+  const params = new URLSearchParams();
+  (Object.keys(PARAM_NAMES) as (keyof DashboardFilters)[]).forEach(key => {
+    const value = filters[key];
+    if (value !== DEFAULT_DASHBOARD_FILTERS[key] && value !== '') {
+      params.set(PARAM_NAMES[key], String(value));
+    }
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
@@ -0,0 +1,60 @@
+import { parseCsv } from '../../utils/csv';
+
+/** 주문 ID → 운송장 번호 매핑 한 줄 */
+export interface TrackingMappingEntry {
+  line: number;
+  orderId: number;
+  trackingNumber: string;
+  trackingCompany?: string;
+}
+
+export interface TrackingMappingParseResult {
+  entries: TrackingMappingEntry[];
+  errors: { line: number; message: string }[];
+}
+
+/**
+ * 붙여넣기 또는 CSV 파일의 "주문ID, 운송장번호[, 택배회사]" 매핑을 파싱
+ * 엑셀에서 복사한 탭 구분 텍스트와 쉼표 구분 CSV 모두 지원하며,
+ * 첫 행의 주문 ID가 숫자가 아니면 헤더로 보고 건너뜀
+ */
+export const parseTrackingMapping = (text: string): TrackingMappingParseResult => {
+  const rows = text.includes('\t')
+    ? text.split(/\r?\n/).filter(line => line.trim() !== '').map(line => line.split('\t'))
+    : parseCsv(text);
+
+  const entries: TrackingMappingEntry[] = [];
+  const errors: { line: number; message: string }[] = [];
+  const seenOrderIds = new Set<number>();
+
+  rows.forEach((row, index) => {
+    const line = index + 1;
+    const [rawOrderId = '', rawTracking = '', rawCompany = ''] = row.map(cell => cell.trim());
+    const orderId = Number(rawOrderId.replace(/^#/, ''));
+
+    if (!Number.isInteger(orderId) || orderId <= 0) {
+      if (index > 0) {
+        errors.push({ line, message: `주문 ID가 올바르지 않습니다: ${rawOrderId || '(빈 값)'}` });
+      }
+      return;
+    }
+    if (!rawTracking) {
+      errors.push({ line, message: `주문 #${orderId}의 운송장 번호가 비어 있습니다` });
+      return;
+    }
+    if (seenOrderIds.has(orderId)) {
+      errors.push({ line, message: `주문 #${orderId}이(가) 중복되었습니다` });
+      return;
+    }
+
+    seenOrderIds.add(orderId);
+    entries.push({
+      line,
+      orderId,
+      trackingNumber: rawTracking,
+      trackingCompany: rawCompany || undefined
+    });
+  });
+
+  return { entries, errors };
+};
@@ -0,0 +1,83 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Camera } from 'lucide-react';
+
+interface PhotoPickerProps {
+  /** 선택한 사진이 바뀔 때마다 전체 목록으로 호출 */
+  onChange: (photos: File[]) => void;
+  maxPhotos: number;
+  disabled?: boolean;
+}
+
+/**
+ * 사진 첨부 (모바일에서는 카메라 촬영, 데스크톱에서는 파일 선택) + 미리보기
+ */
+const PhotoPicker: React.FC<PhotoPickerProps> = ({ onChange, maxPhotos, disabled = false }) => {
+  const [photos, setPhotos] = useState<{ file: File; previewUrl: string }[]>([]);
+  const photosRef = useRef(photos);
+
+  // 남아 있는 미리보기 URL은 언마운트 시 해제
+  useEffect(() => {
+    photosRef.current = photos;
+  }, [photos]);
+
+  useEffect(() => {
+    return () => photosRef.current.forEach(photo => URL.revokeObjectURL(photo.previewUrl));
+  }, []);
+
+  const updatePhotos = (next: { file: File; previewUrl: string }[]) => {
+    setPhotos(next);
+    onChange(next.map(photo => photo.file));
+  };
+
+  const handlePhotoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter(file => file.type.startsWith('image/'));
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    updatePhotos([
+      ...photos,
+      ...files.slice(0, maxPhotos - photos.length).map(file => ({ file, previewUrl: URL.createObjectURL(file) }))
+    ]);
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].previewUrl);
+    updatePhotos(photos.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {photos.map((photo, index) => (
+        <div key={photo.previewUrl} className="relative w-20 h-20">
+          <img src={photo.previewUrl} alt={`첨부 사진 ${index + 1}`} className="w-full h-full object-cover rounded-lg border" />
+          <button
+            type="button"
+            onClick={() => removePhoto(index)}
+            disabled={disabled}
+            className="absolute -top-2 -right-2 p-0.5 bg-white border rounded-full shadow text-gray-600 hover:text-red-600"
+            title="사진 삭제"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      {photos.length < maxPhotos && (
+        <label className="flex flex-col items-center justify-center w-20 h-20 text-xs text-gray-500 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+          <Camera className="w-6 h-6 mb-1" />
+          촬영/선택
+          <input
+            type="file"
+            accept="image/*"
+            capture="environment"
+            multiple
+            onChange={handlePhotoSelect}
+            disabled={disabled}
+            className="hidden"
+          />
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default PhotoPicker;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { X, CheckCircle, FileText } from 'lucide-react';
+import type { ProofOfDelivery, ShippingOrder } from '../../types';
+import { shippingAPI, getErrorMessage } from '../../services/api';
+import { MAX_PROOF_PHOTOS } from '../../utils/proofOfDelivery';
+import SignaturePad from './SignaturePad';
+import PhotoPicker from './PhotoPicker';
+
+interface ProofOfDeliveryModalProps {
+  order: ShippingOrder;
+  onClose: () => void;
+  /** 증빙 업로드 후 호출 — 여기서 주문을 배송완료로 변경 */
+  onCompleted: (proof: ProofOfDelivery) => Promise<void> | void;
+}
+
+/**
+ * 배송완료 증빙 입력 모달
+ * 인수자 이름, 서명, 현장 사진을 업로드한 뒤 배송완료 처리를 진행
+ * 서명 필요 주문은 서명 없이 완료할 수 없음
+ */
+const ProofOfDeliveryModal: React.FC<ProofOfDeliveryModalProps> = ({ order, onClose, onCompleted }) => {
+  const [recipientName, setRecipientName] = useState(order.receiver_name);
+  const [signature, setSignature] = useState<Blob | null>(null);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const signatureRequired = !!order.requires_signature;
+
+  const handleSubmit = async () => {
+    if (!recipientName.trim()) {
+      setError('인수자 이름을 입력해주세요.');
+      return;
+    }
+    if (signatureRequired && !signature) {
+      setError('서명이 필요한 주문입니다. 인수자 서명을 받아주세요.');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError('');
+      const response = await shippingAPI.uploadProofOfDelivery(order.id, {
+        recipient_name: recipientName.trim(),
+        signature,
+        photos
+      });
+      await onCompleted(response.proof_of_delivery);
+    } catch (err) {
+      setError(getErrorMessage(err, '배송완료 처리에 실패했습니다.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* 배경 오버레이 */}
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose}></div>
+
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all w-full sm:my-8 sm:align-middle sm:max-w-lg">
+          {/* 헤더 */}
+          <div className="flex items-center justify-between px-6 py-4 border-b">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">배송완료 증빙</h3>
+              <p className="text-sm text-gray-500">{order.receiver_name} · {order.tracking_number || `주문 #${order.id}`}</p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* 본문 */}
+          <div className="px-6 py-4 space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">인수자 이름 *</label>
+              <input
+                type="text"
+                value={recipientName}
+                onChange={(e) => setRecipientName(e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <label className="text-sm font-medium text-gray-700">
+                  인수자 서명 {signatureRequired ? '*' : '(선택)'}
+                </label>
+                {signatureRequired && (
+                  <span className="flex items-center gap-1 text-xs text-green-700">
+                    <FileText className="w-3 h-3" />
+                    서명 필요 주문
+                  </span>
+                )}
+              </div>
+              <SignaturePad onChange={setSignature} disabled={isSubmitting} />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                배송 사진 (선택, 최대 {MAX_PROOF_PHOTOS}장)
+              </label>
+              <PhotoPicker onChange={setPhotos} maxPhotos={MAX_PROOF_PHOTOS} disabled={isSubmitting} />
+            </div>
+
+            {error && (
+              <p className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">{error}</p>
+            )}
+          </div>
+
+          {/* 푸터 */}
+          <div className="bg-gray-50 px-6 py-4 flex flex-col-reverse sm:flex-row sm:justify-end gap-3">
+            <button
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="px-4 py-3 sm:py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              취소
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting || (signatureRequired && !signature)}
+              className="flex items-center justify-center gap-2 px-4 py-3 sm:py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-green-300 touch-manipulation"
+            >
+              <CheckCircle className="w-4 h-4" />
+              {isSubmitting ? '처리 중...' : '배송완료 처리'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProofOfDeliveryModal;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { CheckCircle } from 'lucide-react';
+import type { ProofOfDelivery } from '../../types';
+
+interface ProofOfDeliveryViewProps {
+  proof: ProofOfDelivery;
+}
+
+/**
+ * 배송완료 증빙 표시 (인수자, 서명, 배송 사진)
+ * 주문 상세와 공개 배송 추적 화면에서 함께 사용
+ */
+const ProofOfDeliveryView: React.FC<ProofOfDeliveryViewProps> = ({ proof }) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+        <div className="flex items-center gap-2">
+          <CheckCircle className="w-4 h-4 text-green-500" />
+          <span className="text-gray-600">인수자</span>
+          <span className="font-medium text-gray-900">{proof.recipient_name}</span>
+        </div>
+        <div>
+          <span className="text-gray-600">완료 시각 </span>
+          <span className="text-gray-900">{new Date(proof.delivered_at).toLocaleString('ko-KR')}</span>
+        </div>
+        {proof.delivered_by && (
+          <div>
+            <span className="text-gray-600">처리 </span>
+            <span className="text-gray-900">{proof.delivered_by}</span>
+          </div>
+        )}
+      </div>
+
+      {proof.signature_url && (
+        <div>
+          <p className="text-sm font-medium text-gray-600 mb-1">서명</p>
+          <img
+            src={proof.signature_url}
+            alt={`${proof.recipient_name} 서명`}
+            className="h-24 max-w-full bg-white border rounded-lg"
+          />
+        </div>
+      )}
+
+      {proof.photo_urls.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-600 mb-1">배송 사진</p>
+          <div className="flex flex-wrap gap-2">
+            {proof.photo_urls.map((url, index) => (
+              <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                <img src={url} alt={`배송 사진 ${index + 1}`} className="w-24 h-24 object-cover border rounded-lg hover:opacity-90" />
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProofOfDeliveryView;
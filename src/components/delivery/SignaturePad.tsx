@@ -0,0 +1,110 @@
+import React, { useRef, useEffect } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  /** 서명을 그릴 때마다 PNG 이미지로, 지우면 null로 호출 */
+  onChange: (signature: Blob | null) => void;
+  disabled?: boolean;
+}
+
+const PAD_HEIGHT = 180;
+
+/**
+ * 캔버스 서명 패드
+ * 마우스/터치/펜 입력을 모두 pointer 이벤트로 처리
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const hasStrokeRef = useRef(false);
+
+  // 고해상도 화면에서도 선이 흐리지 않도록 표시 크기 × devicePixelRatio로 캔버스 크기 지정
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = PAD_HEIGHT * ratio;
+    context.scale(ratio, ratio);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+  }, []);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    const { x, y } = getPoint(e);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+    hasStrokeRef.current = true;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    if (hasStrokeRef.current) {
+      e.currentTarget.toBlob(blob => onChange(blob), 'image/png');
+    }
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    hasStrokeRef.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{ height: PAD_HEIGHT }}
+        className={`w-full bg-white border-2 border-dashed border-gray-300 rounded-lg touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+      />
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>위 영역에 서명해주세요</span>
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={disabled}
+          className="flex items-center gap-1 px-2 py-1 text-gray-600 rounded hover:bg-gray-100 disabled:opacity-50"
+        >
+          <Eraser className="w-4 h-4" />
+          지우기
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
@@ -0,0 +1,245 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Truck, MapPin, Phone, Package, RefreshCw, CheckCircle, AlertTriangle, Snowflake, FileText } from 'lucide-react';
+import { shippingAPI, getErrorMessage } from '../../services/api';
+import { useOrderEvents } from '../../hooks/useOrderEvents';
+import type { ShippingOrder } from '../../types';
+import { validateTransition } from '../../utils/orderStatus';
+import { getOrderPackages } from '../../utils/packages';
+import ProofOfDeliveryModal from '../delivery/ProofOfDeliveryModal';
+import OrderStatusBadge from '../dashboard/OrderStatusBadge';
+
+/** 배송기사가 진행할 수 있는 다음 상태와 버튼 문구 */
+const DRIVER_NEXT_STEP: Record<string, { status: string; label: string; className: string }> = {
+  접수완료: { status: '배송준비', label: '상차 완료 (배송준비)', className: 'bg-yellow-500 hover:bg-yellow-600' },
+  배송준비: { status: '배송중', label: '배송 출발', className: 'bg-purple-600 hover:bg-purple-700' },
+  배송중: { status: '배송완료', label: '배송 완료', className: 'bg-green-600 hover:bg-green-700' }
+};
+
+/**
+ * 배송기사 "내 배송" 화면 (모바일 우선)
+ * 배정받은 주문을 큰 버튼으로 배송준비 → 배송중 → 배송완료 순서로 처리하고 배송 위치 메모를 기록
+ */
+const MyDeliveriesPage: React.FC = () => {
+  const [scope, setScope] = useState<'active' | 'completed'>('active');
+  const [orders, setOrders] = useState<ShippingOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  // 주문별 배송 위치 메모 입력값
+  const [locationNotes, setLocationNotes] = useState<Record<number, string>>({});
+  const [processingId, setProcessingId] = useState<number | null>(null);
+  // 배송완료 증빙을 입력 중인 주문
+  const [proofOrder, setProofOrder] = useState<ShippingOrder | null>(null);
+  const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const showNotification = (type: 'success' | 'error', message: string) => {
+    setNotification({ type, message });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setError('');
+      const response = await shippingAPI.getAssignedOrders(scope);
+      setOrders(response.orders || []);
+    } catch (err) {
+      setError(getErrorMessage(err, '배정된 배송을 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // 배차 변경이나 다른 화면의 상태 변경을 바로 반영
+  useOrderEvents(useCallback(() => {
+    fetchOrders();
+  }, [fetchOrders]));
+
+  const handleAdvance = async (order: ShippingOrder) => {
+    const next = DRIVER_NEXT_STEP[order.status];
+    if (!next) return;
+    const validationError = validateTransition(order, next.status);
+    if (validationError) {
+      showNotification('error', validationError);
+      return;
+    }
+    // 배송완료는 인수자/서명/사진 증빙을 받은 뒤 처리
+    if (next.status === '배송완료' && proofOrder?.id !== order.id) {
+      setProofOrder(order);
+      return;
+    }
+
+    const note = (locationNotes[order.id] ?? order.delivery_location_note ?? '').trim();
+    try {
+      setProcessingId(order.id);
+      await shippingAPI.updateOrderStatus(order.id, next.status, note ? { location_note: note } : {});
+      showNotification('success', `${order.receiver_name}님 배송을 "${next.status}"(으)로 변경했습니다.`);
+      setOrders(prev =>
+        next.status === '배송완료' && scope === 'active'
+          ? prev.filter(o => o.id !== order.id)
+          : prev.map(o => (o.id === order.id ? { ...o, status: next.status, delivery_location_note: note || o.delivery_location_note } : o))
+      );
+      setProofOrder(null);
+    } catch (err) {
+      showNotification('error', getErrorMessage(err, '상태 변경에 실패했습니다.'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4">
+      {/* 알림 메시지 */}
+      {notification && (
+        <div className={`fixed top-4 left-4 right-4 sm:left-auto z-[60] p-4 rounded-lg shadow-lg border ${
+          notification.type === 'success'
+            ? 'bg-green-50 text-green-800 border-green-200'
+            : 'bg-red-50 text-red-800 border-red-200'
+        }`}>
+          <span className="font-medium">{notification.message}</span>
+        </div>
+      )}
+
+      {/* 헤더 */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Truck className="w-7 h-7 text-blue-500" />
+          <h2 className="text-2xl font-bold text-gray-900">내 배송</h2>
+        </div>
+        <button
+          onClick={() => {
+            setLoading(true);
+            fetchOrders();
+          }}
+          className="p-3 text-gray-600 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 touch-manipulation"
+          title="새로고침"
+        >
+          <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* 진행 중 / 완료 탭 */}
+      <div className="grid grid-cols-2 gap-2 p-1 bg-gray-200 rounded-lg">
+        {(['active', 'completed'] as const).map(value => (
+          <button
+            key={value}
+            onClick={() => setScope(value)}
+            className={`py-3 text-base font-medium rounded-md touch-manipulation ${
+              scope === value ? 'bg-white text-blue-700 shadow' : 'text-gray-600'
+            }`}
+          >
+            {value === 'active' ? '진행 중' : '완료'}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-4 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">{error}</div>
+      )}
+
+      {loading && orders.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 bg-white rounded-lg shadow">불러오는 중...</div>
+      ) : orders.length === 0 ? (
+        <div className="p-8 text-center text-gray-500 bg-white rounded-lg shadow">
+          {scope === 'active' ? '배정된 배송이 없습니다.' : '완료한 배송이 없습니다.'}
+        </div>
+      ) : (
+        orders.map(order => {
+          const next = DRIVER_NEXT_STEP[order.status];
+          const address = [order.receiver_address, order.receiver_detail_address].filter(Boolean).join(' ');
+          return (
+            <div key={order.id} className="bg-white rounded-lg shadow p-4 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-lg font-semibold text-gray-900">{order.receiver_name}</p>
+                  <p className="text-xs font-mono text-gray-500">{order.tracking_number || `주문 #${order.id}`}</p>
+                </div>
+                <div className="shrink-0">
+                  <OrderStatusBadge status={order.status} size="md" />
+                </div>
+              </div>
+
+              <a
+                href={`https://map.kakao.com/?q=${encodeURIComponent(order.receiver_address)}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-start gap-2 text-gray-800"
+              >
+                <MapPin className="w-5 h-5 mt-0.5 shrink-0 text-red-500" />
+                <span>
+                  {address}
+                  <span className="ml-1 text-sm text-gray-500">({order.receiver_zipcode})</span>
+                </span>
+              </a>
+
+              <a href={`tel:${order.receiver_phone}`} className="flex items-center gap-2 text-blue-700">
+                <Phone className="w-5 h-5 shrink-0" />
+                {order.receiver_phone}
+              </a>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                <Package className="w-4 h-4" />
+                {[
+                  order.package_type,
+                  getOrderPackages(order).length > 1 && `${getOrderPackages(order).length}개`,
+                  order.package_weight && `${order.package_weight}kg`,
+                  order.package_description
+                ].filter(Boolean).join(' · ')}
+                {order.is_fragile && (
+                  <span className="flex items-center gap-1 text-orange-600"><AlertTriangle className="w-4 h-4" />취급주의</span>
+                )}
+                {order.is_frozen && (
+                  <span className="flex items-center gap-1 text-blue-600"><Snowflake className="w-4 h-4" />냉동</span>
+                )}
+                {order.requires_signature && (
+                  <span className="flex items-center gap-1 text-green-700"><FileText className="w-4 h-4" />서명필요</span>
+                )}
+              </div>
+
+              {order.delivery_memo && (
+                <p className="p-2 text-sm text-gray-700 bg-yellow-50 rounded">요청사항: {order.delivery_memo}</p>
+              )}
+
+              {next ? (
+                <>
+                  <input
+                    type="text"
+                    value={locationNotes[order.id] ?? order.delivery_location_note ?? ''}
+                    onChange={(e) => setLocationNotes(prev => ({ ...prev, [order.id]: e.target.value }))}
+                    placeholder="배송 위치 메모 (예: 경비실 보관, 문 앞)"
+                    className="w-full px-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    onClick={() => handleAdvance(order)}
+                    disabled={processingId === order.id}
+                    className={`w-full py-4 text-lg font-semibold text-white rounded-lg transition-colors touch-manipulation disabled:opacity-50 ${next.className}`}
+                  >
+                    {processingId === order.id ? '처리 중...' : next.label}
+                  </button>
+                </>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-green-700">
+                  <CheckCircle className="w-5 h-5" />
+                  {order.delivery_location_note ? `배송 위치: ${order.delivery_location_note}` : '처리 완료'}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      {proofOrder && (
+        <ProofOfDeliveryModal
+          order={proofOrder}
+          onClose={() => setProofOrder(null)}
+          onCompleted={() => handleAdvance(proofOrder)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MyDeliveriesPage;
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Printer, AlertTriangle } from 'lucide-react';
+import type { ShippingOrder, ShippingPackage } from '../../types';
+import { getOrderPackages } from '../../utils/packages';
+import ShippingLabel from './ShippingLabel';
+
+type LabelLayout = 'a6' | 'a4';
+
+interface LabelPrintDialogProps {
+  orders: ShippingOrder[];
+  onClose: () => void;
+}
+
+/** A4 한 장에 배치하는 라벨 수 (2열 × 2행) */
+const LABELS_PER_A4 = 4;
+
+const LAYOUT_OPTIONS: { value: LabelLayout; label: string; description: string }[] = [
+  { value: 'a6', label: 'A6 라벨 (100×150mm)', description: '라벨 프린터용, 한 장에 1매' },
+  { value: 'a4', label: 'A4 용지 4면', description: '일반 프린터용, 한 장에 4매' }
+];
+
+const PAGE_STYLES: Record<LabelLayout, string> = {
+  a6: '@page { size: 100mm 150mm; margin: 0; }',
+  a4: '@page { size: A4; margin: 0; }'
+};
+
+/** 인쇄할 라벨 한 장 (화물이 여러 개인 주문은 화물마다 한 장) */
+interface LabelItem {
+  key: string;
+  order: ShippingOrder;
+  parcel?: { package: ShippingPackage; index: number; total: number };
+}
+
+const toLabelItems = (orders: ShippingOrder[]): LabelItem[] =>
+  orders.flatMap(order => {
+    const packages = getOrderPackages(order);
+    if (packages.length === 1) return [{ key: String(order.id), order }];
+    return packages.map((pkg, index) => ({
+      key: `${order.id}-${index}`,
+      order,
+      parcel: { package: pkg, index, total: packages.length }
+    }));
+  });
+
+const chunk = <T,>(items: T[], size: number): T[][] => {
+  const pages: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    pages.push(items.slice(i, i + size));
+  }
+  return pages;
+};
+
+/**
+ * 인쇄용 페이지 렌더링
+ * A6는 라벨 하나가 한 페이지, A4는 105×148.5mm 칸 네 개에 라벨을 배치
+ */
+const LabelPages: React.FC<{ labels: LabelItem[]; layout: LabelLayout }> = ({ labels, layout }) => {
+  if (layout === 'a6') {
+    return (
+      <>
+        {labels.map(label => (
+          <div key={label.key} style={{ breakAfter: 'page' }}>
+            <ShippingLabel order={label.order} parcel={label.parcel} />
+          </div>
+        ))}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {chunk(labels, LABELS_PER_A4).map((pageLabels, pageIndex) => (
+        <div
+          key={pageIndex}
+          className="grid grid-cols-2 bg-white"
+          style={{ width: '210mm', height: '297mm', gridTemplateRows: 'repeat(2, 148.5mm)', breakAfter: 'page' }}
+        >
+          {pageLabels.map(label => (
+            <div key={label.key} className="flex items-center justify-center">
+              <ShippingLabel order={label.order} parcel={label.parcel} heightMm={140} />
+            </div>
+          ))}
+        </div>
+      ))}
+    </>
+  );
+};
+
+/**
+ * 배송 라벨 인쇄 대화상자
+ * 주문 상세 모달(단건)과 대시보드 선택 주문(다건)에서 공통으로 사용하며,
+ * 운송장 번호가 없는 주문은 바코드를 만들 수 없으므로 인쇄 대상에서 제외
+ * 화물이 여러 개인 주문은 화물마다 라벨을 한 장씩 인쇄
+ */
+const LabelPrintDialog: React.FC<LabelPrintDialogProps> = ({ orders, onClose }) => {
+  const [layout, setLayout] = useState<LabelLayout>('a6');
+
+  const printableOrders = orders.filter(order => order.tracking_number);
+  const skippedCount = orders.length - printableOrders.length;
+  const labels = toLabelItems(printableOrders);
+
+  const handlePrint = () => {
+    // 인쇄하는 동안만 앱 화면을 숨기고 라벨 영역만 출력 (index.css 참고)
+    document.body.classList.add('label-printing');
+    window.print();
+    document.body.classList.remove('label-printing');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        {/* 배경 오버레이 */}
+        <div
+          className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity"
+          onClick={onClose}
+        ></div>
+
+        {/* 모달 컨테이너 */}
+        <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full">
+          <div className="flex items-center justify-between px-6 py-4 border-b">
+            <div className="flex items-center gap-2">
+              <Printer className="w-5 h-5 text-blue-600" />
+              <h3 className="text-lg font-semibold text-gray-900">라벨 인쇄</h3>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="px-6 py-4 space-y-4">
+            {/* 용지 선택 */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {LAYOUT_OPTIONS.map(option => (
+                <label
+                  key={option.value}
+                  className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer ${
+                    layout === option.value ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="label-layout"
+                    value={option.value}
+                    checked={layout === option.value}
+                    onChange={() => setLayout(option.value)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{option.label}</div>
+                    <div className="text-xs text-gray-500">{option.description}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            {skippedCount > 0 && (
+              <div className="flex items-center gap-2 p-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                운송장 번호가 없는 주문 {skippedCount}건은 제외됩니다. 먼저 운송장을 할당해주세요.
+              </div>
+            )}
+
+            {/* 미리보기 */}
+            <div className="max-h-[60vh] overflow-auto p-4 bg-gray-100 rounded-lg">
+              {labels.length === 0 ? (
+                <div className="py-8 text-center text-sm text-gray-500">인쇄할 라벨이 없습니다.</div>
+              ) : (
+                <div className="flex flex-wrap justify-center gap-4">
+                  {labels.map(label => (
+                    <div key={label.key} className="shadow">
+                      <ShippingLabel order={label.order} parcel={label.parcel} heightMm={layout === 'a6' ? 150 : 140} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3 px-6 py-4 border-t bg-gray-50">
+            <span className="text-sm text-gray-600">
+              {labels.length}매
+              {labels.length > printableOrders.length && ` (주문 ${printableOrders.length}건)`}
+              {layout === 'a4' && labels.length > 0 && ` (A4 ${Math.ceil(labels.length / LABELS_PER_A4)}장)`}
+            </span>
+            <div className="flex gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                닫기
+              </button>
+              <button
+                onClick={handlePrint}
+                disabled={labels.length === 0}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+              >
+                <Printer className="w-4 h-4" />
+                인쇄
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* 인쇄 전용 영역 (화면에는 보이지 않음) */}
+      {createPortal(
+        <div className="label-print-root">
+          <style>{PAGE_STYLES[layout]}</style>
+          <LabelPages labels={labels} layout={layout} />
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default LabelPrintDialog;
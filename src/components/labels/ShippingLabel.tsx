@@ -0,0 +1,147 @@
+import React from 'react';
+import type { ShippingOrder, ShippingPackage } from '../../types';
+import { encodeCode128 } from '../../utils/barcode';
+import QrCode from '../common/QrCode';
+
+interface ShippingLabelProps {
+  order: ShippingOrder;
+  /** 화물이 여러 개인 주문에서 이 라벨이 붙을 화물 (없으면 주문 단위 라벨) */
+  parcel?: { package: ShippingPackage; index: number; total: number };
+  /** 라벨 높이 (mm). A6 단면은 150, A4 4면 배치는 용지에 맞춰 줄여서 사용 */
+  heightMm?: number;
+}
+
+/** 라벨 폭 (mm) */
+const LABEL_WIDTH_MM = 100;
+
+/**
+ * Code128 바코드 SVG (양쪽 여백 10모듈 포함)
+ */
+const Code128Svg: React.FC<{ value: string }> = ({ value }) => {
+  let encoded;
+  try {
+    encoded = encodeCode128(value);
+  } catch {
+    return <div className="text-xs text-red-600">바코드를 생성할 수 없는 운송장 번호입니다</div>;
+  }
+
+  const quietZone = 10;
+  return (
+    <svg
+      viewBox={`0 0 ${encoded.width + quietZone * 2} 40`}
+      preserveAspectRatio="none"
+      style={{ width: '100%', height: '16mm', display: 'block' }}
+      shapeRendering="crispEdges"
+    >
+      {encoded.bars.map(bar => (
+        <rect key={bar.x} x={bar.x + quietZone} y={0} width={bar.width} height={40} fill="#000" />
+      ))}
+    </svg>
+  );
+};
+
+const formatAddress = (address: string, detail?: string) => (detail ? `${address} ${detail}` : address);
+
+/**
+ * 배송 라벨 (운송장)
+ * 인쇄용이므로 흑백 고대비로 그리고, 크기는 모두 mm 단위로 지정
+ */
+const ShippingLabel: React.FC<ShippingLabelProps> = ({ order, parcel, heightMm = 150 }) => {
+  // 화물별 운송장 번호가 없으면 주문 운송장 번호 사용
+  const trackingNumber = parcel?.package.tracking_number || order.tracking_number;
+  const pkg = parcel?.package ?? order;
+  const markers = [
+    order.is_fragile && '취급주의',
+    order.is_frozen && '냉동',
+    order.requires_signature && '서명필요'
+  ].filter(Boolean) as string[];
+
+  return (
+    <div
+      className="flex flex-col bg-white text-black border border-black overflow-hidden"
+      style={{ width: `${LABEL_WIDTH_MM}mm`, height: `${heightMm}mm`, boxSizing: 'border-box', fontSize: '9pt' }}
+    >
+      {/* 헤더: 택배사, 배송 유형, 특수 표시 */}
+      <div className="flex items-center justify-between px-2 py-1 border-b border-black">
+        <span className="font-bold" style={{ fontSize: '11pt' }}>{order.tracking_company || '택배'}</span>
+        <div className="flex items-center gap-1">
+          {parcel && (
+            <span className="px-1 font-bold border border-black">{parcel.index + 1}/{parcel.total}</span>
+          )}
+          {markers.map(marker => (
+            <span key={marker} className="px-1 font-bold text-white bg-black" style={{ fontSize: '9pt' }}>
+              {marker}
+            </span>
+          ))}
+          {order.delivery_type && (
+            <span className="px-1 font-bold border border-black">{order.delivery_type}</span>
+          )}
+        </div>
+      </div>
+
+      {/* 운송장 바코드 */}
+      <div className="px-3 pt-2 pb-1 border-b border-black">
+        {trackingNumber ? (
+          <>
+            <Code128Svg value={trackingNumber} />
+            <div className="text-center font-mono font-bold tracking-widest" style={{ fontSize: '12pt' }}>
+              {trackingNumber}
+            </div>
+          </>
+        ) : (
+          <div className="py-4 text-center font-bold">운송장 미할당</div>
+        )}
+      </div>
+
+      {/* 받는 분 */}
+      <div className="flex-1 px-2 py-1 border-b border-black min-h-0">
+        <div className="flex items-baseline justify-between">
+          <span className="font-bold">받는 분</span>
+          <span className="font-mono font-bold" style={{ fontSize: '16pt' }}>{order.receiver_zipcode}</span>
+        </div>
+        <div className="font-bold" style={{ fontSize: '14pt' }}>
+          {order.receiver_name}
+          {order.receiver_company && <span className="ml-1 font-normal" style={{ fontSize: '9pt' }}>({order.receiver_company})</span>}
+        </div>
+        <div>{order.receiver_phone}</div>
+        <div className="font-bold" style={{ fontSize: '11pt' }}>
+          {formatAddress(order.receiver_address, order.receiver_detail_address)}
+        </div>
+        {order.delivery_memo && <div className="mt-1">메모: {order.delivery_memo}</div>}
+      </div>
+
+      {/* 보내는 분 */}
+      <div className="px-2 py-1 border-b border-black">
+        <div className="flex items-baseline justify-between">
+          <span className="font-bold">보내는 분</span>
+          <span className="font-mono">{order.sender_zipcode}</span>
+        </div>
+        <div>
+          {order.sender_name}
+          {order.sender_company && ` (${order.sender_company})`} · {order.sender_phone}
+        </div>
+        <div>{formatAddress(order.sender_address, order.sender_detail_address)}</div>
+      </div>
+
+      {/* 물품 정보와 QR 코드 */}
+      <div className="flex items-end justify-between gap-2 px-2 py-1">
+        <div className="min-w-0">
+          <div>
+            {pkg.package_type || '소포'}
+            {pkg.package_weight ? ` · ${pkg.package_weight}kg` : ''}
+            {pkg.package_size ? ` · ${pkg.package_size}` : ''}
+          </div>
+          {pkg.package_description && <div className="truncate">{pkg.package_description}</div>}
+          <div>
+            주문번호 {order.id}
+            {parcel && parcel.package.tracking_number && order.tracking_number && ` (${order.tracking_number})`}
+            {' '}· 접수 {new Date(order.created_at).toLocaleDateString('ko-KR')}
+          </div>
+        </div>
+        {trackingNumber && <QrCode value={trackingNumber} size="22mm" />}
+      </div>
+    </div>
+  );
+};
+
+export default ShippingLabel;
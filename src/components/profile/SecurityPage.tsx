@@ -0,0 +1,383 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ShieldCheck, ShieldAlert, KeyRound, Copy, Download, RefreshCw } from 'lucide-react';
+import { twoFactorAPI, getErrorMessage } from '../../services/api';
+import { useAuth } from '../../hooks/useAuth';
+import { getRoleInfo } from '../../utils/permissions';
+import type { TwoFactorEnrollment, TwoFactorStatus } from '../../types';
+import QrCode from '../common/QrCode';
+
+/** 인증 코드가 필요한 작업 (해제, 백업 코드 재발급) */
+type CodeAction = 'disable' | 'regenerate';
+
+const CODE_ACTION_LABELS: Record<CodeAction, { title: string; button: string; allowBackupCode: boolean }> = {
+  disable: { title: '2단계 인증 해제', button: '해제', allowBackupCode: true },
+  regenerate: { title: '백업 코드 재발급', button: '재발급', allowBackupCode: false }
+};
+
+const inputClassName =
+  'w-40 px-3 py-2 border border-gray-300 rounded-lg font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * 내 계정 보안 설정
+ * 2단계 인증(TOTP) 등록 — QR 코드를 인증 앱으로 찍고 코드를 확인하면 백업 코드를 한 번 보여줌
+ * 등록 후에는 현재 코드를 다시 확인해서 해제하거나 백업 코드를 재발급
+ */
+const SecurityPage: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      setStatus(await twoFactorAPI.getStatus());
+    } catch (err) {
+      console.error('2단계 인증 상태 조회 실패:', err);
+      setError(getErrorMessage(err, '2단계 인증 상태를 불러오지 못했습니다.'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const resetCodeInput = () => {
+    setCode('');
+    setError('');
+  };
+
+  const handleStartEnrollment = async () => {
+    try {
+      setIsSubmitting(true);
+      resetCodeInput();
+      setNotice('');
+      setEnrollment(await twoFactorAPI.startEnrollment());
+    } catch (err) {
+      setError(getErrorMessage(err, '2단계 인증 등록을 시작하지 못했습니다.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setIsSubmitting(true);
+      setError('');
+      const result = await twoFactorAPI.confirmEnrollment(code.trim());
+      setEnrollment(null);
+      setCode('');
+      setBackupCodes(result.backup_codes);
+      setNotice('2단계 인증이 설정되었습니다. 다음 로그인부터 인증 코드를 입력합니다.');
+      await fetchStatus();
+      // 필수 정책 대상이면 다른 화면 이용 제한이 풀리도록 내 정보 갱신
+      await refreshUser();
+    } catch (err) {
+      setError(getErrorMessage(err, '인증 코드 확인에 실패했습니다.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCodeAction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codeAction) return;
+    try {
+      setIsSubmitting(true);
+      setError('');
+      if (codeAction === 'disable') {
+        await twoFactorAPI.disable(code.trim());
+        setBackupCodes(null);
+        setNotice('2단계 인증이 해제되었습니다.');
+        await refreshUser();
+      } else {
+        const result = await twoFactorAPI.regenerateBackupCodes(code.trim());
+        setBackupCodes(result.backup_codes);
+        setNotice('새 백업 코드가 발급되었습니다. 이전 백업 코드는 더 이상 사용할 수 없습니다.');
+      }
+      setCodeAction(null);
+      setCode('');
+      await fetchStatus();
+    } catch (err) {
+      setError(getErrorMessage(err, '인증 코드 확인에 실패했습니다.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCopyBackupCodes = async () => {
+    if (!backupCodes) return;
+    try {
+      await navigator.clipboard.writeText(backupCodes.join('\n'));
+      setNotice('백업 코드를 복사했습니다.');
+    } catch {
+      setError('클립보드에 복사하지 못했습니다. 코드를 직접 적어 두세요.');
+    }
+  };
+
+  const handleDownloadBackupCodes = () => {
+    if (!backupCodes) return;
+    const content = [
+      '배송접수 시스템 2단계 인증 백업 코드',
+      `계정: ${user?.username ?? ''}`,
+      '각 코드는 한 번만 사용할 수 있습니다.',
+      '',
+      ...backupCodes
+    ].join('\n');
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([content], { type: 'text/plain;charset=utf-8' }));
+    link.download = 'backup-codes.txt';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">보안 설정을 불러오는 중...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const roleInfo = getRoleInfo(user?.role);
+  // 정책상 필수인데 아직 등록하지 않은 경우 (다른 화면은 등록 후 이용 가능)
+  const mustEnroll = !!status?.required && !status.enabled;
+
+  return (
+    <div className="space-y-6">
+      {/* 헤더 */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center gap-3">
+          <ShieldCheck className="w-8 h-8 text-blue-500" />
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">보안 설정</h2>
+            <p className="text-gray-600">
+              {user?.name}님 (@{user?.username}) · {roleInfo.label}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {mustEnroll && (
+        <div className="flex items-start gap-3 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <ShieldAlert className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-yellow-800">
+            관리자 정책에 따라 {roleInfo.label} 계정은 2단계 인증이 필수입니다. 등록을 마치면 다른 화면을 이용할 수 있습니다.
+          </p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="p-3 text-sm text-green-800 bg-green-50 border border-green-200 rounded-lg">{notice}</div>
+      )}
+      {error && (
+        <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">{error}</div>
+      )}
+
+      {/* 2단계 인증 */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <div className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5 text-blue-500" />
+              <h3 className="text-lg font-semibold text-gray-900">2단계 인증 (인증 앱)</h3>
+              <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                status?.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+              }`}>
+                {status?.enabled ? '사용 중' : '사용 안 함'}
+              </span>
+            </div>
+            <p className="mt-1 text-sm text-gray-600">
+              로그인할 때 비밀번호와 함께 Google Authenticator 등 인증 앱의 6자리 코드를 확인합니다.
+            </p>
+            {status?.enabled && status.backup_codes_remaining !== undefined && (
+              <p className="mt-1 text-sm text-gray-500">남은 백업 코드 {status.backup_codes_remaining}개</p>
+            )}
+          </div>
+
+          {!status?.enabled && !enrollment && (
+            <button
+              onClick={handleStartEnrollment}
+              disabled={isSubmitting}
+              className="flex items-center justify-center gap-2 px-4 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+            >
+              <ShieldCheck className="w-5 h-5" />
+              2단계 인증 설정
+            </button>
+          )}
+
+          {status?.enabled && !codeAction && (
+            <div className="flex gap-2">
+              <button
+                onClick={() => {
+                  resetCodeInput();
+                  setCodeAction('regenerate');
+                }}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                <RefreshCw className="w-4 h-4" />
+                백업 코드 재발급
+              </button>
+              {!status.required && (
+                <button
+                  onClick={() => {
+                    resetCodeInput();
+                    setCodeAction('disable');
+                  }}
+                  className="px-4 py-2 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                >
+                  해제
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* 등록: QR 코드 → 코드 확인 */}
+        {enrollment && (
+          <form onSubmit={handleConfirmEnrollment} className="flex flex-col md:flex-row gap-6 p-4 border rounded-lg bg-gray-50">
+            <div className="flex-shrink-0 self-center p-2 bg-white border rounded-lg">
+              <QrCode value={enrollment.otpauth_url} size="180px" title="인증 앱 등록 QR 코드" />
+            </div>
+            <div className="flex-1 space-y-3 text-sm">
+              <ol className="list-decimal list-inside space-y-1 text-gray-700">
+                <li>휴대폰의 인증 앱에서 계정 추가를 누르고 QR 코드를 찍으세요.</li>
+                <li>QR 코드를 찍을 수 없으면 아래 설정 키를 직접 입력하세요.</li>
+                <li>인증 앱에 표시된 6자리 코드를 입력해 등록을 마치세요.</li>
+              </ol>
+              <div>
+                <span className="text-gray-500">설정 키</span>
+                <p className="font-mono text-gray-900 break-all select-all">
+                  {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                  className={inputClassName}
+                  placeholder="123456"
+                />
+                <button
+                  type="submit"
+                  disabled={code.length !== 6 || isSubmitting}
+                  className="px-4 py-2 text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+                >
+                  {isSubmitting ? '확인 중...' : '등록'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEnrollment(null);
+                    resetCodeInput();
+                  }}
+                  className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-white"
+                >
+                  취소
+                </button>
+              </div>
+            </div>
+          </form>
+        )}
+
+        {/* 해제·백업 코드 재발급: 현재 코드 확인 */}
+        {codeAction && (
+          <form onSubmit={handleCodeAction} className="p-4 border rounded-lg bg-gray-50 space-y-3 text-sm">
+            <p className="font-medium text-gray-900">{CODE_ACTION_LABELS[codeAction].title}</p>
+            <p className="text-gray-600">
+              인증 앱의 현재 코드를 입력하세요.
+              {CODE_ACTION_LABELS[codeAction].allowBackupCode && ' 휴대폰을 사용할 수 없으면 백업 코드를 입력할 수 있습니다.'}
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={inputClassName}
+                placeholder="123456"
+              />
+              <button
+                type="submit"
+                disabled={!code.trim() || isSubmitting}
+                className={`px-4 py-2 text-white rounded-lg disabled:opacity-50 ${
+                  codeAction === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {isSubmitting ? '확인 중...' : CODE_ACTION_LABELS[codeAction].button}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setCodeAction(null);
+                  resetCodeInput();
+                }}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-white"
+              >
+                취소
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* 새로 발급된 백업 코드 (이 화면을 떠나면 다시 볼 수 없음) */}
+        {backupCodes && (
+          <div className="p-4 border border-yellow-200 rounded-lg bg-yellow-50 space-y-3">
+            <div>
+              <p className="font-medium text-gray-900">백업 코드</p>
+              <p className="text-sm text-gray-700">
+                휴대폰을 잃어버렸을 때 인증 코드 대신 사용할 수 있습니다. 각 코드는 한 번만 쓸 수 있고 지금만 표시되니 안전한 곳에 보관하세요.
+              </p>
+            </div>
+            <ul className="grid grid-cols-2 sm:grid-cols-5 gap-2 font-mono text-sm">
+              {backupCodes.map(backupCode => (
+                <li key={backupCode} className="px-2 py-1 text-center bg-white border rounded">{backupCode}</li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <button
+                onClick={handleCopyBackupCodes}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                <Copy className="w-4 h-4" />
+                복사
+              </button>
+              <button
+                onClick={handleDownloadBackupCodes}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                <Download className="w-4 h-4" />
+                파일로 저장
+              </button>
+              <button
+                onClick={() => setBackupCodes(null)}
+                className="px-3 py-2 text-sm text-gray-700 hover:text-gray-900"
+              >
+                보관했습니다
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecurityPage;
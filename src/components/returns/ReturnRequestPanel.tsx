@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { RotateCcw, Link2, CheckCircle, XCircle } from 'lucide-react';
+import type { ReturnRequest, ReturnRequestStatus, ShippingOrder } from '../../types';
+import { returnsAPI, getErrorMessage } from '../../services/api';
+import { useAuth } from '../../hooks/useAuth';
+import { usePermission } from '../../hooks/usePermission';
+import PhotoPicker from '../delivery/PhotoPicker';
+import { getTrackingPath } from '../../utils/routes';
+
+interface ReturnRequestPanelProps {
+  order: ShippingOrder;
+  /** 반품 요청/승인/거절 후 목록 새로고침용 */
+  onChanged?: () => void;
+  /** 연결된 주문(원 주문/회수 주문) 열기 */
+  onOpenOrder?: (orderId: number) => void;
+}
+
+/** 반품 요청에 첨부할 수 있는 최대 사진 수 */
+const MAX_RETURN_PHOTOS = 5;
+
+const RETURN_STATUS_LABELS: Record<ReturnRequestStatus, { label: string; className: string }> = {
+  requested: { label: '승인 대기', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: '승인됨', className: 'bg-green-100 text-green-800' },
+  rejected: { label: '거절됨', className: 'bg-gray-100 text-gray-700' }
+};
+
+/**
+ * 반품(반송) 요청 패널
+ * 배송완료 주문에 사유/사진으로 반품을 요청하고, 관리자는 승인(회수 주문 생성) 또는 거절
+ * 원 주문과 회수 주문은 서로 연결해서 표시
+ */
+const ReturnRequestPanel: React.FC<ReturnRequestPanelProps> = ({ order, onChanged, onOpenOrder }) => {
+  const { user } = useAuth();
+  const canReview = usePermission('returns.review');
+  const canUpdateStatus = usePermission('orders.update_status');
+  const [returnRequest, setReturnRequest] = useState<ReturnRequest | null>(order.return_request ?? null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [rejectReason, setRejectReason] = useState('');
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState('');
+
+  // 거절된 요청은 다시 요청할 수 있음
+  const canRequest = order.status === '배송완료' && !order.original_order_id &&
+    (!returnRequest || returnRequest.status === 'rejected') &&
+    (order.user_id === user?.id || canUpdateStatus);
+
+  // 회수 주문도 아니고, 요청도 없고, 요청할 수도 없으면 표시하지 않음
+  if (!order.original_order_id && !returnRequest && !canRequest) return null;
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setIsProcessing(true);
+      setError('');
+      await action();
+      onChanged?.();
+    } catch (err) {
+      setError(getErrorMessage(err, fallback));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const handleRequest = () => run(async () => {
+    const response = await returnsAPI.requestReturn(order.id, { reason: reason.trim(), photos });
+    setReturnRequest(response.returnRequest);
+    setIsFormOpen(false);
+    setReason('');
+    setPhotos([]);
+  }, '반품 요청에 실패했습니다.');
+
+  const handleApprove = (request: ReturnRequest) => {
+    if (!window.confirm('반품을 승인하면 발송인과 수취인을 바꾼 회수 주문이 새 운송장 번호로 생성됩니다. 승인하시겠습니까?')) return;
+    run(async () => {
+      const response = await returnsAPI.approveReturn(request.id);
+      setReturnRequest(response.returnRequest);
+    }, '반품 승인에 실패했습니다.');
+  };
+
+  const handleReject = (request: ReturnRequest) => run(async () => {
+    const response = await returnsAPI.rejectReturn(request.id, rejectReason.trim());
+    setReturnRequest(response.returnRequest);
+    setIsRejecting(false);
+    setRejectReason('');
+  }, '반품 거절에 실패했습니다.');
+
+  const renderOrderLink = (orderId: number, trackingNumber: string | null | undefined, label: string) => (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <Link2 className="w-4 h-4 text-gray-500" />
+      <span className="text-gray-600">{label}</span>
+      {onOpenOrder ? (
+        <button onClick={() => onOpenOrder(orderId)} className="font-medium text-blue-600 hover:underline">
+          주문 #{orderId}
+        </button>
+      ) : (
+        <span className="font-medium text-gray-900">주문 #{orderId}</span>
+      )}
+      {trackingNumber && (
+        <a
+          href={getTrackingPath(trackingNumber)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-mono text-xs text-blue-500 underline hover:text-blue-700"
+        >
+          {trackingNumber}
+        </a>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <RotateCcw className="w-5 h-5 text-red-500" />
+        <h4 className="text-lg font-semibold text-gray-900">반품</h4>
+      </div>
+
+      {/* 회수 주문이면 원 주문으로 연결 */}
+      {order.original_order_id && renderOrderLink(order.original_order_id, order.original_tracking_number, '반품 원 주문')}
+
+      {returnRequest && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${RETURN_STATUS_LABELS[returnRequest.status].className}`}>
+              {RETURN_STATUS_LABELS[returnRequest.status].label}
+            </span>
+            <span className="text-gray-500">
+              {new Date(returnRequest.created_at).toLocaleString('ko-KR')} 요청
+              {returnRequest.requested_by_name && ` · ${returnRequest.requested_by_name}`}
+            </span>
+          </div>
+          <p className="text-sm text-gray-800 bg-white border rounded px-3 py-2">{returnRequest.reason}</p>
+          {returnRequest.photo_urls.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {returnRequest.photo_urls.map((url, index) => (
+                <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                  <img src={url} alt={`반품 사진 ${index + 1}`} className="w-20 h-20 object-cover border rounded-lg hover:opacity-90" />
+                </a>
+              ))}
+            </div>
+          )}
+
+          {returnRequest.status === 'rejected' && returnRequest.reject_reason && (
+            <p className="text-sm text-gray-600">
+              거절 사유: {returnRequest.reject_reason}
+              {returnRequest.reviewed_by_name && ` (${returnRequest.reviewed_by_name})`}
+            </p>
+          )}
+
+          {returnRequest.status === 'approved' && returnRequest.return_order_id &&
+            renderOrderLink(returnRequest.return_order_id, returnRequest.return_tracking_number, '회수 주문')}
+
+          {/* 관리자 검토 */}
+          {returnRequest.status === 'requested' && canReview && (
+            isRejecting ? (
+              <div className="space-y-2">
+                <textarea
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  rows={2}
+                  placeholder="거절 사유를 입력하세요"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => setIsRejecting(false)}
+                    disabled={isProcessing}
+                    className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    돌아가기
+                  </button>
+                  <button
+                    onClick={() => handleReject(returnRequest)}
+                    disabled={isProcessing || !rejectReason.trim()}
+                    className="px-3 py-1.5 text-sm text-white bg-gray-700 rounded-md hover:bg-gray-800 disabled:bg-gray-400"
+                  >
+                    거절
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => setIsRejecting(true)}
+                  disabled={isProcessing}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  <XCircle className="w-4 h-4" />
+                  거절
+                </button>
+                <button
+                  onClick={() => handleApprove(returnRequest)}
+                  disabled={isProcessing}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-green-300"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  {isProcessing ? '처리 중...' : '승인 (회수 주문 생성)'}
+                </button>
+              </div>
+            )
+          )}
+        </div>
+      )}
+
+      {/* 반품 요청 */}
+      {canRequest && (
+        isFormOpen ? (
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">반품 사유 *</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+                placeholder="예: 상품 파손, 수취인 수령 거부"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">사진 (선택, 최대 {MAX_RETURN_PHOTOS}장)</label>
+              <PhotoPicker onChange={setPhotos} maxPhotos={MAX_RETURN_PHOTOS} disabled={isProcessing} />
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setIsFormOpen(false)}
+                disabled={isProcessing}
+                className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                취소
+              </button>
+              <button
+                onClick={handleRequest}
+                disabled={isProcessing || !reason.trim()}
+                className="px-3 py-1.5 text-sm text-white bg-red-600 rounded-md hover:bg-red-700 disabled:bg-red-300"
+              >
+                {isProcessing ? '요청 중...' : '반품 요청'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsFormOpen(true)}
+            className="flex items-center gap-2 px-3 py-2 text-sm text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50"
+          >
+            <RotateCcw className="w-4 h-4" />
+            {returnRequest?.status === 'rejected' ? '반품 다시 요청' : '반품 요청'}
+          </button>
+        )
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ReturnRequestPanel;
@@ -0,0 +1,389 @@
+import React, { useState } from 'react';
+import { Upload, FileSpreadsheet, Download, CheckCircle, AlertTriangle, ChevronLeft, RefreshCw } from 'lucide-react';
+import { shippingAPI, getErrorMessage } from '../../services/api';
+import type { ShippingOrderData } from '../../types';
+import { runWithConcurrency } from '../../utils/concurrency';
+import { downloadCsv } from '../../utils/csv';
+import { toDateString } from '../../utils/date';
+import { ORDER_FIELD_KEYS, ORDER_FIELD_LABELS, ORDER_FIELD_RULES } from './orderFields';
+import { readImportFile, guessColumnMapping, buildImportRow, getImportTemplateHeaders } from './bulkImport';
+import type { ColumnMapping, ImportRow } from './bulkImport';
+
+/** 동시에 보낼 배송접수 요청 수 */
+const SUBMIT_CONCURRENCY = 4;
+
+/** 미리보기 테이블에 표시할 최대 행 수 */
+const PREVIEW_ROW_LIMIT = 500;
+
+type ImportStep = 'upload' | 'mapping' | 'preview' | 'result';
+
+interface ImportFailure {
+  rowNumber: number;
+  raw: string[];
+  message: string;
+}
+
+interface BulkImportPageProps {
+  onComplete?: () => void;
+}
+
+/**
+ * 배송 일괄 접수 페이지
+ * CSV/XLSX 업로드 → 컬럼 매핑 → 행별 검증 미리보기 → 접수 → 실패 리포트 다운로드
+ */
+const BulkImportPage: React.FC<BulkImportPageProps> = ({ onComplete }) => {
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [importRows, setImportRows] = useState<ImportRow[]>([]);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [createdCount, setCreatedCount] = useState(0);
+  const [failures, setFailures] = useState<ImportFailure[]>([]);
+  const [error, setError] = useState('');
+
+  const validRows = importRows.filter(row => Object.keys(row.errors).length === 0);
+  const invalidRows = importRows.filter(row => Object.keys(row.errors).length > 0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setIsReading(true);
+      setError('');
+      const rows = await readImportFile(file);
+      if (rows.length < 2) {
+        setError('헤더와 최소 1개 이상의 데이터 행이 필요합니다.');
+        return;
+      }
+      setFileName(file.name);
+      setHeaders(rows[0]);
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0]));
+      setStep('mapping');
+    } catch (err) {
+      console.error('파일 읽기 실패:', err);
+      setError(err instanceof Error ? err.message : '파일을 읽을 수 없습니다.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingConfirm = () => {
+    if (!mapping) return;
+    // 헤더가 1행이므로 데이터는 2행부터
+    setImportRows(dataRows.map((raw, index) => buildImportRow(raw, index + 2, mapping)));
+    setStep('preview');
+  };
+
+  const handleSubmit = async () => {
+    if (validRows.length === 0) return;
+
+    setIsSubmitting(true);
+    setProgress({ completed: 0, total: validRows.length });
+
+    const results = await runWithConcurrency(
+      validRows,
+      SUBMIT_CONCURRENCY,
+      (row) => shippingAPI.createOrder(row.data),
+      (completed, total) => setProgress({ completed, total })
+    );
+
+    const validationFailures: ImportFailure[] = invalidRows.map(row => ({
+      rowNumber: row.rowNumber,
+      raw: row.raw,
+      message: Object.values(row.errors).join(', ')
+    }));
+    const submitFailures: ImportFailure[] = [];
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        submitFailures.push({
+          rowNumber: result.item.rowNumber,
+          raw: result.item.raw,
+          message: getErrorMessage(result.reason, '배송접수 처리 중 오류가 발생했습니다.')
+        });
+      }
+    });
+
+    setCreatedCount(results.length - submitFailures.length);
+    setFailures([...validationFailures, ...submitFailures].sort((a, b) => a.rowNumber - b.rowNumber));
+    setIsSubmitting(false);
+    setStep('result');
+  };
+
+  const handleDownloadReport = () => {
+    downloadCsv(
+      `import_failures_${toDateString(new Date())}.csv`,
+      [['행 번호', '오류', ...headers], ...failures.map(f => [f.rowNumber, f.message, ...f.raw])]
+    );
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadCsv('shipping_import_template.csv', [getImportTemplateHeaders()]);
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping(null);
+    setImportRows([]);
+    setFailures([]);
+    setCreatedCount(0);
+    setShowErrorsOnly(false);
+    setError('');
+  };
+
+  const renderUpload = () => (
+    <div className="space-y-6">
+      <label className="flex flex-col items-center justify-center gap-3 p-10 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 hover:bg-blue-50 transition-colors">
+        {isReading ? (
+          <RefreshCw className="w-10 h-10 text-blue-500 animate-spin" />
+        ) : (
+          <Upload className="w-10 h-10 text-gray-400" />
+        )}
+        <span className="text-gray-700 font-medium">
+          {isReading ? '파일을 읽는 중...' : 'CSV 또는 XLSX 파일을 선택하세요'}
+        </span>
+        <span className="text-sm text-gray-500">첫 행은 컬럼 이름(헤더)이어야 합니다</span>
+        <input type="file" accept=".csv,.xlsx" className="hidden" onChange={handleFileChange} disabled={isReading} />
+      </label>
+
+      <div className="flex justify-center">
+        <button
+          onClick={handleDownloadTemplate}
+          className="flex items-center gap-2 px-4 py-2 text-sm text-blue-600 border border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+        >
+          <Download className="w-4 h-4" />
+          양식 다운로드 (CSV)
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderMapping = () => mapping && (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        <strong>{fileName}</strong>: {dataRows.length.toLocaleString()}개 행. 각 항목에 해당하는 파일 컬럼을 선택하세요.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {ORDER_FIELD_KEYS.map(field => (
+          <div key={field} className="flex items-center gap-3">
+            <label className="w-36 text-sm font-medium text-gray-700 flex-shrink-0">
+              {ORDER_FIELD_LABELS[field]}
+              {ORDER_FIELD_RULES[field]?.required && <span className="text-red-500"> *</span>}
+            </label>
+            <select
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              value={mapping[field]}
+              onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+            >
+              <option value={-1}>(사용 안 함)</option>
+              {headers.map((header, index) => (
+                <option key={index} value={index}>{header || `${index + 1}번째 컬럼`}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-between">
+        <button
+          onClick={reset}
+          className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          다른 파일 선택
+        </button>
+        <button
+          onClick={handleMappingConfirm}
+          className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+        >
+          검증 미리보기
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderPreview = () => {
+    const rows = (showErrorsOnly ? invalidRows : importRows).slice(0, PREVIEW_ROW_LIMIT);
+    const getCell = (row: ImportRow, field: keyof ShippingOrderData) => {
+      const value = row.data[field];
+      return value === undefined || value === '' ? '-' : String(value);
+    };
+
+    return (
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <span className="inline-flex items-center gap-1 text-green-700">
+            <CheckCircle className="w-5 h-5" />
+            접수 가능 {validRows.length.toLocaleString()}건
+          </span>
+          <span className="inline-flex items-center gap-1 text-red-700">
+            <AlertTriangle className="w-5 h-5" />
+            오류 {invalidRows.length.toLocaleString()}건
+          </span>
+          <label className="flex items-center gap-2 text-sm text-gray-700 ml-auto">
+            <input
+              type="checkbox"
+              checked={showErrorsOnly}
+              onChange={(e) => setShowErrorsOnly(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            오류 행만 보기
+          </label>
+        </div>
+
+        <div className="overflow-x-auto border rounded-lg max-h-[28rem] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                {['행', '발송인', '수취인', '수취인 주소', '우편번호', '중량', '크기', '오류'].map(title => (
+                  <th key={title} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(row => {
+                const errorMessages = Object.values(row.errors);
+                return (
+                  <tr key={row.rowNumber} className={errorMessages.length > 0 ? 'bg-red-50' : ''}>
+                    <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                    <td className="px-3 py-2">{getCell(row, 'sender_name')}</td>
+                    <td className="px-3 py-2">{getCell(row, 'receiver_name')}</td>
+                    <td className="px-3 py-2">{getCell(row, 'receiver_address')}</td>
+                    <td className="px-3 py-2">{getCell(row, 'receiver_zipcode')}</td>
+                    <td className="px-3 py-2">{getCell(row, 'package_weight')}</td>
+                    <td className="px-3 py-2">{getCell(row, 'package_size')}</td>
+                    <td className="px-3 py-2 text-red-700">
+                      {errorMessages.length > 0 ? errorMessages.join(', ') : <CheckCircle className="w-4 h-4 text-green-500" />}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        {(showErrorsOnly ? invalidRows : importRows).length > PREVIEW_ROW_LIMIT && (
+          <p className="text-xs text-gray-500">처음 {PREVIEW_ROW_LIMIT}개 행만 표시합니다.</p>
+        )}
+
+        {isSubmitting && (
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>접수 처리 중...</span>
+              <span>{progress.completed} / {progress.total}</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-500 h-2 rounded-full transition-all"
+                style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <button
+            onClick={() => setStep('mapping')}
+            disabled={isSubmitting}
+            className="flex items-center gap-2 px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            매핑 수정
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || validRows.length === 0}
+            className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-blue-300 transition-colors"
+          >
+            {isSubmitting ? '접수 처리 중...' : `유효한 ${validRows.length.toLocaleString()}건 접수하기`}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderResult = () => (
+    <div className="space-y-6">
+      <div className={`p-6 rounded-lg border ${failures.length === 0 ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'}`}>
+        <div className="flex items-center gap-3">
+          {failures.length === 0 ? (
+            <CheckCircle className="w-8 h-8 text-green-500" />
+          ) : (
+            <AlertTriangle className="w-8 h-8 text-yellow-500" />
+          )}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">일괄 접수 완료</h3>
+            <p className="text-gray-700">
+              {createdCount.toLocaleString()}건 접수 성공
+              {failures.length > 0 && `, ${failures.length.toLocaleString()}건 실패`}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-3">
+        {failures.length > 0 && (
+          <button
+            onClick={handleDownloadReport}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            실패 리포트 다운로드
+          </button>
+        )}
+        <button
+          onClick={reset}
+          className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          새 파일 가져오기
+        </button>
+        {onComplete && (
+          <button
+            onClick={onComplete}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+          >
+            대시보드로 이동
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-xl font-semibold text-gray-800 mb-6 flex items-center gap-2">
+        <FileSpreadsheet className="w-6 h-6 text-green-600" />
+        {step === 'upload' && '파일 선택'}
+        {step === 'mapping' && '컬럼 매핑'}
+        {step === 'preview' && '검증 미리보기'}
+        {step === 'result' && '접수 결과'}
+      </h2>
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+          <AlertTriangle className="w-5 h-5 text-red-500 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {step === 'upload' && renderUpload()}
+      {step === 'mapping' && renderMapping()}
+      {step === 'preview' && renderPreview()}
+      {step === 'result' && renderResult()}
+    </div>
+  );
+};
+
+export default BulkImportPage;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { History, Trash2, X } from 'lucide-react';
+import type { OrderDraft } from '../../types';
+
+interface OrderDraftListProps {
+  drafts: OrderDraft[];
+  /** 현재 폼에서 이어 쓰고 있는 임시저장본 */
+  activeDraftId: string | null;
+  /** 폼을 열 때 자동으로 띄운 이어쓰기 안내인지 여부 */
+  isResumePrompt: boolean;
+  onResume: (draft: OrderDraft) => void;
+  onDiscard: (draft: OrderDraft) => void;
+  onClose: () => void;
+}
+
+const STEP_TITLES = ['발송인 정보', '수취인 정보', '배송 정보', '완료'];
+
+/**
+ * 작성 중인 배송접수 임시저장 목록
+ * 이어서 작성하거나 필요 없는 임시저장본을 삭제
+ */
+const OrderDraftList: React.FC<OrderDraftListProps> = ({
+  drafts,
+  activeDraftId,
+  isResumePrompt,
+  onResume,
+  onDiscard,
+  onClose
+}) => (
+  <div className="mb-4 bg-white border border-amber-200 rounded-lg shadow-sm">
+    <div className="flex items-center justify-between px-4 py-3 border-b border-amber-100 bg-amber-50 rounded-t-lg">
+      <div className="flex items-center gap-2">
+        <History className="w-4 h-4 text-amber-600" />
+        <span className="text-sm font-medium text-amber-900">
+          {isResumePrompt
+            ? `작성 중이던 배송접수가 ${drafts.length}건 있습니다. 이어서 작성하시겠습니까?`
+            : `임시저장된 배송접수 (${drafts.length})`}
+        </span>
+      </div>
+      <button type="button" onClick={onClose} className="p-1 text-amber-500 hover:text-amber-700" title="닫기">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+
+    {drafts.length === 0 ? (
+      <div className="p-4 text-sm text-center text-gray-500">임시저장된 배송접수가 없습니다.</div>
+    ) : (
+      <div className="max-h-72 overflow-y-auto divide-y">
+        {drafts.map(draft => (
+          <div key={draft.id} className="flex items-center gap-3 px-4 py-3">
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">
+                {[draft.data.sender_name, draft.data.receiver_name].filter(Boolean).join(' → ') || '이름 미입력'}
+                {draft.id === activeDraftId && <span className="ml-2 text-xs text-blue-600">작성 중</span>}
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                {STEP_TITLES[draft.currentStep - 1] ?? ''} 단계 · {new Date(draft.updatedAt).toLocaleString('ko-KR')} 저장
+              </div>
+            </div>
+            {draft.id !== activeDraftId && (
+              <button
+                type="button"
+                onClick={() => onResume(draft)}
+                className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 touch-manipulation"
+              >
+                이어서 작성
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => onDiscard(draft)}
+              className="p-2 text-gray-400 hover:text-red-600"
+              title="삭제"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    )}
+
+    {isResumePrompt && (
+      <div className="px-4 py-3 border-t text-right">
+        <button type="button" onClick={onClose} className="text-sm text-gray-600 hover:text-gray-800">
+          새로 작성하기
+        </button>
+      </div>
+    )}
+  </div>
+);
+
+export default OrderDraftList;
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Save } from 'lucide-react';
+import type { ShippingOrder, ShippingOrderData, ShippingQuoteInput } from '../../types';
+import { shippingAPI, getErrorMessage } from '../../services/api';
+import { useRateCard } from '../../hooks/useRateCard';
+import { calculateShippingQuote } from '../../utils/pricing';
+import { applyPackageSummary, getOrderPackages } from '../../utils/packages';
+import {
+  DELIVERY_TYPES,
+  NUMBER_FIELDS,
+  BOOLEAN_FIELDS,
+  ORDER_FIELD_LABELS,
+  ORDER_FIELD_RULES,
+  ORDER_FIELD_SECTIONS,
+  PACKAGE_FIELDS,
+  extractOrderFormData,
+  getOrderFieldChanges,
+  normalizeOrderFieldValue
+} from './orderFields';
+import ShippingQuoteSummary from './ShippingQuoteSummary';
+import PackageListEditor from './PackageListEditor';
+
+interface OrderEditFormProps {
+  order: ShippingOrder;
+  /** 저장 성공 시 수정된 주문과 함께 호출 */
+  onSaved: (order: ShippingOrder) => void;
+  onCancel: () => void;
+}
+
+/** 배송비 견적에 영향을 주는 필드 (바뀌면 배송비를 다시 계산) */
+const QUOTE_FIELDS: (keyof ShippingQuoteInput)[] = [
+  'sender_zipcode', 'receiver_zipcode', 'package_weight', 'package_size', 'delivery_type',
+  'is_fragile', 'is_frozen', 'requires_signature', 'insurance_amount', 'packages'
+];
+
+const TEXTAREA_FIELDS: (keyof ShippingOrderData)[] = ['delivery_memo', 'special_instructions'];
+
+/** 화물 목록 편집기로 입력하는 필드 */
+const isPackageField = (field: keyof ShippingOrderData) => (PACKAGE_FIELDS as (keyof ShippingOrderData)[]).includes(field);
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+/**
+ * 접수된 주문 수정 폼
+ * 배송접수 폼과 같은 필드 정의/검증 규칙을 사용하고, 바뀐 필드만 변경 내역과 함께 저장
+ */
+const OrderEditForm: React.FC<OrderEditFormProps> = ({ order, onSaved, onCancel }) => {
+  const { rateCard, isFallback } = useRateCard();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // 희망 배송일과 화물별 운송장 번호는 복제와 달리 기존 값을 그대로 유지
+  const defaultValues = useMemo(() => {
+    const formData = extractOrderFormData(order);
+    const trackingNumbers = getOrderPackages(order).map(pkg => pkg.tracking_number);
+    return {
+      ...formData,
+      delivery_date: order.delivery_date ? order.delivery_date.slice(0, 10) : undefined,
+      packages: formData.packages?.map((pkg, index) => ({ ...pkg, tracking_number: trackingNumbers[index] }))
+    };
+  }, [order]);
+
+  const { register, control, handleSubmit, watch, formState: { errors } } = useForm<ShippingOrderData>({ defaultValues });
+  const watchedValues = watch();
+
+  const changes = getOrderFieldChanges(defaultValues, applyPackageSummary(watchedValues));
+  const isQuoteChanged = changes.some(change => (QUOTE_FIELDS as string[]).includes(change.field));
+
+  const quoteResult = useMemo(() => calculateShippingQuote(rateCard, {
+    sender_zipcode: watchedValues.sender_zipcode,
+    receiver_zipcode: watchedValues.receiver_zipcode,
+    packages: watchedValues.packages,
+    delivery_type: watchedValues.delivery_type,
+    is_fragile: watchedValues.is_fragile,
+    is_frozen: watchedValues.is_frozen,
+    requires_signature: watchedValues.requires_signature,
+    insurance_amount: Number(watchedValues.insurance_amount) || 0
+  }), [
+    rateCard,
+    watchedValues.sender_zipcode,
+    watchedValues.receiver_zipcode,
+    watchedValues.packages,
+    watchedValues.delivery_type,
+    watchedValues.is_fragile,
+    watchedValues.is_frozen,
+    watchedValues.requires_signature,
+    watchedValues.insurance_amount
+  ]);
+
+  const onSubmit = async (formData: ShippingOrderData) => {
+    // 주문 단위 화물 필드는 화물 목록의 합계/대표값으로 맞춘 뒤 비교
+    const data = applyPackageSummary(formData);
+    const fieldChanges = getOrderFieldChanges(defaultValues, data);
+    if (fieldChanges.length === 0) {
+      onCancel();
+      return;
+    }
+
+    const changedData: Record<string, unknown> = {};
+    fieldChanges.forEach(change => {
+      changedData[change.field] = change.field === 'packages'
+        ? data.packages
+        : normalizeOrderFieldValue(change.field, data[change.field]);
+    });
+    const quote = isQuoteChanged ? quoteResult.quote : undefined;
+
+    try {
+      setIsSaving(true);
+      setError('');
+      const response = await shippingAPI.updateOrder(order.id, {
+        ...(changedData as Partial<ShippingOrderData>),
+        ...(quote && {
+          shipping_fee: quote.total,
+          shipping_fee_breakdown: quote.lines,
+          rate_card_version: quote.rate_card_version
+        })
+      }, fieldChanges);
+      onSaved(response.order);
+    } catch (err) {
+      setError(getErrorMessage(err, '주문 수정에 실패했습니다.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderField = (field: keyof ShippingOrderData) => {
+    const label = ORDER_FIELD_LABELS[field];
+    const rule = ORDER_FIELD_RULES[field];
+
+    if (BOOLEAN_FIELDS.includes(field)) {
+      return (
+        <label key={field} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input type="checkbox" {...register(field)} className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500" />
+          {label}
+        </label>
+      );
+    }
+
+    let input: React.ReactNode;
+    if (field === 'delivery_type') {
+      input = (
+        <select {...register(field, rule)} className={inputClass}>
+          {DELIVERY_TYPES.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    } else if (TEXTAREA_FIELDS.includes(field)) {
+      input = <textarea rows={2} {...register(field, rule)} className={inputClass} />;
+    } else {
+      input = (
+        <input
+          type={NUMBER_FIELDS.includes(field) ? 'number' : field === 'delivery_date' ? 'date' : 'text'}
+          min={NUMBER_FIELDS.includes(field) ? '0' : undefined}
+          maxLength={field.endsWith('_zipcode') ? 5 : undefined}
+          {...register(field, rule)}
+          className={inputClass}
+        />
+      );
+    }
+
+    return (
+      <div key={field} className={TEXTAREA_FIELDS.includes(field) ? 'sm:col-span-2' : ''}>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {label} {rule?.required && <span className="text-red-500">*</span>}
+        </label>
+        {input}
+        {errors[field] && <p className="mt-1 text-sm text-red-600">{errors[field]?.message}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {ORDER_FIELD_SECTIONS.map(section => (
+        <div key={section.title} className="bg-gray-50 rounded-lg p-6">
+          <h4 className="text-lg font-semibold text-gray-900 mb-4">{section.title}</h4>
+          {/* 화물별 필드는 화물 목록 편집기로 입력 */}
+          {section.fields.some(isPackageField) && (
+            <div className="mb-4">
+              <PackageListEditor control={control} register={register} errors={errors} inputClassName={inputClass} />
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {section.fields.filter(field => !isPackageField(field)).map(renderField)}
+          </div>
+        </div>
+      ))}
+
+      {isQuoteChanged && (
+        <div>
+          <p className="mb-2 text-sm text-gray-600">배송비에 영향을 주는 항목이 바뀌어 배송비를 다시 계산합니다.</p>
+          <ShippingQuoteSummary result={quoteResult} isFallback={isFallback} />
+        </div>
+      )}
+
+      {error && (
+        <p className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">{error}</p>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <span className="mr-auto text-sm text-gray-500">
+          {changes.length > 0 ? `${changes.length}개 항목 변경됨` : '변경된 항목이 없습니다'}
+        </span>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          수정 취소
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || changes.length === 0}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-blue-300"
+        >
+          <Save className="w-4 h-4" />
+          {isSaving ? '저장 중...' : '변경 내용 저장'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default OrderEditForm;
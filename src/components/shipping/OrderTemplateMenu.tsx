@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Save, Trash2, X } from 'lucide-react';
+import { templateAPI, getErrorMessage } from '../../services/api';
+import type { OrderTemplate, ShippingOrderData } from '../../types';
+
+interface OrderTemplateMenuProps {
+  /** 템플릿으로 저장할 현재 폼 입력값 */
+  getCurrentData: () => Partial<ShippingOrderData>;
+  onApply: (template: OrderTemplate) => void;
+}
+
+/**
+ * 배송접수 템플릿 메뉴
+ * 현재 입력값을 이름 붙여 저장하고, 저장한 템플릿으로 새 접수를 시작
+ */
+const OrderTemplateMenu: React.FC<OrderTemplateMenuProps> = ({ getCurrentData, onApply }) => {
+  const [templates, setTemplates] = useState<OrderTemplate[]>([]);
+  const [openPanel, setOpenPanel] = useState<'load' | 'save' | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await templateAPI.getTemplates();
+      setTemplates(response.templates || []);
+    } catch (error) {
+      console.error('템플릿 목록 조회 실패:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  const showMessage = (type: 'success' | 'error', text: string) => {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 3000);
+  };
+
+  const handleSave = async () => {
+    const name = templateName.trim();
+    if (!name) return;
+
+    try {
+      setIsSaving(true);
+      await templateAPI.createTemplate(name, getCurrentData());
+      setTemplateName('');
+      setOpenPanel(null);
+      showMessage('success', `"${name}" 템플릿을 저장했습니다.`);
+      fetchTemplates();
+    } catch (error) {
+      showMessage('error', getErrorMessage(error, '템플릿 저장에 실패했습니다.'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: OrderTemplate) => {
+    if (!window.confirm(`"${template.name}" 템플릿을 삭제하시겠습니까?`)) return;
+
+    try {
+      await templateAPI.deleteTemplate(template.id);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      showMessage('error', getErrorMessage(error, '템플릿 삭제에 실패했습니다.'));
+    }
+  };
+
+  const handleApply = (template: OrderTemplate) => {
+    onApply(template);
+    setOpenPanel(null);
+    showMessage('success', `"${template.name}" 템플릿을 불러왔습니다.`);
+  };
+
+  return (
+    <div className="relative mb-6">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {message && (
+          <span className={`mr-auto text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+            {message.text}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={() => setOpenPanel(openPanel === 'load' ? null : 'load')}
+          className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 touch-manipulation"
+        >
+          <FileText className="w-4 h-4" />
+          템플릿 불러오기
+          {templates.length > 0 && <span className="text-gray-400">({templates.length})</span>}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpenPanel(openPanel === 'save' ? null : 'save')}
+          className="flex items-center gap-2 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 touch-manipulation"
+        >
+          <Save className="w-4 h-4" />
+          템플릿으로 저장
+        </button>
+      </div>
+
+      {openPanel && (
+        <div className="absolute right-0 z-20 mt-2 w-80 sm:w-96 bg-white border border-gray-200 rounded-lg shadow-lg">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <span className="text-sm font-medium text-gray-900">
+              {openPanel === 'load' ? '저장된 템플릿' : '현재 입력값을 템플릿으로 저장'}
+            </span>
+            <button type="button" onClick={() => setOpenPanel(null)} className="p-1 text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          {openPanel === 'load' ? (
+            <div className="max-h-72 overflow-y-auto">
+              {templates.length === 0 ? (
+                <div className="p-4 text-sm text-center text-gray-500">저장된 템플릿이 없습니다.</div>
+              ) : (
+                templates.map(template => (
+                  <div key={template.id} className="flex items-center border-b last:border-b-0 hover:bg-gray-50">
+                    <button
+                      type="button"
+                      onClick={() => handleApply(template)}
+                      className="flex-1 min-w-0 px-4 py-3 text-left"
+                    >
+                      <div className="text-sm font-medium text-gray-900 truncate">{template.name}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {[template.data.receiver_name, template.data.package_type, template.data.package_weight && `${template.data.package_weight}kg`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(template)}
+                      className="p-3 text-gray-400 hover:text-red-600"
+                      title="삭제"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          ) : (
+            <div className="p-4 space-y-3">
+              <input
+                type="text"
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                    e.preventDefault();
+                    handleSave();
+                  }
+                }}
+                placeholder="템플릿 이름 (예: A거래처 주간 발송)"
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                autoFocus
+              />
+              <p className="text-xs text-gray-500">희망 배송일을 제외한 발송인·수취인·화물 정보가 저장됩니다.</p>
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={isSaving || !templateName.trim()}
+                className="w-full py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-blue-300"
+              >
+                {isSaving ? '저장 중...' : '저장'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderTemplateMenu;
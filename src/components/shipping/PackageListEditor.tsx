@@ -0,0 +1,144 @@
+import React from 'react';
+import { useFieldArray, useWatch } from 'react-hook-form';
+import type { Control, FieldErrors, UseFormRegister } from 'react-hook-form';
+import { Plus, Trash2, Copy } from 'lucide-react';
+import type { ShippingOrderData } from '../../types';
+import { PACKAGE_TYPES, ORDER_FIELD_RULES } from './orderFields';
+import { MAX_PACKAGES, summarizePackages } from '../../utils/packages';
+
+interface PackageListEditorProps {
+  control: Control<ShippingOrderData>;
+  register: UseFormRegister<ShippingOrderData>;
+  errors: FieldErrors<ShippingOrderData>;
+  /** 입력 필드 스타일 (접수 폼과 주문 수정 화면의 크기가 다름) */
+  inputClassName: string;
+}
+
+/**
+ * 화물 목록 편집기
+ * 화물마다 종류, 중량, 크기, 가액, 설명을 입력하고 추가/복제/삭제 (최소 1개)
+ * 배송접수 폼의 배송 정보 단계와 주문 수정 화면에서 공통으로 사용
+ */
+const PackageListEditor: React.FC<PackageListEditorProps> = ({ control, register, errors, inputClassName }) => {
+  const { fields, append, remove, insert } = useFieldArray({ control, name: 'packages' });
+  const packages = useWatch({ control, name: 'packages' }) || [];
+  const summary = summarizePackages(packages);
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field, index) => {
+        const packageErrors = errors.packages?.[index];
+        return (
+          <div key={field.id} className="p-4 bg-white border border-gray-200 rounded-lg">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-sm font-semibold text-gray-800">
+                화물 {index + 1}
+                {field.tracking_number && (
+                  <span className="ml-2 font-mono text-xs font-normal text-gray-500">{field.tracking_number}</span>
+                )}
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => insert(index + 1, { ...packages[index], tracking_number: undefined })}
+                  disabled={fields.length >= MAX_PACKAGES}
+                  className="p-1.5 text-gray-500 rounded hover:bg-gray-100 disabled:opacity-40"
+                  title="같은 화물 추가"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(index)}
+                  disabled={fields.length <= 1}
+                  className="p-1.5 text-red-500 rounded hover:bg-red-50 disabled:opacity-40"
+                  title="화물 삭제"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">화물 종류</label>
+                <select {...register(`packages.${index}.package_type`)} className={inputClassName}>
+                  {PACKAGE_TYPES.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  중량 (kg) <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  {...register(`packages.${index}.package_weight`, ORDER_FIELD_RULES.package_weight)}
+                  className={inputClassName}
+                  placeholder="중량을 입력하세요"
+                />
+                {packageErrors?.package_weight && <p className="mt-1 text-sm text-red-600">{packageErrors.package_weight.message}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  크기 (cm) <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  {...register(`packages.${index}.package_size`, ORDER_FIELD_RULES.package_size)}
+                  className={inputClassName}
+                  placeholder="예: 30x20x10"
+                />
+                {packageErrors?.package_size && <p className="mt-1 text-sm text-red-600">{packageErrors.package_size.message}</p>}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">화물 가액 (원)</label>
+                <input
+                  type="number"
+                  min="0"
+                  {...register(`packages.${index}.package_value`)}
+                  className={inputClassName}
+                  placeholder="화물 가액을 입력하세요"
+                />
+              </div>
+
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">화물 설명</label>
+                <input
+                  type="text"
+                  {...register(`packages.${index}.package_description`)}
+                  className={inputClassName}
+                  placeholder="화물에 대한 설명을 입력하세요"
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <button
+          type="button"
+          onClick={() => append({ package_type: '소포' })}
+          disabled={fields.length >= MAX_PACKAGES}
+          className="flex items-center gap-1 px-3 py-2 text-sm text-blue-600 bg-white border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4" />
+          화물 추가
+        </button>
+        <span className="text-sm text-gray-600">
+          총 {fields.length}개 · {summary.package_weight}kg
+          {summary.package_value ? ` · 가액 ${summary.package_value.toLocaleString()}원` : ''}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default PackageListEditor;
@@ -1,12 +1,26 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useForm } from 'react-hook-form';
 import { 
   User, Phone, Mail, Building, MapPin, Package, Truck, 
   Calendar, Clock, AlertTriangle, Snowflake, FileText, 
-  Shield, ChevronLeft, ChevronRight, Check
+  Shield, ChevronLeft, ChevronRight, Check, Search, History
 } from 'lucide-react';
-import { shippingAPI } from '../../services/api';
-import type { ShippingOrderData } from '../../types';
+import { shippingAPI, addressBookAPI } from '../../services/api';
+import { useAuth } from '../../hooks/useAuth';
+import { useRateCard } from '../../hooks/useRateCard';
+import type { ShippingOrderData, AddressBookEntry, AddressBookEntryType, AddressSearchResult, OrderTemplate, OrderDraft } from '../../types';
+import { DELIVERY_TYPES, ORDER_FIELD_RULES, extractOrderFormData } from './orderFields';
+import OrderTemplateMenu from './OrderTemplateMenu';
+import OrderDraftList from './OrderDraftList';
+import ShippingQuoteSummary from './ShippingQuoteSummary';
+import PackageListEditor from './PackageListEditor';
+import { calculateShippingQuote } from '../../utils/pricing';
+import { applyPackageSummary, getOrderPackages } from '../../utils/packages';
+import { listOrderDrafts, saveOrderDraft, deleteOrderDraft, createDraftId, hasDraftContent } from '../../utils/orderDrafts';
+import AddressBookPicker from '../addresses/AddressBookPicker';
+import AddressSearchDialog from '../addresses/AddressSearchDialog';
+import { addressToOrderFields, orderFieldsToAddress, isSameAddress } from '../addresses/addressFields';
+import type { AddressOrderField } from '../addresses/addressFields';
 
 const STEPS = [
   { id: 1, title: '발송인 정보', description: '발송인 정보를 입력하세요' },
@@ -15,10 +29,30 @@ const STEPS = [
   { id: 4, title: '완료', description: '배송접수를 완료하세요' }
 ];
 
-const PACKAGE_TYPES = ['문서', '소포', '박스', '팔레트'];
-const DELIVERY_TYPES = ['일반', '당일', '익일', '지정일'];
+/** 새 접수 기본값 */
+const DEFAULT_FORM_VALUES: Partial<ShippingOrderData> = {
+  package_type: '소포',
+  delivery_type: '일반',
+  is_fragile: false,
+  is_frozen: false,
+  requires_signature: false,
+  insurance_amount: 0
+};
+
+/**
+ * 폼 입력값 구성 (기본값 + 미리 채울 값)
+ * 화물 목록이 없는 이전 임시저장본·템플릿은 단일 화물 필드로 화물 하나를 만듦
+ */
+const toFormValues = (data?: Partial<ShippingOrderData>): Partial<ShippingOrderData> => {
+  const values = { ...DEFAULT_FORM_VALUES, ...data };
+  return { ...values, packages: getOrderPackages(values) };
+};
 
 interface ShippingOrderFormProps {
+  /** 미리 채울 입력값 (주문 복제 등) */
+  initialData?: Partial<ShippingOrderData>;
+  /** 미리 채운 경우 폼 위에 표시할 안내 문구 */
+  prefillNotice?: string;
   onSuccess?: () => void;
   onNewOrder?: (orderInfo: {
     orderId: number;
@@ -28,24 +62,175 @@ interface ShippingOrderFormProps {
   }) => void;
 }
 
-const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewOrder }) => {
+/** 입력이 멈춘 뒤 임시저장하기까지 대기 시간 */
+const DRAFT_SAVE_DELAY = 800;
+
+const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ initialData, prefillNotice, onSuccess, onNewOrder }) => {
+  const { user } = useAuth();
+  const { rateCard, isFallback: isFallbackRateCard } = useRateCard();
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitResult, setSubmitResult] = useState<{ success: boolean; message: string; trackingNumber?: string } | null>(null);
 
-  const { register, handleSubmit, formState: { errors }, watch, trigger } = useForm<ShippingOrderData>({
-    defaultValues: {
-      package_type: '소포',
-      delivery_type: '일반',
-      is_fragile: false,
-      is_frozen: false,
-      requires_signature: false,
-      insurance_amount: 0
-    }
+  // 주소록에서 불러온 항목 (내용을 바꾸지 않았으면 다시 저장하지 않음)
+  const [appliedAddresses, setAppliedAddresses] = useState<Partial<Record<AddressBookEntryType, AddressBookEntry>>>({});
+  const [saveToAddressBook, setSaveToAddressBook] = useState({ sender: false, receiver: false, defaultSender: false });
+  // 주소 검색 대화상자를 연 대상 (발송인/수취인)
+  const [addressSearchTarget, setAddressSearchTarget] = useState<AddressBookEntryType | null>(null);
+
+  // 임시저장 (사용자가 직접 입력을 시작한 뒤부터 자동 저장)
+  const [drafts, setDrafts] = useState<OrderDraft[]>(() => (user ? listOrderDrafts(user.id) : []));
+  // 미리 채운 접수(복제 등)가 아니면 폼을 열 때 이어쓰기 안내 표시
+  const [draftPanel, setDraftPanel] = useState<'prompt' | 'list' | null>(() => (!initialData && drafts.length > 0 ? 'prompt' : null));
+  const [isDraftActive, setIsDraftActive] = useState(false);
+  const [lastDraftSavedAt, setLastDraftSavedAt] = useState<string | null>(null);
+  const draftIdRef = useRef<string | null>(null);
+
+  const { register, control, handleSubmit, formState: { errors }, watch, trigger, setValue, getValues, setFocus, reset } = useForm<ShippingOrderData>({
+    defaultValues: toFormValues(initialData)
   });
 
   const watchedValues = watch();
 
+  // 임시저장할 입력값 (템플릿과 달리 희망 배송일도 보관)
+  const draftSnapshot = JSON.stringify({
+    ...extractOrderFormData(watchedValues),
+    ...(watchedValues.delivery_date ? { delivery_date: watchedValues.delivery_date } : {})
+  });
+
+  // 배송비 견적 (입력값이 바뀔 때마다 다시 계산, 화물별 운임 합산)
+  const quoteResult = useMemo(() => calculateShippingQuote(rateCard, {
+    sender_zipcode: watchedValues.sender_zipcode,
+    receiver_zipcode: watchedValues.receiver_zipcode,
+    packages: watchedValues.packages,
+    delivery_type: watchedValues.delivery_type,
+    is_fragile: watchedValues.is_fragile,
+    is_frozen: watchedValues.is_frozen,
+    requires_signature: watchedValues.requires_signature,
+    insurance_amount: watchedValues.insurance_amount
+  }), [
+    rateCard, watchedValues.sender_zipcode, watchedValues.receiver_zipcode, watchedValues.packages,
+    watchedValues.delivery_type, watchedValues.is_fragile, watchedValues.is_frozen,
+    watchedValues.requires_signature, watchedValues.insurance_amount
+  ]);
+
+  // 사용자가 필드를 직접 바꾼 시점부터 임시저장 (기본 발송인 자동 입력만으로는 저장하지 않음)
+  useEffect(() => {
+    const subscription = watch((_, { type }) => {
+      if (type === 'change') setIsDraftActive(true);
+    });
+    return () => subscription.unsubscribe();
+  }, [watch]);
+
+  // 입력값이나 단계가 바뀌면 잠시 후 임시저장
+  useEffect(() => {
+    if (!user || !isDraftActive || submitResult?.success) return;
+    const data = JSON.parse(draftSnapshot) as Partial<ShippingOrderData>;
+    if (!hasDraftContent(data)) return;
+
+    const timer = setTimeout(() => {
+      if (!draftIdRef.current) draftIdRef.current = createDraftId();
+      const updatedAt = new Date().toISOString();
+      saveOrderDraft(user.id, { id: draftIdRef.current, data, currentStep, updatedAt });
+      setDrafts(listOrderDrafts(user.id));
+      setLastDraftSavedAt(updatedAt);
+    }, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [user, isDraftActive, submitResult, draftSnapshot, currentStep]);
+
+  // 임시저장본 이어서 작성 (입력값과 작성 중이던 단계 복원)
+  const resumeDraft = (draft: OrderDraft) => {
+    reset(toFormValues(draft.data));
+    setAppliedAddresses({});
+    setCurrentStep(draft.currentStep);
+    draftIdRef.current = draft.id;
+    setIsDraftActive(true);
+    setLastDraftSavedAt(draft.updatedAt);
+    setDraftPanel(null);
+  };
+
+  const discardDraft = (draft: OrderDraft) => {
+    if (!user || !window.confirm('이 임시저장본을 삭제하시겠습니까?')) return;
+    deleteOrderDraft(user.id, draft.id);
+    // 지금 작성 중인 임시저장본을 지웠으면 이후 입력은 새 임시저장본으로 저장
+    if (draft.id === draftIdRef.current) {
+      draftIdRef.current = null;
+      setLastDraftSavedAt(null);
+    }
+    const remaining = listOrderDrafts(user.id);
+    setDrafts(remaining);
+    if (remaining.length === 0) setDraftPanel(null);
+  };
+
+  // 주소록 항목으로 발송인/수취인 필드 채우기
+  const applyAddress = (type: AddressBookEntryType, entry: AddressBookEntry) => {
+    const values = addressToOrderFields(type, entry);
+    (Object.keys(values) as AddressOrderField[]).forEach(field => {
+      setValue(field, values[field] || '', { shouldValidate: !!values[field], shouldDirty: true });
+    });
+    setAppliedAddresses(prev => ({ ...prev, [type]: entry }));
+    setIsDraftActive(true);
+  };
+
+  // 템플릿 적용 (현재 입력값을 템플릿 내용으로 교체하고 첫 단계부터 확인)
+  const applyTemplate = (template: OrderTemplate) => {
+    reset(toFormValues(extractOrderFormData(template.data)));
+    setAppliedAddresses({});
+    setCurrentStep(1);
+    setIsDraftActive(true);
+  };
+
+  // 주소 검색 결과로 우편번호와 도로명 주소를 채우고 상세주소 입력으로 이동
+  const handleAddressSearchSelect = (result: AddressSearchResult) => {
+    if (!addressSearchTarget) return;
+    setValue(`${addressSearchTarget}_zipcode`, result.zipcode, { shouldValidate: true, shouldDirty: true });
+    setValue(`${addressSearchTarget}_address`, result.roadAddress, { shouldValidate: true, shouldDirty: true });
+    setAddressSearchTarget(null);
+    setIsDraftActive(true);
+    setTimeout(() => setFocus(`${addressSearchTarget}_detail_address`), 0);
+  };
+
+  // 기본 발송인 자동 입력 (발송인 정보를 아직 입력하지 않은 경우만)
+  useEffect(() => {
+    let cancelled = false;
+    addressBookAPI.getDefaultSender()
+      .then(({ address }) => {
+        if (!cancelled && address && !getValues('sender_name')) {
+          const values = addressToOrderFields('sender', address);
+          (Object.keys(values) as AddressOrderField[]).forEach(field => setValue(field, values[field] || ''));
+          setAppliedAddresses(prev => ({ ...prev, sender: address }));
+        }
+      })
+      .catch(error => console.error('기본 발송인 조회 실패:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [getValues, setValue]);
+
+  // 입력한 주소가 주소록에서 불러온 그대로인지 확인
+  const isUnchangedFromAddressBook = (type: AddressBookEntryType) => {
+    const applied = appliedAddresses[type];
+    return !!applied && isSameAddress(applied, orderFieldsToAddress(type, watchedValues));
+  };
+
+  // 접수 완료 후 선택한 주소를 주소록에 저장 (실패해도 접수 결과에는 영향 없음)
+  const saveAddressesToBook = async (data: ShippingOrderData) => {
+    for (const type of ['sender', 'receiver'] as const) {
+      try {
+        // 주소록에서 불러온 그대로면 새로 저장하지 않고 기존 항목 사용
+        let entry = isUnchangedFromAddressBook(type) ? appliedAddresses[type] : undefined;
+        if (!entry && saveToAddressBook[type]) {
+          entry = (await addressBookAPI.createAddress(orderFieldsToAddress(type, data))).address;
+        }
+        if (type === 'sender' && saveToAddressBook.defaultSender && entry && !entry.is_default) {
+          await addressBookAPI.setDefaultSender(entry.id);
+        }
+      } catch (error) {
+        console.error('주소록 저장 실패:', error);
+      }
+    }
+  };
+
   // 다음 단계로
   const nextStep = async () => {
     const fieldsToValidate = getFieldsForStep(currentStep);
@@ -69,17 +254,34 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
       case 2:
         return ['receiver_name', 'receiver_phone', 'receiver_address', 'receiver_zipcode'];
       case 3:
-        return ['package_weight', 'package_size'];
+        return ['packages'];
       default:
         return [];
     }
   };
 
   // 폼 제출
-  const onSubmit = async (data: ShippingOrderData) => {
+  const onSubmit = async (formData: ShippingOrderData) => {
     try {
       setIsSubmitting(true);
-      const response = await shippingAPI.createOrder(data);
+      // 주문 단위 화물 필드는 화물 목록의 합계/대표값으로 저장
+      const data = applyPackageSummary(formData);
+      // 견적을 함께 저장 (계산할 수 없는 입력이면 서버 계산에 맡김)
+      const { quote } = calculateShippingQuote(rateCard, data);
+      const response = await shippingAPI.createOrder(quote ? {
+        ...data,
+        shipping_fee: quote.total,
+        shipping_fee_breakdown: quote.lines,
+        rate_card_version: quote.rate_card_version
+      } : data);
+      saveAddressesToBook(data);
+
+      // 접수가 끝난 임시저장본 삭제
+      if (user && draftIdRef.current) {
+        deleteOrderDraft(user.id, draftIdRef.current);
+        draftIdRef.current = null;
+        setDrafts(listOrderDrafts(user.id));
+      }
       
       setSubmitResult({
         success: true,
@@ -116,6 +318,10 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
   // 단계 1: 발송인 정보
   const renderStep1 = () => (
     <div className="space-y-4">
+      <div className="flex justify-end">
+        <AddressBookPicker type="sender" onSelect={(entry) => applyAddress('sender', entry)} />
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -125,7 +331,7 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
             <User className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
             <input
               type="text"
-              {...register('sender_name', { required: '발송인 이름은 필수입니다' })}
+              {...register('sender_name', ORDER_FIELD_RULES.sender_name)}
               className="w-full pl-10 pr-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               placeholder="이름을 입력하세요"
               autoComplete="name"
@@ -142,7 +348,7 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
             <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
             <input
               type="tel"
-              {...register('sender_phone', { required: '전화번호는 필수입니다' })}
+              {...register('sender_phone', ORDER_FIELD_RULES.sender_phone)}
               className="w-full pl-10 pr-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               placeholder="010-1234-5678"
               autoComplete="tel"
@@ -189,7 +395,7 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
             <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
             <input
               type="text"
-              {...register('sender_address', { required: '주소는 필수입니다' })}
+              {...register('sender_address', ORDER_FIELD_RULES.sender_address)}
               className="w-full pl-10 pr-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               placeholder="주소를 입력하세요"
               autoComplete="street-address"
@@ -202,14 +408,25 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
           <label className="block text-sm font-medium text-gray-700 mb-2">
             우편번호 <span className="text-red-500">*</span>
           </label>
-          <input
-            type="text"
-            {...register('sender_zipcode', { required: '우편번호는 필수입니다' })}
-            className="w-full px-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            placeholder="12345"
-            autoComplete="postal-code"
-            inputMode="numeric"
-          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              {...register('sender_zipcode', ORDER_FIELD_RULES.sender_zipcode)}
+              className="w-full min-w-0 px-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="12345"
+              autoComplete="postal-code"
+              inputMode="numeric"
+              maxLength={5}
+            />
+            <button
+              type="button"
+              onClick={() => setAddressSearchTarget('sender')}
+              className="flex items-center gap-1 px-3 py-3 text-sm text-white bg-gray-700 rounded-lg hover:bg-gray-800 whitespace-nowrap touch-manipulation"
+            >
+              <Search className="w-4 h-4" />
+              주소 검색
+            </button>
+          </div>
           {errors.sender_zipcode && <p className="mt-1 text-sm text-red-600">{errors.sender_zipcode.message}</p>}
         </div>
       </div>
@@ -230,6 +447,10 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
   // 단계 2: 수취인 정보 (발송인과 동일한 구조)
   const renderStep2 = () => (
     <div className="space-y-4">
+      <div className="flex justify-end">
+        <AddressBookPicker type="receiver" onSelect={(entry) => applyAddress('receiver', entry)} />
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -239,7 +460,7 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
             <User className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
             <input
               type="text"
-              {...register('receiver_name', { required: '수취인 이름은 필수입니다' })}
+              {...register('receiver_name', ORDER_FIELD_RULES.receiver_name)}
               className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               placeholder="이름을 입력하세요"
             />
@@ -255,7 +476,7 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
             <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
             <input
               type="tel"
-              {...register('receiver_phone', { required: '전화번호는 필수입니다' })}
+              {...register('receiver_phone', ORDER_FIELD_RULES.receiver_phone)}
               className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               placeholder="전화번호를 입력하세요"
             />
@@ -299,7 +520,7 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
             <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
             <input
               type="text"
-              {...register('receiver_address', { required: '주소는 필수입니다' })}
+              {...register('receiver_address', ORDER_FIELD_RULES.receiver_address)}
               className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               placeholder="주소를 입력하세요"
             />
@@ -311,12 +532,24 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
           <label className="block text-sm font-medium text-gray-700 mb-2">
             우편번호 <span className="text-red-500">*</span>
           </label>
-          <input
-            type="text"
-            {...register('receiver_zipcode', { required: '우편번호는 필수입니다' })}
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            placeholder="우편번호"
-          />
+          <div className="flex gap-2">
+            <input
+              type="text"
+              {...register('receiver_zipcode', ORDER_FIELD_RULES.receiver_zipcode)}
+              className="w-full min-w-0 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="우편번호"
+              inputMode="numeric"
+              maxLength={5}
+            />
+            <button
+              type="button"
+              onClick={() => setAddressSearchTarget('receiver')}
+              className="flex items-center gap-1 px-3 py-3 text-sm text-white bg-gray-700 rounded-lg hover:bg-gray-800 whitespace-nowrap touch-manipulation"
+            >
+              <Search className="w-4 h-4" />
+              주소 검색
+            </button>
+          </div>
           {errors.receiver_zipcode && <p className="mt-1 text-sm text-red-600">{errors.receiver_zipcode.message}</p>}
         </div>
       </div>
@@ -343,71 +576,12 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
           화물 정보
         </h3>
         
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">화물 종류</label>
-            <select
-              {...register('package_type')}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            >
-              {PACKAGE_TYPES.map(type => (
-                <option key={type} value={type}>{type}</option>
-              ))}
-            </select>
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              중량 (kg) <span className="text-red-500">*</span>
-            </label>
-            <input
-              type="number"
-              step="0.1"
-              min="0"
-              {...register('package_weight', { 
-                required: '중량은 필수입니다',
-                min: { value: 0.1, message: '중량은 0.1kg 이상이어야 합니다' }
-              })}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="중량을 입력하세요"
-            />
-            {errors.package_weight && <p className="mt-1 text-sm text-red-600">{errors.package_weight.message}</p>}
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">
-              크기 (cm) <span className="text-red-500">*</span>
-            </label>
-            <input
-              type="text"
-              {...register('package_size', { required: '크기는 필수입니다' })}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="예: 30x20x10"
-            />
-            {errors.package_size && <p className="mt-1 text-sm text-red-600">{errors.package_size.message}</p>}
-          </div>
-
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">화물 가액 (원)</label>
-            <input
-              type="number"
-              min="0"
-              {...register('package_value')}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              placeholder="화물 가액을 입력하세요"
-            />
-          </div>
-        </div>
-
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-2">화물 설명</label>
-          <textarea
-            {...register('package_description')}
-            rows={3}
-            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            placeholder="화물에 대한 상세 설명을 입력하세요"
-          />
-        </div>
+        <PackageListEditor
+          control={control}
+          register={register}
+          errors={errors}
+          inputClassName="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
       </div>
 
       {/* 배송 옵션 */}
@@ -456,7 +630,7 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">보험료 (원)</label>
+            <label className="block text-sm font-medium text-gray-700 mb-2">보험 가입금액 (원)</label>
             <div className="relative">
               <Shield className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
               <input
@@ -464,7 +638,7 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
                 min="0"
                 {...register('insurance_amount')}
                 className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="보험료를 입력하세요"
+                placeholder="보험 가입금액을 입력하세요"
               />
             </div>
           </div>
@@ -530,6 +704,8 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
           />
         </div>
       </div>
+
+      <ShippingQuoteSummary result={quoteResult} isFallback={isFallbackRateCard} />
     </div>
   );
 
@@ -601,10 +777,54 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
             </div>
             
             <div>
-              <h4 className="font-semibold text-gray-800 mb-2">화물 정보</h4>
-              <p>{watchedValues.package_type} - {watchedValues.package_weight}kg - {watchedValues.package_size}</p>
+              <h4 className="font-semibold text-gray-800 mb-2">화물 정보 ({watchedValues.packages?.length || 0}개)</h4>
+              {watchedValues.packages?.map((pkg, index) => (
+                <p key={index}>
+                  {index + 1}. {pkg.package_type} - {pkg.package_weight}kg - {pkg.package_size}
+                  {pkg.package_description && <span className="text-gray-600"> ({pkg.package_description})</span>}
+                </p>
+              ))}
               <p className="text-gray-600">배송유형: {watchedValues.delivery_type}</p>
             </div>
+
+            <ShippingQuoteSummary result={quoteResult} isFallback={isFallbackRateCard} />
+          </div>
+          
+          {/* 주소록 저장 옵션 */}
+          <div className="mt-6 pt-4 border-t border-blue-200 space-y-2 text-sm text-gray-700">
+            {!isUnchangedFromAddressBook('sender') && (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={saveToAddressBook.sender}
+                  onChange={(e) => setSaveToAddressBook(prev => ({ ...prev, sender: e.target.checked }))}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                발송인 주소를 주소록에 저장
+              </label>
+            )}
+            {(isUnchangedFromAddressBook('sender') ? !appliedAddresses.sender?.is_default : saveToAddressBook.sender) && (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={saveToAddressBook.defaultSender}
+                  onChange={(e) => setSaveToAddressBook(prev => ({ ...prev, defaultSender: e.target.checked }))}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                이 발송인을 기본 발송인으로 지정 (다음 접수부터 자동 입력)
+              </label>
+            )}
+            {!isUnchangedFromAddressBook('receiver') && (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={saveToAddressBook.receiver}
+                  onChange={(e) => setSaveToAddressBook(prev => ({ ...prev, receiver: e.target.checked }))}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                수취인 주소를 주소록에 저장
+              </label>
+            )}
           </div>
           
           <button
@@ -655,6 +875,48 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
         </div>
       </div>
 
+      {prefillNotice && !submitResult && (
+        <div className="mb-4 p-4 text-sm text-blue-800 bg-blue-50 border border-blue-200 rounded-lg">
+          {prefillNotice}
+        </div>
+      )}
+
+      {!submitResult && draftPanel && (
+        <OrderDraftList
+          drafts={drafts}
+          activeDraftId={draftIdRef.current}
+          isResumePrompt={draftPanel === 'prompt'}
+          onResume={resumeDraft}
+          onDiscard={discardDraft}
+          onClose={() => setDraftPanel(null)}
+        />
+      )}
+
+      {!submitResult && (
+        <div className="flex flex-wrap items-center gap-3 mb-2 text-sm text-gray-500">
+          {lastDraftSavedAt && (
+            <span>자동 임시저장됨 {new Date(lastDraftSavedAt).toLocaleTimeString('ko-KR')}</span>
+          )}
+          {drafts.length > 0 && !draftPanel && (
+            <button
+              type="button"
+              onClick={() => setDraftPanel('list')}
+              className="flex items-center gap-1 text-amber-700 hover:text-amber-900"
+            >
+              <History className="w-4 h-4" />
+              임시저장 목록 ({drafts.length})
+            </button>
+          )}
+        </div>
+      )}
+
+      {!submitResult && (
+        <OrderTemplateMenu
+          getCurrentData={() => extractOrderFormData(getValues())}
+          onApply={applyTemplate}
+        />
+      )}
+
       {/* 폼 내용 */}
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
         <h2 className="text-xl font-semibold text-gray-800 mb-6">
@@ -669,6 +931,13 @@ const ShippingOrderForm: React.FC<ShippingOrderFormProps> = ({ onSuccess, onNewO
         </form>
       </div>
 
+      {addressSearchTarget && (
+        <AddressSearchDialog
+          onSelect={handleAddressSearchSelect}
+          onClose={() => setAddressSearchTarget(null)}
+        />
+      )}
+
       {/* 네비게이션 버튼 */}
       {!submitResult && (
         <div className="flex justify-between gap-4">
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Calculator } from 'lucide-react';
+import type { QuoteResult } from '../../utils/pricing';
+
+interface ShippingQuoteSummaryProps {
+  result: QuoteResult;
+  /** 서버 요금표 대신 기본 요금표로 계산한 견적인지 여부 */
+  isFallback?: boolean;
+}
+
+/**
+ * 배송비 견적 표시
+ * 항목별 금액과 합계, 적용 중량(실중량/부피 중량)을 보여줌 (화물이 여러 개면 화물별 운임과 중량 합계)
+ */
+const ShippingQuoteSummary: React.FC<ShippingQuoteSummaryProps> = ({ result, isFallback }) => (
+  <div className="bg-white border border-blue-200 rounded-lg p-4">
+    <div className="flex items-center gap-2 mb-3">
+      <Calculator className="w-5 h-5 text-blue-600" />
+      <h3 className="font-semibold text-gray-800">예상 배송비</h3>
+      {result.quote && (
+        <span className="ml-auto text-xl font-bold text-blue-700">{result.quote.total.toLocaleString()}원</span>
+      )}
+    </div>
+
+    {!result.quote ? (
+      <p className="text-sm text-gray-500">{result.error}</p>
+    ) : (
+      <>
+        <dl className="space-y-1 text-sm">
+          {result.quote.lines.map((line, index) => (
+            <div key={index} className="flex justify-between gap-4">
+              <dt className="text-gray-600">{line.label}</dt>
+              <dd className="text-gray-900">{line.amount.toLocaleString()}원</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="mt-3 text-xs text-gray-500">
+          {result.quote.package_count > 1 && `화물 ${result.quote.package_count}개 · `}
+          적용 중량 {result.quote.package_count > 1 && '합계 '}{result.quote.chargeable_weight}kg
+          {result.quote.volumetric_weight !== null && ` (실중량 ${result.quote.actual_weight}kg, 부피 중량 ${result.quote.volumetric_weight}kg)`}
+          {result.quote.size_class && ` · ${result.quote.size_class}`}
+          {!result.quote.destination_zone && ' · 우편번호로 지역을 확인할 수 없어 지역 할증 제외'}
+        </p>
+      </>
+    )}
+
+    {isFallback && (
+      <p className="mt-2 text-xs text-amber-600">기본 요금표로 계산한 견적입니다. 최종 배송비는 접수 후 확정됩니다.</p>
+    )}
+  </div>
+);
+
+export default ShippingQuoteSummary;
@@ -0,0 +1,127 @@
+import { readSheet } from 'read-excel-file/browser';
+import type { ShippingOrderData } from '../../types';
+import { parseCsv } from '../../utils/csv';
+import { toDateString } from '../../utils/date';
+import {
+  ORDER_FIELD_KEYS,
+  ORDER_FIELD_LABELS,
+  NUMBER_FIELDS,
+  BOOLEAN_FIELDS,
+  validateOrderData
+} from './orderFields';
+
+/** 파일 컬럼 매핑 (필드 → 파일 컬럼 인덱스, 매핑 안 함은 -1) */
+export type ColumnMapping = Record<keyof ShippingOrderData, number>;
+
+/** 검증을 마친 가져오기 행 */
+export interface ImportRow {
+  /** 원본 파일 기준 행 번호 (헤더가 1행) */
+  rowNumber: number;
+  raw: string[];
+  data: ShippingOrderData;
+  errors: Partial<Record<keyof ShippingOrderData, string>>;
+}
+
+const TRUE_VALUES = ['true', '1', 'y', 'yes', 'o', 'v', '예', '네', '필요'];
+const FALSE_VALUES = ['false', '0', 'n', 'no', 'x', '아니오', '아니요', '불필요'];
+
+/** 엑셀에서 숫자로 저장되어 앞자리 0이 빠지기 쉬운 필드 */
+const ZIPCODE_FIELDS: (keyof ShippingOrderData)[] = ['sender_zipcode', 'receiver_zipcode'];
+
+/** 폼 기본값과 동일 (매핑하지 않았거나 비어 있을 때 사용) */
+const DEFAULT_VALUES: Partial<ShippingOrderData> = {
+  package_type: '소포',
+  delivery_type: '일반',
+  is_fragile: false,
+  is_frozen: false,
+  requires_signature: false,
+  insurance_amount: 0
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_\-()]/g, '');
+
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return toDateString(cell);
+  return String(cell).trim();
+};
+
+/**
+ * CSV 또는 XLSX 파일을 문자열 행 배열로 읽기 (첫 행은 헤더)
+ * @throws {Error} 지원하지 않는 파일 형식
+ */
+export const readImportFile = async (file: File): Promise<string[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = await readSheet(file);
+    return rows.map(row => row.map(cellToString));
+  }
+  if (/\.csv$/i.test(file.name)) {
+    return parseCsv(await file.text()).map(row => row.map(cell => cell.trim()));
+  }
+  throw new Error('CSV 또는 XLSX 파일만 업로드할 수 있습니다.');
+};
+
+/**
+ * 헤더 이름으로 필드 매핑 자동 추정
+ * 필드 키(sender_name) 또는 한글 라벨(발송인 이름)과 공백/기호를 무시하고 비교
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  ORDER_FIELD_KEYS.forEach(field => {
+    const candidates = [normalizeHeader(field), normalizeHeader(ORDER_FIELD_LABELS[field])];
+    mapping[field] = normalized.findIndex(header => candidates.includes(header));
+  });
+  return mapping;
+};
+
+/**
+ * 파일 행 하나를 배송접수 데이터로 변환하고 폼과 같은 규칙으로 검증
+ * 숫자/예·아니오 형식 오류는 변환 단계에서 오류로 기록
+ */
+export const buildImportRow = (raw: string[], rowNumber: number, mapping: ColumnMapping): ImportRow => {
+  const data: Record<string, unknown> = { ...DEFAULT_VALUES };
+  const conversionErrors: Partial<Record<keyof ShippingOrderData, string>> = {};
+
+  ORDER_FIELD_KEYS.forEach(field => {
+    const index = mapping[field];
+    const value = index >= 0 ? (raw[index] ?? '').trim() : '';
+    if (value === '') return;
+
+    if (NUMBER_FIELDS.includes(field)) {
+      const number = Number(value.replace(/,/g, ''));
+      if (Number.isNaN(number)) {
+        conversionErrors[field] = `${ORDER_FIELD_LABELS[field]}은(는) 숫자여야 합니다`;
+      } else {
+        data[field] = number;
+      }
+    } else if (BOOLEAN_FIELDS.includes(field)) {
+      const lower = value.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) {
+        data[field] = true;
+      } else if (FALSE_VALUES.includes(lower)) {
+        data[field] = false;
+      } else {
+        conversionErrors[field] = `${ORDER_FIELD_LABELS[field]}은(는) 예/아니오 값이어야 합니다`;
+      }
+    } else if (ZIPCODE_FIELDS.includes(field) && /^\d{4}$/.test(value)) {
+      // 서울 등 0으로 시작하는 우편번호 (예: 4524 → 04524)
+      data[field] = value.padStart(5, '0');
+    } else {
+      data[field] = value;
+    }
+  });
+
+  const orderData = data as unknown as ShippingOrderData;
+  return {
+    rowNumber,
+    raw,
+    data: orderData,
+    errors: { ...validateOrderData(orderData), ...conversionErrors }
+  };
+};
+
+/**
+ * 가져오기 템플릿 헤더 (한글 라벨)
+ */
+export const getImportTemplateHeaders = (): string[] => ORDER_FIELD_KEYS.map(field => ORDER_FIELD_LABELS[field]);
@@ -0,0 +1,256 @@
+import type { OrderFieldChange, ShippingOrderData, ShippingPackage } from '../../types';
+import { applyPackageSummary, getOrderPackages } from '../../utils/packages';
+
+export const PACKAGE_TYPES = ['문서', '소포', '박스', '팔레트'];
+export const DELIVERY_TYPES = ['일반', '당일', '익일', '지정일'];
+
+/** 우편번호 형식 (2015년부터 사용하는 5자리 국가기초구역번호) */
+export const ZIPCODE_PATTERN = /^\d{5}$/;
+
+/**
+ * 배송접수 필드 검증 규칙
+ * react-hook-form register 옵션과 같은 형태라서 폼에는 그대로 전달하고,
+ * 일괄 접수 등 폼 밖에서는 validateOrderField로 같은 규칙을 적용
+ */
+export interface OrderFieldRule {
+  required?: string;
+  min?: { value: number; message: string };
+  pattern?: { value: RegExp; message: string };
+  validate?: (value: unknown) => true | string;
+}
+
+/**
+ * 배송접수 필드 순서 (발송인 7 + 수취인 7 + 배송 8 + 특수옵션 4 + 메모 2)
+ */
+export const ORDER_FIELD_KEYS: (keyof ShippingOrderData)[] = [
+  'sender_name', 'sender_phone', 'sender_email', 'sender_company',
+  'sender_address', 'sender_detail_address', 'sender_zipcode',
+  'receiver_name', 'receiver_phone', 'receiver_email', 'receiver_company',
+  'receiver_address', 'receiver_detail_address', 'receiver_zipcode',
+  'package_type', 'package_weight', 'package_size', 'package_value',
+  'delivery_type', 'delivery_date', 'delivery_time', 'package_description',
+  'is_fragile', 'is_frozen', 'requires_signature', 'insurance_amount',
+  'delivery_memo', 'special_instructions'
+];
+
+/**
+ * 필드 묶음 (접수 폼 단계와 같은 구성 — 주문 수정 화면에서 사용)
+ */
+export const ORDER_FIELD_SECTIONS: { title: string; fields: (keyof ShippingOrderData)[] }[] = [
+  { title: '발송인 정보', fields: ORDER_FIELD_KEYS.slice(0, 7) },
+  { title: '수취인 정보', fields: ORDER_FIELD_KEYS.slice(7, 14) },
+  { title: '배송 정보', fields: ORDER_FIELD_KEYS.slice(14, 22) },
+  { title: '특수 옵션', fields: ORDER_FIELD_KEYS.slice(22, 26) },
+  { title: '메모', fields: ORDER_FIELD_KEYS.slice(26) }
+];
+
+export const ORDER_FIELD_LABELS: Record<keyof ShippingOrderData, string> = {
+  sender_name: '발송인 이름',
+  sender_phone: '발송인 전화번호',
+  sender_email: '발송인 이메일',
+  sender_company: '발송인 회사명',
+  sender_address: '발송인 주소',
+  sender_detail_address: '발송인 상세주소',
+  sender_zipcode: '발송인 우편번호',
+  receiver_name: '수취인 이름',
+  receiver_phone: '수취인 전화번호',
+  receiver_email: '수취인 이메일',
+  receiver_company: '수취인 회사명',
+  receiver_address: '수취인 주소',
+  receiver_detail_address: '수취인 상세주소',
+  receiver_zipcode: '수취인 우편번호',
+  package_type: '화물 종류',
+  package_weight: '중량',
+  package_size: '크기',
+  package_value: '화물 가액',
+  delivery_type: '배송 유형',
+  delivery_date: '희망 배송일',
+  delivery_time: '희망 배송시간',
+  package_description: '화물 설명',
+  packages: '화물 목록',
+  is_fragile: '파손주의',
+  is_frozen: '냉동보관',
+  requires_signature: '서명확인',
+  insurance_amount: '보험료',
+  delivery_memo: '배송 메모',
+  special_instructions: '특별 지시사항'
+};
+
+/** 숫자로 변환해서 저장하는 필드 */
+export const NUMBER_FIELDS: (keyof ShippingOrderData)[] = ['package_weight', 'package_value', 'insurance_amount'];
+
+/** 체크박스(true/false) 필드 */
+export const BOOLEAN_FIELDS: (keyof ShippingOrderData)[] = ['is_fragile', 'is_frozen', 'requires_signature'];
+
+/** 화물별로 입력하는 필드 (배송 정보 단계의 화물 목록 편집기) */
+export const PACKAGE_FIELDS: (keyof ShippingPackage & keyof ShippingOrderData)[] = [
+  'package_type', 'package_weight', 'package_size', 'package_value', 'package_description'
+];
+
+const oneOf = (options: string[], message: string) => (value: unknown) =>
+  value === undefined || value === null || value === '' || options.includes(String(value)) || message;
+
+export const ORDER_FIELD_RULES: Partial<Record<keyof ShippingOrderData, OrderFieldRule>> = {
+  sender_name: { required: '발송인 이름은 필수입니다' },
+  sender_phone: { required: '전화번호는 필수입니다' },
+  sender_address: { required: '주소는 필수입니다' },
+  sender_zipcode: {
+    required: '우편번호는 필수입니다',
+    pattern: { value: ZIPCODE_PATTERN, message: '우편번호는 5자리 숫자여야 합니다' }
+  },
+  receiver_name: { required: '수취인 이름은 필수입니다' },
+  receiver_phone: { required: '전화번호는 필수입니다' },
+  receiver_address: { required: '주소는 필수입니다' },
+  receiver_zipcode: {
+    required: '우편번호는 필수입니다',
+    pattern: { value: ZIPCODE_PATTERN, message: '우편번호는 5자리 숫자여야 합니다' }
+  },
+  package_type: { validate: oneOf(PACKAGE_TYPES, `화물 종류는 ${PACKAGE_TYPES.join('/')} 중 하나여야 합니다`) },
+  package_weight: {
+    required: '중량은 필수입니다',
+    min: { value: 0.1, message: '중량은 0.1kg 이상이어야 합니다' }
+  },
+  package_size: { required: '크기는 필수입니다' },
+  delivery_type: { validate: oneOf(DELIVERY_TYPES, `배송 유형은 ${DELIVERY_TYPES.join('/')} 중 하나여야 합니다`) }
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '') ||
+  (typeof value === 'number' && Number.isNaN(value));
+
+/**
+ * 단일 필드 값을 폼과 같은 규칙으로 검증
+ * @returns 오류 메시지 (통과 시 null)
+ */
+export const validateOrderField = (field: keyof ShippingOrderData, value: unknown): string | null => {
+  const rule = ORDER_FIELD_RULES[field];
+  if (!rule) return null;
+
+  if (isEmpty(value)) {
+    return rule.required || null;
+  }
+  if (rule.min && Number(value) < rule.min.value) {
+    return rule.min.message;
+  }
+  if (rule.pattern && !rule.pattern.value.test(String(value))) {
+    return rule.pattern.message;
+  }
+  if (rule.validate) {
+    const result = rule.validate(value);
+    if (result !== true) return result;
+  }
+  return null;
+};
+
+/**
+ * 배송접수 데이터 전체를 검증
+ * @returns 필드별 오류 메시지 (오류가 없으면 빈 객체)
+ */
+export const validateOrderData = (data: Partial<ShippingOrderData>): Partial<Record<keyof ShippingOrderData, string>> => {
+  const errors: Partial<Record<keyof ShippingOrderData, string>> = {};
+  ORDER_FIELD_KEYS.forEach(field => {
+    const message = validateOrderField(field, data[field]);
+    if (message) errors[field] = message;
+  });
+  return errors;
+};
+
+/**
+ * 기존 주문이나 템플릿에서 배송접수 폼 입력값만 추출 (주문 복제, 템플릿 적용용)
+ * ID, 상태, 운송장 번호, 등록일 등 시스템 필드는 버리고, 복제 시점엔 지난 날짜가 되는 희망 배송일도 제외
+ */
+export const extractOrderFormData = (source: Partial<Record<keyof ShippingOrderData, unknown>>): Partial<ShippingOrderData> => {
+  const data: Record<string, unknown> = {};
+  ORDER_FIELD_KEYS.forEach(field => {
+    const value = source[field];
+    if (field === 'delivery_date' || value === undefined || value === null || value === '') return;
+
+    if (NUMBER_FIELDS.includes(field)) {
+      // DECIMAL 컬럼은 문자열로 내려올 수 있음
+      const number = Number(value);
+      if (!Number.isNaN(number)) data[field] = number;
+    } else if (BOOLEAN_FIELDS.includes(field)) {
+      data[field] = value === true || value === 1 || value === '1' || value === 'true';
+    } else {
+      data[field] = String(value);
+    }
+  });
+
+  // 화물 목록 (운송장 번호는 주문마다 새로 부여하므로 제외). 목록이 없던 주문은 단일 화물 필드로 만듦
+  const hasPackageInfo = Array.isArray(source.packages) || PACKAGE_FIELDS.some(field => field in data);
+  if (hasPackageInfo) {
+    const packages = getOrderPackages({ ...data, packages: source.packages as ShippingPackage[] | undefined });
+    data.packages = packages.map(pkg => extractPackageFormData(pkg));
+  }
+  return applyPackageSummary(data as Partial<ShippingOrderData>);
+};
+
+/**
+ * 화물 하나의 입력값만 추출 (숫자 필드는 숫자로, 빈 값은 제외)
+ */
+const extractPackageFormData = (source: ShippingPackage): ShippingPackage => {
+  const pkg: Record<string, unknown> = {};
+  PACKAGE_FIELDS.forEach(field => {
+    const value = normalizeOrderFieldValue(field, source[field]);
+    if (value !== null) pkg[field] = value;
+  });
+  return pkg as ShippingPackage;
+};
+
+/**
+ * 필드 값을 비교·저장용으로 정규화
+ * 빈 값은 null, 숫자/체크박스 필드는 해당 타입으로, 날짜는 YYYY-MM-DD로 맞춤
+ */
+export const normalizeOrderFieldValue = (field: keyof ShippingOrderData, value: unknown): string | number | boolean | null => {
+  if (BOOLEAN_FIELDS.includes(field)) {
+    return value === true || value === 1 || value === '1' || value === 'true';
+  }
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+    return null;
+  }
+  if (NUMBER_FIELDS.includes(field)) {
+    const number = Number(value);
+    return Number.isNaN(number) ? null : number;
+  }
+  if (field === 'delivery_date') {
+    return String(value).slice(0, 10);
+  }
+  return String(value).trim();
+};
+
+/**
+ * 수정 전후 입력값을 비교해 바뀐 필드만 반환 (주문 수정 시 변경분만 전송)
+ */
+export const getOrderFieldChanges = (
+  original: Partial<Record<keyof ShippingOrderData, unknown>>,
+  updated: Partial<Record<keyof ShippingOrderData, unknown>>
+): OrderFieldChange[] =>
+  ORDER_FIELD_KEYS
+    .map(field => ({
+      field,
+      previous_value: normalizeOrderFieldValue(field, original[field]),
+      new_value: normalizeOrderFieldValue(field, updated[field])
+    }))
+    .filter(change => change.previous_value !== change.new_value)
+    .concat(getPackageListChange(original, updated) ?? []);
+
+/** 화물 목록 비교용 요약 (예: "2개 · 소포 3kg 30x20x10 / 박스 5kg 40x30x20") */
+const describePackages = (packages: ShippingPackage[]): string =>
+  `${packages.length}개 · ${packages
+    .map(pkg => [pkg.package_type, pkg.package_weight && `${pkg.package_weight}kg`, pkg.package_size].filter(Boolean).join(' '))
+    .join(' / ')}`;
+
+/**
+ * 화물 목록 변경 내역 (목록이 없던 주문은 단일 화물 필드와 비교)
+ * 화물별 입력값만 비교하고 서버가 부여한 운송장 번호는 무시
+ */
+const getPackageListChange = (
+  original: Partial<Record<keyof ShippingOrderData, unknown>>,
+  updated: Partial<Record<keyof ShippingOrderData, unknown>>
+): OrderFieldChange | null => {
+  if (!Array.isArray(updated.packages)) return null;
+  const before = getOrderPackages(original as Partial<ShippingOrderData>).map(extractPackageFormData);
+  const after = (updated.packages as ShippingPackage[]).map(extractPackageFormData);
+  if (JSON.stringify(before) === JSON.stringify(after)) return null;
+  return { field: 'packages', previous_value: describePackages(before), new_value: describePackages(after) };
+};
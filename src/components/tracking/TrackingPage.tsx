@@ -1,6 +1,9 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Search, Package, Clock, CheckCircle, Truck, AlertCircle, ArrowLeft } from 'lucide-react';
 import { shippingAPI } from '../../services/api';
+import ProofOfDeliveryView from '../delivery/ProofOfDeliveryView';
+import { useRouter } from '../../hooks/useRouter';
+import { getTrackingPath } from '../../utils/routes';
 
 interface TrackingInfo {
   trackingNumber: string;
@@ -21,6 +24,16 @@ interface TrackingInfo {
     location: string;
     description: string;
   }>;
+  // 반품 연결 정보 (원 주문 ↔ 회수 주문)
+  returnTrackingNumber?: string | null;
+  originalTrackingNumber?: string | null;
+  // 배송완료 증빙 (배송완료 후에만 제공)
+  proofOfDelivery?: {
+    recipientName: string;
+    signatureUrl?: string | null;
+    photoUrls: string[];
+    deliveredAt: string;
+  } | null;
 }
 
 interface TrackingPageProps {
@@ -28,12 +41,45 @@ interface TrackingPageProps {
 }
 
 const TrackingPage: React.FC<TrackingPageProps> = ({ onNavigateBack }) => {
-  const [trackingNumber, setTrackingNumber] = useState('');
+  const { route, navigate } = useRouter();
+  // 조회할 운송장 번호는 주소(/tracking/:number)가 기준 — 검색, 반품 연결 링크, 뒤로 가기 모두 주소를 거침
+  const routeTrackingNumber = route.name === 'tracking' ? route.trackingNumber : undefined;
+  const [trackingNumber, setTrackingNumber] = useState(routeTrackingNumber || '');
   const [trackingInfo, setTrackingInfo] = useState<TrackingInfo | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  // 같은 번호를 다시 검색하면 주소는 그대로이므로 재조회 요청 횟수로 구분
+  const [retryCount, setRetryCount] = useState(0);
+
+  useEffect(() => {
+    setTrackingInfo(null);
+    setError('');
+    if (!routeTrackingNumber) return;
+
+    let cancelled = false;
+    setTrackingNumber(routeTrackingNumber);
+    setLoading(true);
+    shippingAPI.trackShipment(routeTrackingNumber)
+      .then(data => {
+        if (!cancelled) setTrackingInfo(data);
+      })
+      .catch((err: any) => {
+        if (cancelled) return;
+        if (err.response?.status === 404) {
+          setError('해당 운송장 번호를 찾을 수 없습니다. 번호를 다시 확인해주세요.');
+        } else {
+          setError('배송 추적 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [routeTrackingNumber, retryCount]);
 
-  const handleTrackingSubmit = async (e: React.FormEvent) => {
+  const handleTrackingSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!trackingNumber.trim()) {
@@ -41,24 +87,18 @@ const TrackingPage: React.FC<TrackingPageProps> = ({ onNavigateBack }) => {
       return;
     }
 
-    setLoading(true);
-    setError('');
-    setTrackingInfo(null);
-
-    try {
-      const data = await shippingAPI.trackShipment(trackingNumber.trim());
-      setTrackingInfo(data);
-    } catch (err: any) {
-      if (err.response?.status === 404) {
-        setError('해당 운송장 번호를 찾을 수 없습니다. 번호를 다시 확인해주세요.');
-      } else {
-        setError('배송 추적 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.');
-      }
-    } finally {
-      setLoading(false);
+    if (trackingNumber.trim() === routeTrackingNumber) {
+      setRetryCount(count => count + 1);
+    } else {
+      navigate(getTrackingPath(trackingNumber.trim()));
     }
   };
 
+  // 연결된 반품/원 주문 운송장으로 바로 조회
+  const handleLinkedTracking = (number: string) => {
+    navigate(getTrackingPath(number));
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case '접수완료':
@@ -242,6 +282,50 @@ const TrackingPage: React.FC<TrackingPageProps> = ({ onNavigateBack }) => {
               </div>
             </div>
 
+            {/* 반품 연결 */}
+            {(trackingInfo.returnTrackingNumber || trackingInfo.originalTrackingNumber) && (
+              <div className="bg-white rounded-lg shadow-sm border p-6 space-y-2">
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">반품 정보</h3>
+                {trackingInfo.originalTrackingNumber && (
+                  <p className="text-sm text-gray-700">
+                    이 배송은 반품 회수 건입니다. 원 배송:{' '}
+                    <button
+                      onClick={() => handleLinkedTracking(trackingInfo.originalTrackingNumber!)}
+                      className="font-mono text-blue-600 underline hover:text-blue-800"
+                    >
+                      {trackingInfo.originalTrackingNumber}
+                    </button>
+                  </p>
+                )}
+                {trackingInfo.returnTrackingNumber && (
+                  <p className="text-sm text-gray-700">
+                    반품이 접수되었습니다. 회수 배송:{' '}
+                    <button
+                      onClick={() => handleLinkedTracking(trackingInfo.returnTrackingNumber!)}
+                      className="font-mono text-blue-600 underline hover:text-blue-800"
+                    >
+                      {trackingInfo.returnTrackingNumber}
+                    </button>
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* 배송완료 증빙 */}
+            {trackingInfo.proofOfDelivery && (
+              <div className="bg-white rounded-lg shadow-sm border p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">배송완료 확인</h3>
+                <ProofOfDeliveryView
+                  proof={{
+                    recipient_name: trackingInfo.proofOfDelivery.recipientName,
+                    signature_url: trackingInfo.proofOfDelivery.signatureUrl,
+                    photo_urls: trackingInfo.proofOfDelivery.photoUrls,
+                    delivered_at: trackingInfo.proofOfDelivery.deliveredAt
+                  }}
+                />
+              </div>
+            )}
+
             {/* 배송 상태 히스토리 */}
             <div className="bg-white rounded-lg shadow-sm border p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-6">배송 현황</h3>
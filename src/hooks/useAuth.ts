@@ -1,17 +1,29 @@
 import { useState, useEffect, createContext, useContext } from 'react';
-import type { User, LoginData, RegisterData } from '../types';
-import { authAPI, tokenAPI } from '../services/api';
+import type { User, LoginData, LoginResult, RegisterData, SessionSyncMessage } from '../types';
+import { authAPI, tokenAPI, getErrorMessage } from '../services/api';
+import { sessionSyncAPI } from '../services/sessionSync';
+import { createLogger } from '../utils/logger';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (data: LoginData) => Promise<void>;
+  login: (data: LoginData) => Promise<LoginResult>;
+  /** 로그인 2단계: 인증 앱 코드 또는 백업 코드로 로그인 완료 */
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
   logout: () => Promise<void>;
+  /** 서버에서 내 정보를 다시 불러와 반영 (다른 탭에도 전달) */
+  refreshUser: () => Promise<void>;
+  /** 세션이 만료되어 로그아웃된 경우 로그인 화면에 보여줄 안내 */
+  sessionExpiredMessage: string | null;
   checkUsername: (username: string) => Promise<{ available: boolean; message: string }>;
 }
 
+const log = createLogger('auth');
+
+const SESSION_EXPIRED_MESSAGE = '세션이 만료되었습니다. 다시 로그인해주세요.';
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -25,6 +37,7 @@ export const useAuth = () => {
 export const useAuthProvider = (): AuthContextType => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpiredMessage, setSessionExpiredMessage] = useState<string | null>(null);
 
   /**
    * 컴포넌트 마운트 시 기존 세션 유지 여부 확인
@@ -34,6 +47,69 @@ export const useAuthProvider = (): AuthContextType => {
     checkSession();
   }, []);
 
+  /**
+   * 토큰을 갱신할 수 없어 세션이 만료되면 로그아웃 상태로 전환
+   * (로그인 화면으로 이동하고, 로그인 후 보던 화면으로 돌아옴)
+   */
+  useEffect(() => {
+    return tokenAPI.onSessionExpired(() => {
+      setUser(null);
+      setSessionExpiredMessage(SESSION_EXPIRED_MESSAGE);
+      sessionSyncAPI.broadcast({ type: 'session-expired' });
+    });
+  }, []);
+
+  /**
+   * 다른 탭과 세션 동기화
+   * 이 탭의 토큰 갱신을 알리고, 다른 탭의 로그인·로그아웃·토큰 갱신·내 정보 변경을 반영
+   * (받은 변경은 다시 알리지 않음)
+   */
+  useEffect(() => {
+    const unsubscribeRefresh = tokenAPI.onTokenRefresh(tokens => {
+      sessionSyncAPI.broadcast({ type: 'token-refreshed', tokens });
+    });
+
+    const handleMessage = (message: SessionSyncMessage) => {
+      switch (message.type) {
+        case 'login':
+          setSessionExpiredMessage(null);
+          if (message.tokens) {
+            tokenAPI.adoptTokens(message.tokens);
+            setUser(message.user);
+            return;
+          }
+          // 토큰을 받지 못했으면 서버 세션(쿠키, 공유 저장소)으로 확인
+          authAPI.me()
+            .then(response => {
+              if (response.authenticated && response.user) setUser(response.user);
+            })
+            .catch(error => log.debug('다른 탭 로그인 반영 실패', error));
+          return;
+        case 'logout':
+          tokenAPI.clearTokens();
+          setUser(null);
+          return;
+        case 'session-expired':
+          tokenAPI.clearTokens();
+          setUser(null);
+          setSessionExpiredMessage(SESSION_EXPIRED_MESSAGE);
+          return;
+        case 'token-refreshed':
+          if (message.tokens) tokenAPI.adoptTokens(message.tokens);
+          return;
+        case 'user-updated':
+          setUser(prev => (prev && prev.id === message.user.id ? message.user : prev));
+          return;
+      }
+    };
+
+    const unsubscribeSync = sessionSyncAPI.subscribe(handleMessage);
+    return () => {
+      unsubscribeRefresh();
+      unsubscribeSync();
+    };
+  }, []);
+
   /**
    * JWT 토큰 또는 세션 상태를 확인하고 사용자 정보를 가져오는 함수
    */
@@ -41,54 +117,76 @@ export const useAuthProvider = (): AuthContextType => {
     try {
       setIsLoading(true);
       
-      // JWT 토큰이 있는지 먼저 확인
-      if (tokenAPI.isAuthenticated()) {
-        console.log('JWT 토큰이 존재함, 서버에서 사용자 정보 확인');
-      }
-      
       const response = await authAPI.me();
       if (response.authenticated && response.user) {
         setUser(response.user);
-        console.log('사용자 인증 상태 확인됨:', response.user.username);
+        tokenAPI.scheduleRefresh();
+        log.debug('세션 확인됨', { userId: response.user.id, role: response.user.role });
       } else {
         // 토큰이 있지만 서버에서 인증 실패한 경우 토큰 제거
         if (tokenAPI.isAuthenticated()) {
-          console.log('서버 인증 실패, JWT 토큰 제거');
-          tokenAPI.removeToken();
+          log.info('서버 인증 실패, 토큰 제거');
+          tokenAPI.clearTokens();
         }
       }
     } catch (error) {
-      console.log('인증 실패 - 세션 또는 JWT 토큰 없음/만료됨');
+      log.debug('로그인 세션 없음 (토큰 없음 또는 만료)', error);
       // 토큰이 만료되었거나 무효한 경우 제거
-      tokenAPI.removeToken();
+      tokenAPI.clearTokens();
     } finally {
       setIsLoading(false);
     }
   };
 
+  /**
+   * 로그인 완료 처리 (세션 만료 안내를 지우고 다른 탭에도 로그인 전달)
+   */
+  const completeLogin = (loggedInUser: User) => {
+    setUser(loggedInUser);
+    setSessionExpiredMessage(null);
+    sessionSyncAPI.broadcast({ type: 'login', user: loggedInUser, tokens: tokenAPI.getTokens() });
+    log.info('로그인 성공', { userId: loggedInUser.id });
+  };
+
   /**
    * 사용자 로그인 처리 함수 (JWT 토큰 지원)
+   * 2단계 인증을 쓰는 계정은 세션을 만들지 않고 챌린지를 반환 (verifyTwoFactor로 완료)
    * @param data - 로그인 정보 (사용자명, 비밀번호)
    * @throws {Error} 로그인 실패 시 에러 발생
    */
-  const login = async (data: LoginData) => {
+  const login = async (data: LoginData): Promise<LoginResult> => {
     try {
       const response = await authAPI.login(data);
+      if (response.two_factor_required && response.challenge_token) {
+        return { twoFactorRequired: true, challengeToken: response.challenge_token };
+      }
       if (response.user) {
-        setUser(response.user);
-        console.log('로그인 성공:', response.user.username);
-        
-        // JWT 토큰이 있는 경우 로그 출력
-        if (response.token) {
-          console.log('JWT 토큰 받음, localStorage에 저장됨');
-        }
+        completeLogin(response.user);
       }
+      return { twoFactorRequired: false };
     } catch (error: any) {
       const message = error.response?.data?.message || '로그인에 실패했습니다.';
       throw new Error(message);
     }
   };
 
+  /**
+   * 2단계 인증 코드 확인 후 로그인 완료
+   * @param challengeToken - 로그인 1단계에서 받은 챌린지
+   * @param code - 인증 앱의 6자리 코드 또는 백업 코드
+   * @throws {Error} 코드가 틀리거나 챌린지가 만료되면 에러 발생
+   */
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    try {
+      const response = await authAPI.verifyTwoFactor(challengeToken, code);
+      if (response.user) {
+        completeLogin(response.user);
+      }
+    } catch (error) {
+      throw new Error(getErrorMessage(error, '인증 코드 확인에 실패했습니다.'));
+    }
+  };
+
   /**
    * 사용자 회원가입 처리 함수
    * 회원가입 성공 후 자동으로 로그인 처리
@@ -117,13 +215,25 @@ export const useAuthProvider = (): AuthContextType => {
     try {
       await authAPI.logout(); // 이미 JWT 토큰 제거가 포함됨
       setUser(null);
-      console.log('로그아웃 완료, JWT 토큰 제거됨');
+      log.info('로그아웃 완료');
     } catch (error) {
-      console.error('로그아웃 오류:', error);
+      log.error('로그아웃 오류', error);
       // 로그아웃은 서버 오류가 있어도 클라이언트에서는 처리
-      tokenAPI.removeToken();
+      tokenAPI.clearTokens();
       setUser(null);
     }
+    sessionSyncAPI.broadcast({ type: 'logout' });
+  };
+
+  /**
+   * 내 정보(이름, 역할 등)가 바뀐 뒤 다시 불러오기
+   */
+  const refreshUser = async () => {
+    const response = await authAPI.me();
+    if (response.authenticated && response.user) {
+      setUser(response.user);
+      sessionSyncAPI.broadcast({ type: 'user-updated', user: response.user });
+    }
   };
 
   /**
@@ -146,8 +256,11 @@ export const useAuthProvider = (): AuthContextType => {
     isLoading,
     isAuthenticated: !!user,
     login,
+    verifyTwoFactor,
     register,
     logout,
+    refreshUser,
+    sessionExpiredMessage,
     checkUsername
   };
 };
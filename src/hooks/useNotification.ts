@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { claimAcrossTabs } from '../services/crossTab';
 
 interface NotificationOptions {
   title: string;
@@ -89,13 +90,14 @@ export const useNotification = () => {
     setToasts([]);
   }, []);
 
-  // 주문 상태 변경 알림 (통합)
+  // 주문 상태 변경 알림 (통합, orderCount가 2 이상이면 일괄 변경 알림 1건으로 표시)
   const notifyOrderStatusChange = useCallback(async (
     orderInfo: {
       orderId: number;
       status: string;
       customerName?: string;
       trackingNumber?: string;
+      orderCount?: number;
     }
   ) => {
     const statusMessages = {
@@ -114,6 +116,26 @@ export const useNotification = () => {
       ? `운송장: ${orderInfo.trackingNumber}`
       : `주문번호: ${orderInfo.orderId}`;
 
+    if (orderInfo.orderCount && orderInfo.orderCount > 1) {
+      await showBrowserNotification({
+        title: `${statusInfo.emoji} ${statusInfo.title}`,
+        body: `${orderInfo.orderCount}건의 주문이 ${orderInfo.status} 상태로 변경되었습니다.`,
+        tag: `orders-batch-${orderInfo.status}-${Date.now()}`,
+        timeout: 8000,
+      });
+
+      showToast({
+        type: statusInfo.color as ToastNotification['type'],
+        title: `${statusInfo.title} (일괄)`,
+        message: `${orderInfo.orderCount}건의 주문이 ${orderInfo.status} 상태로 변경되었습니다.`,
+        timeout: 5000,
+      });
+      return;
+    }
+
+    // 같은 주문 알림은 여러 탭 중 한 탭에서만 표시
+    if (!(await claimAcrossTabs(`order-${orderInfo.orderId}-${orderInfo.status}`))) return;
+
     // 브라우저 알림
     await showBrowserNotification({
       title: `${statusInfo.emoji} ${statusInfo.title}`,
@@ -139,6 +161,8 @@ export const useNotification = () => {
     productName?: string;
     amount?: number;
   }) => {
+    if (!(await claimAcrossTabs(`new-order-${orderInfo.orderId}`))) return;
+
     // 브라우저 알림
     await showBrowserNotification({
       title: '🆕 새 주문 접수',
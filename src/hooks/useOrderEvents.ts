@@ -0,0 +1,41 @@
+import { useState, useEffect, useRef } from 'react';
+import type { OrderRealtimeEvent, RealtimeConnectionState } from '../types';
+import { realtimeAPI } from '../services/realtime';
+
+/**
+ * 실시간 주문 이벤트 구독 훅
+ * 여러 컴포넌트가 구독해도 WebSocket 연결은 하나만 유지됨
+ *
+ * @param onEvent - 주문 생성/상태 변경 이벤트 수신 시 호출되는 콜백
+ * @param enabled - false면 구독하지 않음 (예: 로그인 전)
+ * @returns 현재 실시간 연결 상태
+ */
+export const useOrderEvents = (
+  onEvent: (event: OrderRealtimeEvent) => void,
+  enabled = true
+): RealtimeConnectionState => {
+  const [connectionState, setConnectionState] = useState<RealtimeConnectionState>(realtimeAPI.getConnectionState());
+  const onEventRef = useRef(onEvent);
+
+  // 콜백이 바뀌어도 재구독하지 않도록 최신 콜백을 ref로 유지
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribeState = realtimeAPI.onConnectionStateChange(setConnectionState);
+    const unsubscribe = realtimeAPI.subscribe((event) => onEventRef.current(event));
+    setConnectionState(realtimeAPI.getConnectionState());
+
+    return () => {
+      unsubscribeState();
+      unsubscribe();
+    };
+  }, [enabled]);
+
+  return enabled ? connectionState : 'disconnected';
+};
+
+export default useOrderEvents;
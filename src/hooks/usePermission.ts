@@ -0,0 +1,19 @@
+import { useCallback } from 'react';
+import type { Permission } from '../types';
+import { hasPermission } from '../utils/permissions';
+import { useAuth } from './useAuth';
+
+/**
+ * 현재 사용자의 권한 확인 함수를 반환하는 훅
+ * 여러 권한을 확인하는 컴포넌트에서 사용
+ */
+export const usePermissions = () => {
+  const { user } = useAuth();
+  const role = user?.role;
+  return useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+};
+
+/**
+ * 현재 사용자에게 권한이 있는지 확인하는 훅
+ */
+export const usePermission = (permission: Permission): boolean => usePermissions()(permission);
@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import type { RateCard } from '../types';
+import { pricingAPI } from '../services/api';
+import { DEFAULT_RATE_CARD } from '../utils/pricing';
+
+/**
+ * 현재 적용 중인 배송비 요금표 조회 훅
+ * 서버 요금표를 불러오기 전이나 실패한 경우 기본 요금표로 견적을 표시
+ *
+ * @returns 요금표와 서버 요금표 사용 여부
+ */
+export const useRateCard = (): { rateCard: RateCard; isFallback: boolean } => {
+  const [rateCard, setRateCard] = useState<RateCard | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    pricingAPI.getActiveRateCard()
+      .then(({ rateCard: activeRateCard }) => {
+        if (!cancelled && activeRateCard) setRateCard(activeRateCard);
+      })
+      .catch(error => console.error('요금표 조회 실패:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { rateCard: rateCard ?? DEFAULT_RATE_CARD, isFallback: !rateCard };
+};
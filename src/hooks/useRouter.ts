@@ -0,0 +1,73 @@
+import { useState, useEffect, useCallback, useMemo, createContext, useContext } from 'react';
+import { parseRoute, getScreenName } from '../utils/routes';
+import type { Route } from '../utils/routes';
+
+interface NavigateOptions {
+  /** 히스토리에 새 항목을 쌓지 않고 현재 항목을 교체 (필터 변경, 리다이렉트 등) */
+  replace?: boolean;
+}
+
+interface RouterContextType {
+  route: Route;
+  pathname: string;
+  search: string;
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+export const useRouter = () => {
+  const context = useContext(RouterContext);
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+  return context;
+};
+
+const readLocation = () => ({ pathname: window.location.pathname, search: window.location.search });
+
+/**
+ * History API 기반 라우터
+ * 현재 URL을 화면 경로로 해석하고, 브라우저 뒤로/앞으로 가기(popstate)를 반영
+ */
+export const useRouterProvider = (): RouterContextType => {
+  const [location, setLocation] = useState(readLocation);
+
+  useEffect(() => {
+    const handlePopState = () => setLocation(readLocation());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  /**
+   * 다른 경로로 이동
+   * @param to - 경로와 쿼리 문자열 (예: /orders/12?status=배송중)
+   */
+  const navigate = useCallback((to: string, { replace = false }: NavigateOptions = {}) => {
+    const url = new URL(to, window.location.origin);
+    const previousPathname = window.location.pathname;
+    if (url.pathname === previousPathname && url.search === window.location.search) return;
+
+    if (replace) {
+      window.history.replaceState(null, '', url.pathname + url.search);
+    } else {
+      window.history.pushState(null, '', url.pathname + url.search);
+      // 다른 화면으로 이동하면 맨 위부터 표시 (같은 화면에서 모달만 여닫는 경우 제외)
+      if (getScreenName(parseRoute(url.pathname)) !== getScreenName(parseRoute(previousPathname))) {
+        window.scrollTo(0, 0);
+      }
+    }
+    setLocation({ pathname: url.pathname, search: url.search });
+  }, []);
+
+  const route = useMemo(() => parseRoute(location.pathname, location.search), [location]);
+
+  return useMemo(() => ({
+    route,
+    pathname: location.pathname,
+    search: location.search,
+    navigate
+  }), [route, location, navigate]);
+};
+
+export { RouterContext };
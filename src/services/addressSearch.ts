@@ -0,0 +1,86 @@
+import { addressAPI } from './api';
+import type { AddressSearchResponse } from '../types';
+
+/**
+ * 주소 검색 공급자
+ * 도로명주소 API, 자체 서버, 오프라인 샘플 등 검색 출처를 바꿔 끼울 수 있도록 분리
+ */
+export interface AddressSearchProvider {
+  id: string;
+  /** 검색 대화상자에 표시할 출처 이름 */
+  label: string;
+  search: (keyword: string, page: number, limit: number) => Promise<AddressSearchResponse>;
+}
+
+/** 검색어 비교용 정규화 (공백 제거, 소문자) */
+const normalize = (value: string) => value.replace(/\s+/g, '').toLowerCase();
+
+/**
+ * 서버 주소 검색 API를 사용하는 공급자 (운영 기본값)
+ */
+export const apiAddressProvider: AddressSearchProvider = {
+  id: 'api',
+  label: '주소 검색 서버',
+  search: (keyword, page, limit) => addressAPI.search(keyword, page, limit)
+};
+
+/**
+ * 번들된 샘플 데이터에서 검색하는 오프라인 공급자 (로컬 개발/테스트용)
+ * 띄어쓰기로 나눈 검색어가 모두 도로명·지번 주소, 건물명, 우편번호 중 어딘가에 포함되면 일치
+ */
+export const localAddressProvider: AddressSearchProvider = {
+  id: 'local',
+  label: '오프라인 샘플 데이터',
+  search: async (keyword, page, limit) => {
+    // 운영 번들에 샘플 데이터가 포함되지 않도록 필요할 때만 불러옴
+    const { SAMPLE_ADDRESSES } = await import('./sampleAddresses');
+    const tokens = keyword.split(/\s+/).map(normalize).filter(Boolean);
+
+    const matched = SAMPLE_ADDRESSES.filter(address => {
+      const haystack = normalize(
+        [address.roadAddress, address.jibunAddress, address.buildingName || '', address.zipcode].join('|')
+      );
+      return tokens.every(token => haystack.includes(token));
+    });
+
+    return {
+      results: matched.slice((page - 1) * limit, page * limit),
+      total: matched.length
+    };
+  }
+};
+
+const PROVIDERS: Record<string, AddressSearchProvider> = {
+  [apiAddressProvider.id]: apiAddressProvider,
+  [localAddressProvider.id]: localAddressProvider
+};
+
+/**
+ * 기본 공급자 선택
+ * VITE_ADDRESS_PROVIDER(api | local)로 지정하고, 없으면 개발 모드는 오프라인 샘플, 그 외에는 서버 API
+ */
+const resolveDefaultProvider = (): AddressSearchProvider => {
+  const configured = import.meta.env.VITE_ADDRESS_PROVIDER;
+  if (configured && PROVIDERS[configured]) {
+    return PROVIDERS[configured];
+  }
+  return import.meta.env.DEV ? localAddressProvider : apiAddressProvider;
+};
+
+let currentProvider = resolveDefaultProvider();
+
+export const getAddressSearchProvider = (): AddressSearchProvider => currentProvider;
+
+/**
+ * 주소 검색 공급자 교체 (외부 주소 API 연동, 테스트 등)
+ */
+export const setAddressSearchProvider = (provider: AddressSearchProvider): void => {
+  currentProvider = provider;
+};
+
+/**
+ * 현재 공급자로 주소 검색
+ * @param keyword - 도로명, 지번, 건물명 또는 우편번호
+ */
+export const searchAddress = (keyword: string, page = 1, limit = 10): Promise<AddressSearchResponse> =>
+  currentProvider.search(keyword.trim(), page, limit);
@@ -1,38 +1,213 @@
 import axios from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
 import type { 
   User, 
+  AuthTokens,
   LoginData, 
+  LoginResponse,
   RegisterData, 
   ShippingOrderData,
+  ShippingFeeQuoteFields,
   ShippingOrder,
-  ShippingOrderListItem,
+  ShippingOrderListQuery,
+  OrderStatusChangeDetails,
+  OrderHistoryEntry,
+  OrderFieldChange,
+  ReturnRequest,
+  ReturnRequestData,
+  ProofOfDelivery,
+  ProofOfDeliveryUpload,
+  ShippingStatistics,
+  StatisticsRange,
+  AddressBookEntry,
+  AddressBookEntryData,
+  AddressBookEntryType,
+  AddressSearchResponse,
+  OrderTemplate,
+  RateCard,
+  RateCardVersion,
+  RateCardVersionData,
+  ShippingQuote,
+  ShippingQuoteInput,
+  TwoFactorStatus,
+  TwoFactorEnrollment,
+  TwoFactorPolicy,
   Pagination 
 } from '../types';
+import { getTokenExpiresAt } from '../utils/jwt';
+import { createLogger } from '../utils/logger';
+import { getTokenStorage } from './tokenStorage';
 
 /**
  * API 베이스 URL 설정 (환경변수에서 가져오거나 기본값 사용)
  */
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
+
+const log = createLogger('api');
 
 /**
- * JWT 토큰을 localStorage에서 가져오는 함수
+ * 현재 액세스 토큰 (보관 위치는 토큰 저장소 설정에 따름)
  */
 const getToken = (): string | null => {
-  return localStorage.getItem('jwt_token');
+  return getTokenStorage().getAccessToken();
 };
 
 /**
- * JWT 토큰을 localStorage에 저장하는 함수
+ * 액세스 토큰 저장
  */
 const setToken = (token: string): void => {
-  localStorage.setItem('jwt_token', token);
+  getTokenStorage().save({ token });
 };
 
 /**
- * JWT 토큰을 localStorage에서 제거하는 함수
+ * 액세스 토큰 제거 (리프레시 토큰까지 지우려면 clearTokens)
  */
 const removeToken = (): void => {
-  localStorage.removeItem('jwt_token');
+  const storage = getTokenStorage();
+  const refreshToken = storage.getRefreshToken();
+  storage.clear();
+  if (refreshToken) storage.save({ refreshToken });
+};
+
+/**
+ * 리프레시 토큰 (액세스 토큰 재발급용, 쿠키 모드에서는 스크립트로 읽을 수 없으므로 null)
+ */
+const getRefreshToken = (): string | null => {
+  return getTokenStorage().getRefreshToken();
+};
+
+/**
+ * 토큰 갱신을 시도할 수 있는지 (리프레시 토큰이 있거나 서버가 쿠키로 관리)
+ */
+const canRefresh = (): boolean => getTokenStorage().usesRefreshCookie || !!getRefreshToken();
+
+/**
+ * 로그인 또는 세션 확인에 성공한 뒤 로그아웃 전까지 true
+ * 쿠키 모드는 클라이언트에 토큰이 없을 수 있어 로그인한 적 있는지 따로 기록
+ */
+let hasActiveSession = false;
+
+/** 세션이 있었는지 (로그인한 적 없는 상태의 401은 세션 만료로 보지 않음) */
+const hadSession = (): boolean => hasActiveSession || !!getToken() || !!getRefreshToken();
+
+/** 만료 이 시간 전에 액세스 토큰을 미리 갱신 */
+const REFRESH_BEFORE_EXPIRY_MS = 60 * 1000;
+/** 여러 탭이 같은 토큰을 동시에 갱신하지 않도록 탭마다 갱신 시점을 이 범위 안에서 앞당김 */
+const REFRESH_JITTER_MS = 30 * 1000;
+/** setTimeout 최대 지연 시간 (약 24.8일, 넘으면 즉시 실행됨) */
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+const cancelTokenRefresh = () => {
+  if (refreshTimer !== null) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+/**
+ * 액세스 토큰 만료(exp) 직전에 갱신 예약
+ * 요청이 401로 실패한 뒤 갱신하면 화면에 지연이 생기므로 미리 갱신
+ */
+const scheduleTokenRefresh = () => {
+  cancelTokenRefresh();
+  const token = getToken();
+  const expiresAt = token ? getTokenExpiresAt(token) : null;
+  if (expiresAt === null || !canRefresh()) return;
+
+  // 먼저 갱신한 탭이 새 토큰을 다른 탭에 전달하면 그 탭들은 새 토큰 기준으로 다시 예약
+  const jitter = Math.random() * REFRESH_JITTER_MS;
+  const delay = Math.min(Math.max(expiresAt - Date.now() - REFRESH_BEFORE_EXPIRY_MS - jitter, 0), MAX_TIMER_DELAY_MS);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    refreshAccessToken().catch(handleRefreshFailure);
+  }, delay);
+};
+
+/**
+ * 로그인·토큰 갱신 응답의 토큰 저장
+ * 리프레시 토큰은 갱신 응답에 새로 오면(회전) 교체
+ */
+const saveTokens = (data: AuthTokens): void => {
+  getTokenStorage().save({ token: data.token, refreshToken: data.refreshToken });
+  hasActiveSession = true;
+  scheduleTokenRefresh();
+};
+
+/**
+ * 액세스 토큰과 리프레시 토큰 모두 제거 (로그아웃, 세션 만료)
+ */
+const clearTokens = (): void => {
+  cancelTokenRefresh();
+  getTokenStorage().clear();
+  hasActiveSession = false;
+};
+
+type SessionExpiredListener = () => void;
+type TokenRefreshListener = (tokens: AuthTokens) => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+const tokenRefreshListeners = new Set<TokenRefreshListener>();
+
+/**
+ * 세션 만료 처리 (토큰 제거 후 구독자에게 알림 — AuthContext가 로그인 화면으로 보냄)
+ */
+const expireSession = () => {
+  const notify = hadSession();
+  clearTokens();
+  if (!notify) return;
+  sessionExpiredListeners.forEach(listener => listener());
+};
+
+/**
+ * 리프레시 토큰으로 액세스 토큰 재발급
+ * 인터셉터를 거치지 않도록 기본 axios로 요청
+ * @returns 새 액세스 토큰 (쿠키 모드에서 서버가 쿠키로만 발급하면 null)
+ */
+const requestTokenRefresh = async (): Promise<string | null> => {
+  const refreshToken = getRefreshToken();
+  const response = await axios.post(
+    `${API_BASE_URL}/auth/refresh`,
+    refreshToken ? { refreshToken } : {},
+    { withCredentials: true, timeout: 10000 }
+  );
+  const token: string | undefined = response.data?.token;
+  if (!token && !getTokenStorage().usesRefreshCookie) {
+    throw new Error('토큰 갱신 응답에 토큰이 없습니다.');
+  }
+  const tokens: AuthTokens = { token, refreshToken: response.data?.refreshToken };
+  saveTokens(tokens);
+  tokenRefreshListeners.forEach(listener => listener(tokens));
+  return token ?? null;
+};
+
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * 액세스 토큰 갱신 (single-flight)
+ * 여러 요청이 동시에 401을 받아도 갱신 요청은 한 번만 보내고, 모두 같은 결과를 기다림
+ */
+const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = requestTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+/**
+ * 토큰 갱신 실패 처리
+ * 리프레시 토큰이 거부되면 세션 만료, 네트워크 오류 등은 로그인 상태 유지 (다음 요청에서 다시 시도)
+ */
+const handleRefreshFailure = (error: unknown) => {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  if (status === undefined || status >= 500) {
+    log.warn('토큰 갱신 실패, 다음 요청에서 다시 시도합니다.', error);
+    return;
+  }
+  expireSession();
 };
 
 /**
@@ -49,35 +224,75 @@ const apiClient = axios.create({
 });
 
 /**
- * 요청 인터셉터 - JWT 토큰 헤더 추가 (디버깅 로그 포함)
+ * 2단계 인증 서버 스텁 (VITE_TWO_FACTOR_STUB=true인 로컬 개발 환경만)
+ * 2단계 인증 API가 없는 서버에서도 등록·로그인 흐름을 확인할 수 있도록 해당 요청을 브라우저에서 처리
+ * 운영 번들에 포함되지 않도록 요청할 때 불러옴
+ */
+if (import.meta.env.VITE_TWO_FACTOR_STUB === 'true') {
+  const defaultAdapter = axios.getAdapter(apiClient.defaults.adapter);
+  apiClient.defaults.adapter = async (config) => {
+    const { handleTwoFactorStubRequest } = await import('./twoFactorStub');
+    return handleTwoFactorStubRequest(config, defaultAdapter);
+  };
+}
+
+/**
+ * 요청 인터셉터 - JWT 토큰 헤더 추가
+ * 토큰 값은 로그에 남기지 않음
  */
 apiClient.interceptors.request.use(
   (config) => {
     const token = getToken();
-    console.log('[API Request]', config.method?.toUpperCase(), config.url);
-    console.log('[JWT Token Check]', token ? `토큰 있음: ${token.substring(0, 20)}...` : '토큰 없음');
+    log.debug(`${config.method?.toUpperCase()} ${config.url}`, { authenticated: !!token });
     
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
-      console.log('[Authorization Header]', '설정됨');
-    } else {
-      console.log('[Authorization Header]', '설정 안됨 - JWT 토큰 없음');
     }
     return config;
   },
   (error) => Promise.reject(error)
 );
 
+/** 401이어도 토큰 갱신을 시도하지 않는 요청 (로그인 실패 등은 갱신 대상이 아님) */
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/logout', '/auth/refresh', '/auth/2fa/verify'];
+
+/** 토큰 갱신 후 한 번만 재시도하도록 표시 */
+type RetryableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
 /**
  * 응답 인터셉터 설정 - 인증 오류 처리 및 토큰 만료 처리
+ * - 401(인증 만료): 토큰을 갱신하고 원래 요청을 재시도, 갱신할 수 없으면 세션 만료
+ * - 403(권한 없음): 로그인 상태는 유지하고 오류만 전달
  */
 apiClient.interceptors.response.use(
   (response) => response,
-  (error) => {
-    if (error.response?.status === 401 || error.response?.status === 403) {
-      // 인증 실패 또는 토큰 만료 시 토큰 제거
-      removeToken();
-      console.warn('인증이 필요합니다.');
+  async (error) => {
+    const config = error.config as RetryableRequestConfig | undefined;
+
+    if (error.response?.status === 401 && config && !NO_REFRESH_URLS.includes(config.url ?? '')) {
+      if (config._retried || !canRefresh()) {
+        expireSession();
+        return Promise.reject(error);
+      }
+
+      try {
+        const token = await refreshAccessToken();
+        config._retried = true;
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        } else {
+          // 쿠키로 인증 (요청 인터셉터가 현재 토큰으로 다시 설정)
+          delete config.headers.Authorization;
+        }
+        return apiClient(config);
+      } catch (refreshError) {
+        handleRefreshFailure(refreshError);
+        return Promise.reject(error);
+      }
+    }
+
+    if (error.response?.status === 403) {
+      log.warn('권한이 없는 요청입니다.', { url: config?.url });
     }
     return Promise.reject(error);
   }
@@ -106,26 +321,27 @@ export const authAPI = {
     return response.data;
   },
 
-  // 로그인
-  login: async (data: LoginData) => {
-    console.log('[Login]', '로그인 요청 시작:', data.username);
+  // 로그인 (2단계 인증 계정은 토큰 대신 challenge_token을 받고 verifyTwoFactor로 완료)
+  login: async (data: LoginData): Promise<LoginResponse> => {
     const response = await apiClient.post('/auth/login', data);
-    
-    console.log('[Login Response]', response.data);
-    
-    // JWT 토큰이 있으면 localStorage에 저장
-    if (response.data.token) {
-      console.log('[JWT Token]', `받은 토큰: ${response.data.token.substring(0, 30)}...`);
-      setToken(response.data.token);
-      console.log('[JWT Token]', 'localStorage에 저장 완료');
-      
-      // 저장 확인
-      const savedToken = getToken();
-      console.log('[JWT Token Verification]', savedToken ? '저장된 토큰 확인됨' : '저장 실패!');
-    } else {
-      console.log('[JWT Token]', '서버에서 토큰을 받지 못함');
+
+    if (response.data.two_factor_required) {
+      log.info('2단계 인증 코드 확인 필요');
+      return response.data;
     }
-    
+
+    // 받은 토큰을 토큰 저장소에 보관 (토큰이 없으면 서버 쿠키로 인증)
+    saveTokens(response.data);
+    log.info('로그인 완료', { storage: getTokenStorage().id });
+
+    return response.data;
+  },
+
+  // 로그인 2단계: 인증 앱 코드 또는 백업 코드 확인
+  verifyTwoFactor: async (challengeToken: string, code: string): Promise<LoginResponse> => {
+    const response = await apiClient.post('/auth/2fa/verify', { challenge_token: challengeToken, code });
+    saveTokens(response.data);
+    log.info('2단계 인증 완료', { storage: getTokenStorage().id });
     return response.data;
   },
 
@@ -134,7 +350,7 @@ export const authAPI = {
     const response = await apiClient.post('/auth/logout');
     
     // JWT 토큰 제거
-    removeToken();
+    clearTokens();
     
     return response.data;
   },
@@ -142,6 +358,9 @@ export const authAPI = {
   // 현재 사용자 정보
   me: async (): Promise<{ user: User; authenticated: boolean }> => {
     const response = await apiClient.get('/auth/me');
+    if (response.data.authenticated) {
+      hasActiveSession = true;
+    }
     return response.data;
   }
 };
@@ -152,17 +371,27 @@ export const authAPI = {
  */
 export const shippingAPI = {
   // 배송접수 생성
-  createOrder: async (data: ShippingOrderData) => {
+  createOrder: async (data: ShippingOrderData & ShippingFeeQuoteFields) => {
     const response = await apiClient.post('/shipping/orders', data);
     return response.data;
   },
 
-  // 배송접수 목록 조회
-  getOrders: async (page = 1, limit = 10): Promise<{
-    orders: ShippingOrderListItem[];
+  // 배송접수 목록 조회 (서버 측 페이지네이션, 검색, 필터, 정렬)
+  getOrders: async (page = 1, limit = 10, query: ShippingOrderListQuery = {}): Promise<{
+    orders: ShippingOrder[];
     pagination: Pagination;
   }> => {
-    const response = await apiClient.get(`/shipping/orders?page=${page}&limit=${limit}`);
+    const params = new URLSearchParams({
+      page: page.toString(),
+      limit: limit.toString(),
+      ...(query.search && { search: query.search }),
+      ...(query.status && { status: query.status }),
+      ...(query.startDate && { startDate: query.startDate }),
+      ...(query.endDate && { endDate: query.endDate }),
+      ...(query.sortBy && { sortBy: query.sortBy }),
+      ...(query.sortOrder && { sortOrder: query.sortOrder })
+    });
+    const response = await apiClient.get(`/shipping/orders?${params}`);
     return response.data;
   },
 
@@ -172,15 +401,75 @@ export const shippingAPI = {
     return response.data;
   },
 
+  // 배송 통계 조회 (기간별 상태 집계, 일자별 접수량, 상태 전이)
+  getStatistics: async (range: StatisticsRange): Promise<ShippingStatistics> => {
+    const params = new URLSearchParams({
+      startDate: range.startDate,
+      endDate: range.endDate
+    });
+    const response = await apiClient.get(`/shipping/statistics?${params}`);
+    return response.data;
+  },
+
   // 운송장 추적 (공개 API)
   trackShipment: async (trackingNumber: string) => {
     const response = await apiClient.get(`/shipping/tracking/${trackingNumber}`);
     return response.data;
   },
 
-  // 배송 접수 상태 업데이트
-  updateOrderStatus: async (id: number, status: string) => {
-    const response = await apiClient.patch(`/shipping/orders/${id}/status`, { status });
+  // 배송 접수 상태 업데이트 (취소/반송 사유, 배송기사의 배송 위치 메모를 함께 기록)
+  updateOrderStatus: async (id: number, status: string, details: OrderStatusChangeDetails = {}) => {
+    const response = await apiClient.patch(`/shipping/orders/${id}/status`, { status, ...details });
+    return response.data;
+  },
+
+  // 주문 수정 (접수완료/배송준비 상태에서만 — 바뀐 필드만 보내고 필드별 변경 내역을 이력으로 남김)
+  updateOrder: async (
+    id: number,
+    data: Partial<ShippingOrderData> & ShippingFeeQuoteFields,
+    changes: OrderFieldChange[]
+  ): Promise<{ order: ShippingOrder; changes: OrderFieldChange[] }> => {
+    const response = await apiClient.patch(`/shipping/orders/${id}`, { ...data, changes });
+    return response.data;
+  },
+
+  // 주문자 본인 취소 (접수완료/배송준비 상태에서만, 사유 필수)
+  cancelOrder: async (id: number, reason: string): Promise<{ order: ShippingOrder }> => {
+    const response = await apiClient.post(`/shipping/orders/${id}/cancel`, { reason });
+    return response.data;
+  },
+
+  // 주문 변경 이력 조회 (상태 변경, 운송장 할당 등 — 직원과 주문자 모두 조회 가능)
+  getOrderHistory: async (id: number): Promise<{ history: OrderHistoryEntry[] }> => {
+    const response = await apiClient.get(`/shipping/orders/${id}/history`);
+    return response.data;
+  },
+
+  // 배송완료 증빙 업로드 (서명 이미지와 현장 사진을 multipart로 전송)
+  uploadProofOfDelivery: async (id: number, proof: ProofOfDeliveryUpload): Promise<{ proof_of_delivery: ProofOfDelivery }> => {
+    const formData = new FormData();
+    formData.append('recipient_name', proof.recipient_name);
+    if (proof.signature) {
+      formData.append('signature', proof.signature, 'signature.png');
+    }
+    proof.photos.forEach(photo => formData.append('photos', photo));
+
+    const response = await apiClient.post(`/shipping/orders/${id}/proof-of-delivery`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  },
+
+  // 배송기사 배정 (driverId가 null이면 배정 해제)
+  assignDriver: async (id: number, driverId: number | null): Promise<{ order: ShippingOrder }> => {
+    const response = await apiClient.patch(`/shipping/orders/${id}/driver`, { driver_id: driverId });
+    return response.data;
+  },
+
+  // 로그인한 배송기사에게 배정된 주문 조회
+  getAssignedOrders: async (scope: 'active' | 'completed' = 'active'): Promise<{ orders: ShippingOrder[] }> => {
+    const params = new URLSearchParams({ scope });
+    const response = await apiClient.get(`/shipping/orders/assigned?${params}`);
     return response.data;
   },
 
@@ -263,6 +552,214 @@ export const userAPI = {
   }
 };
 
+/**
+ * 배송접수 템플릿 API 함수들
+ * 같은 고객/같은 화물의 반복 발송을 위해 폼 입력값을 이름 붙여 저장
+ */
+export const templateAPI = {
+  // 내 템플릿 목록 조회
+  getTemplates: async (): Promise<{ templates: OrderTemplate[] }> => {
+    const response = await apiClient.get('/shipping/templates');
+    return response.data;
+  },
+
+  // 템플릿 저장
+  createTemplate: async (name: string, data: Partial<ShippingOrderData>): Promise<{ template: OrderTemplate }> => {
+    const response = await apiClient.post('/shipping/templates', { name, data });
+    return response.data;
+  },
+
+  // 템플릿 삭제
+  deleteTemplate: async (id: number) => {
+    const response = await apiClient.delete(`/shipping/templates/${id}`);
+    return response.data;
+  }
+};
+
+/**
+ * 주소록 API 함수들
+ * 자주 쓰는 발송인/수취인 주소 저장 및 사용자별 기본 발송인 관리
+ */
+export const addressBookAPI = {
+  // 주소록 조회 (구분, 검색어로 필터링)
+  getAddresses: async (type?: AddressBookEntryType, search = ''): Promise<{ addresses: AddressBookEntry[] }> => {
+    const params = new URLSearchParams({
+      ...(type && { type }),
+      ...(search && { search })
+    });
+    const response = await apiClient.get(`/address-book?${params}`);
+    return response.data;
+  },
+
+  // 주소 추가
+  createAddress: async (data: AddressBookEntryData): Promise<{ address: AddressBookEntry }> => {
+    const response = await apiClient.post('/address-book', data);
+    return response.data;
+  },
+
+  // 주소 수정
+  updateAddress: async (id: number, data: Partial<AddressBookEntryData>): Promise<{ address: AddressBookEntry }> => {
+    const response = await apiClient.put(`/address-book/${id}`, data);
+    return response.data;
+  },
+
+  // 주소 삭제
+  deleteAddress: async (id: number) => {
+    const response = await apiClient.delete(`/address-book/${id}`);
+    return response.data;
+  },
+
+  // 기본 발송인 조회 (없으면 address가 null)
+  getDefaultSender: async (): Promise<{ address: AddressBookEntry | null }> => {
+    const response = await apiClient.get('/address-book/default-sender');
+    return response.data;
+  },
+
+  // 기본 발송인 지정 (기존 기본 발송인은 서버에서 해제)
+  setDefaultSender: async (id: number) => {
+    const response = await apiClient.patch(`/address-book/${id}/default`);
+    return response.data;
+  }
+};
+
+/**
+ * 주소 검색 API (서버가 도로명주소 API를 중계)
+ * 화면에서는 services/addressSearch.ts의 공급자를 통해 사용
+ */
+export const addressAPI = {
+  // 도로명/지번 주소 키워드 검색
+  search: async (keyword: string, page = 1, limit = 10): Promise<AddressSearchResponse> => {
+    const params = new URLSearchParams({
+      keyword,
+      page: page.toString(),
+      limit: limit.toString()
+    });
+    const response = await apiClient.get(`/address/search?${params}`);
+    return response.data;
+  }
+};
+
+/**
+ * 배송비 요금표 API
+ * 견적은 화면에서 utils/pricing.ts로 계산하고, 접수 시 서버가 같은 요금표로 재계산해 확정
+ */
+export const pricingAPI = {
+  // 현재 적용 중인 요금표 조회
+  getActiveRateCard: async (): Promise<{ rateCard: RateCard }> => {
+    const response = await apiClient.get('/pricing/rate-card');
+    return response.data;
+  },
+
+  // 요금표 버전 목록 조회 (관리자만)
+  getRateCardVersions: async (): Promise<{ rateCards: RateCardVersion[] }> => {
+    const response = await apiClient.get('/pricing/rate-cards');
+    return response.data;
+  },
+
+  // 새 요금표 버전 등록 (관리자만)
+  createRateCardVersion: async (data: RateCardVersionData): Promise<{ rateCard: RateCardVersion }> => {
+    const response = await apiClient.post('/pricing/rate-cards', data);
+    return response.data;
+  },
+
+  // 적용 전 요금표 버전 수정 (관리자만)
+  updateRateCardVersion: async (id: number, data: RateCardVersionData): Promise<{ rateCard: RateCardVersion }> => {
+    const response = await apiClient.put(`/pricing/rate-cards/${id}`, data);
+    return response.data;
+  },
+
+  // 적용 전 요금표 버전 삭제 (관리자만)
+  deleteRateCardVersion: async (id: number) => {
+    const response = await apiClient.delete(`/pricing/rate-cards/${id}`);
+    return response.data;
+  },
+
+  // 저장된 요금표 버전으로 서버 견적 계산 (rateCardId가 없으면 현재 적용 중인 요금표)
+  simulate: async (input: ShippingQuoteInput, rateCardId?: number): Promise<{ quote: ShippingQuote }> => {
+    const response = await apiClient.post('/pricing/simulate', { ...input, rate_card_id: rateCardId });
+    return response.data;
+  }
+};
+
+/**
+ * 반품(반송) API
+ * 배송완료된 주문에 반품을 요청하고, 승인하면 서버가 발송인/수취인을 바꾼 회수 주문을 새 운송장으로 생성
+ */
+export const returnsAPI = {
+  // 반품 요청 (주문자 또는 직원, 사유 필수 + 사진 첨부)
+  requestReturn: async (orderId: number, data: ReturnRequestData): Promise<{ returnRequest: ReturnRequest }> => {
+    const formData = new FormData();
+    formData.append('reason', data.reason);
+    data.photos.forEach(photo => formData.append('photos', photo));
+
+    const response = await apiClient.post(`/shipping/orders/${orderId}/returns`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' }
+    });
+    return response.data;
+  },
+
+  // 반품 승인 → 회수 주문 생성 (관리자/매니저)
+  approveReturn: async (returnId: number): Promise<{ returnRequest: ReturnRequest; returnOrder: ShippingOrder }> => {
+    const response = await apiClient.post(`/returns/${returnId}/approve`);
+    return response.data;
+  },
+
+  // 반품 거절 (관리자/매니저, 사유 필수)
+  rejectReturn: async (returnId: number, reason: string): Promise<{ returnRequest: ReturnRequest }> => {
+    const response = await apiClient.post(`/returns/${returnId}/reject`, { reason });
+    return response.data;
+  }
+};
+
+/**
+ * 2단계 인증(TOTP) API
+ * 인증 앱 등록·해제, 백업 코드 재발급과 역할별 필수 정책 관리
+ * 해제와 백업 코드 재발급은 현재 인증 코드를 다시 확인
+ */
+export const twoFactorAPI = {
+  // 내 2단계 인증 상태
+  getStatus: async (): Promise<TwoFactorStatus> => {
+    const response = await apiClient.get('/auth/2fa');
+    return response.data;
+  },
+
+  // 등록 시작 (새 비밀키 발급, 코드를 확인하기 전까지는 적용되지 않음)
+  startEnrollment: async (): Promise<TwoFactorEnrollment> => {
+    const response = await apiClient.post('/auth/2fa/setup');
+    return response.data;
+  },
+
+  // 인증 앱에 표시된 코드로 등록 완료 → 백업 코드 발급 (이때 한 번만 표시)
+  confirmEnrollment: async (code: string): Promise<{ backup_codes: string[] }> => {
+    const response = await apiClient.post('/auth/2fa/enable', { code });
+    return response.data;
+  },
+
+  // 2단계 인증 해제 (정책상 필수인 역할은 불가)
+  disable: async (code: string) => {
+    const response = await apiClient.post('/auth/2fa/disable', { code });
+    return response.data;
+  },
+
+  // 백업 코드 재발급 (이전 백업 코드는 모두 무효)
+  regenerateBackupCodes: async (code: string): Promise<{ backup_codes: string[] }> => {
+    const response = await apiClient.post('/auth/2fa/backup-codes', { code });
+    return response.data;
+  },
+
+  // 역할별 필수 정책 조회 (관리자)
+  getPolicy: async (): Promise<TwoFactorPolicy> => {
+    const response = await apiClient.get('/admin/2fa-policy');
+    return response.data;
+  },
+
+  // 역할별 필수 정책 변경 (관리자)
+  updatePolicy: async (policy: TwoFactorPolicy): Promise<TwoFactorPolicy> => {
+    const response = await apiClient.put('/admin/2fa-policy', policy);
+    return response.data;
+  }
+};
+
 /**
  * 서버 상태 확인을 위한 헬스 체크 API
  * @returns 서버 상태 정보
@@ -274,6 +771,21 @@ export const healthCheck = async () => {
   return response.data;
 };
 
+/**
+ * API 오류에서 사용자에게 보여줄 메시지를 추출
+ * @param error - catch로 받은 오류
+ * @param fallback - 서버 메시지가 없을 때 사용할 기본 메시지
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    if (error.response?.status === 403 && !error.response.data?.message) {
+      return '이 작업을 수행할 권한이 없습니다.';
+    }
+    return error.response?.data?.message || fallback;
+  }
+  return fallback;
+};
+
 /**
  * JWT 토큰 관리 함수들
  */
@@ -281,7 +793,39 @@ export const tokenAPI = {
   getToken,
   setToken,
   removeToken,
-  isAuthenticated: (): boolean => !!getToken()
+  clearTokens,
+  isAuthenticated: (): boolean => !!getToken(),
+
+  // 액세스 토큰 갱신 (동시에 여러 번 호출해도 요청은 한 번)
+  refresh: refreshAccessToken,
+
+  // 저장된 토큰 기준으로 만료 전 자동 갱신 예약 (새로고침 후 세션 복원 시)
+  scheduleRefresh: scheduleTokenRefresh,
+
+  // 현재 토큰 (다른 탭에 로그인 상태를 넘겨줄 때)
+  getTokens: (): AuthTokens => ({
+    token: getToken() ?? undefined,
+    refreshToken: getRefreshToken() ?? undefined
+  }),
+
+  // 다른 탭에서 받은 토큰으로 교체 (갱신 알림은 보내지 않음)
+  adoptTokens: saveTokens,
+
+  // 토큰 갱신 구독 (구독 해제 함수 반환)
+  onTokenRefresh: (listener: TokenRefreshListener) => {
+    tokenRefreshListeners.add(listener);
+    return () => {
+      tokenRefreshListeners.delete(listener);
+    };
+  },
+
+  // 세션 만료 구독 (구독 해제 함수 반환)
+  onSessionExpired: (listener: SessionExpiredListener) => {
+    sessionExpiredListeners.add(listener);
+    return () => {
+      sessionExpiredListeners.delete(listener);
+    };
+  }
 };
 
 /**
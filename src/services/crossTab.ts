@@ -0,0 +1,109 @@
+/**
+ * 같은 브라우저의 다른 탭과 메시지를 주고받는 채널
+ * BroadcastChannel을 우선 사용하고, 지원하지 않는 브라우저는 storage 이벤트로 대체
+ */
+export interface CrossTabChannel<T> {
+  /** 메시지가 localStorage를 거치지 않는지 (토큰 등 민감한 값을 보내도 되는지) */
+  isPrivate: boolean;
+  /** 다른 탭에 메시지 전송 (보낸 탭 자신은 받지 않음) */
+  post: (message: T) => void;
+  /** 다른 탭의 메시지 구독 (구독 해제 함수 반환) */
+  subscribe: (listener: (message: T) => void) => () => void;
+}
+
+const CHANNEL_PREFIX = 'fdapp:';
+
+/**
+ * 탭 간 채널 생성
+ * @param name - 채널 이름 (같은 이름의 채널끼리 메시지를 주고받음)
+ */
+export const createCrossTabChannel = <T>(name: string): CrossTabChannel<T> => {
+  const listeners = new Set<(message: T) => void>();
+  const emit = (message: T) => listeners.forEach(listener => listener(message));
+  const subscribe = (listener: (message: T) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(`${CHANNEL_PREFIX}${name}`);
+    channel.onmessage = (event: MessageEvent<T>) => emit(event.data);
+    return {
+      isPrivate: true,
+      post: (message) => channel.postMessage(message),
+      subscribe
+    };
+  }
+
+  // storage 이벤트는 값을 바꾼 탭을 제외한 나머지 탭에서만 발생하므로, 쓰고 바로 지워서 메시지로 사용
+  const storageKey = `${CHANNEL_PREFIX}message:${name}`;
+  window.addEventListener('storage', (event) => {
+    if (event.key !== storageKey || !event.newValue) return;
+    try {
+      emit(JSON.parse(event.newValue).message);
+    } catch {
+      // 다른 버전의 앱이 남긴 형식이 다른 값
+    }
+  });
+
+  return {
+    isPrivate: false,
+    post: (message) => {
+      try {
+        // 같은 메시지를 연달아 보내도 값이 바뀌도록 nonce 포함
+        localStorage.setItem(storageKey, JSON.stringify({ message, nonce: `${Date.now()}-${Math.random()}` }));
+        localStorage.removeItem(storageKey);
+      } catch {
+        // 저장소를 쓸 수 없는 환경 (사생활 보호 모드 등) — 이 탭만 반영
+      }
+    },
+    subscribe
+  };
+};
+
+const CLAIMS_KEY = `${CHANNEL_PREFIX}claims`;
+/** 보이지 않는 탭은 이만큼 늦게 선점을 시도해서 사용자가 보고 있는 탭이 먼저 가져가도록 */
+const HIDDEN_TAB_CLAIM_DELAY_MS = 300;
+
+const readClaims = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(CLAIMS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * 여러 탭 중 한 탭만 처리할 일을 선점 (같은 알림을 탭마다 띄우지 않도록)
+ * Web Locks API가 있으면 잠금 안에서 확인·기록해 동시에 선점하지 않도록 보장
+ * @param key - 처리할 일의 식별자 (예: order-12-배송완료)
+ * @param ttlMs - 이 시간 동안 같은 key는 다시 선점할 수 없음
+ * @returns 이 탭이 선점했으면 true
+ */
+export const claimAcrossTabs = async (key: string, ttlMs = 60 * 1000): Promise<boolean> => {
+  const claim = () => {
+    try {
+      const now = Date.now();
+      const claims = Object.fromEntries(
+        Object.entries(readClaims()).filter(([, claimedAt]) => now - claimedAt < ttlMs)
+      );
+      if (claims[key]) return false;
+      claims[key] = now;
+      localStorage.setItem(CLAIMS_KEY, JSON.stringify(claims));
+      return true;
+    } catch {
+      // 저장소를 쓸 수 없으면 탭 간 중복 제거 없이 처리
+      return true;
+    }
+  };
+
+  if (document.visibilityState !== 'visible') {
+    await new Promise(resolve => setTimeout(resolve, HIDDEN_TAB_CLAIM_DELAY_MS));
+  }
+  if ('locks' in navigator) {
+    return navigator.locks.request(CLAIMS_KEY, claim);
+  }
+  return claim();
+};
@@ -0,0 +1,152 @@
+import type { OrderRealtimeEvent, RealtimeConnectionState } from '../types';
+import { API_BASE_URL, tokenAPI } from './api';
+
+/**
+ * 실시간 이벤트 WebSocket URL (환경변수 또는 API URL 기준 /events)
+ */
+const REALTIME_URL = import.meta.env.VITE_WS_URL || `${API_BASE_URL.replace(/^http/, 'ws')}/events`;
+
+/** 재연결 대기 시간 (지수 백오프: 1초, 2초, 4초 ... 최대 30초) */
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+/** 연속 실패가 이 횟수에 도달하면 폴링 모드로 표시 (재연결 시도는 계속) */
+const FAILURES_BEFORE_POLLING = 3;
+
+const ORDER_EVENT_TYPES: OrderRealtimeEvent['type'][] = ['order.created', 'order.status_changed'];
+
+type OrderEventListener = (event: OrderRealtimeEvent) => void;
+type ConnectionStateListener = (state: RealtimeConnectionState) => void;
+
+const eventListeners = new Set<OrderEventListener>();
+const stateListeners = new Set<ConnectionStateListener>();
+
+let socket: WebSocket | null = null;
+let connectionState: RealtimeConnectionState = 'disconnected';
+let consecutiveFailures = 0;
+let reconnectTimer: number | null = null;
+
+const setConnectionState = (state: RealtimeConnectionState) => {
+  if (connectionState === state) return;
+  connectionState = state;
+  stateListeners.forEach(listener => listener(state));
+};
+
+/**
+ * 서버 메시지를 주문 이벤트로 파싱 (알 수 없는 메시지는 무시)
+ */
+const parseEvent = (data: unknown): OrderRealtimeEvent | null => {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data);
+    if (ORDER_EVENT_TYPES.includes(message?.type) && message.order) {
+      return message as OrderRealtimeEvent;
+    }
+  } catch {
+    // JSON이 아닌 메시지 (heartbeat 등)
+  }
+  return null;
+};
+
+const scheduleReconnect = () => {
+  if (reconnectTimer !== null || eventListeners.size === 0) return;
+
+  consecutiveFailures += 1;
+  setConnectionState(consecutiveFailures >= FAILURES_BEFORE_POLLING ? 'polling' : 'reconnecting');
+
+  const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** (consecutiveFailures - 1), RECONNECT_MAX_DELAY);
+  // 여러 탭/클라이언트가 동시에 재연결하지 않도록 지터 추가
+  const jitter = Math.random() * delay * 0.2;
+
+  reconnectTimer = window.setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay + jitter);
+};
+
+const connect = () => {
+  if (socket || eventListeners.size === 0) return;
+
+  if (!('WebSocket' in window)) {
+    setConnectionState('polling');
+    return;
+  }
+
+  if (connectionState === 'disconnected') {
+    setConnectionState('connecting');
+  }
+
+  const ws = new WebSocket(REALTIME_URL);
+  socket = ws;
+
+  ws.onopen = () => {
+    // 쿠키 세션 외에 JWT 토큰도 첫 메시지로 전달
+    const token = tokenAPI.getToken();
+    if (token) {
+      ws.send(JSON.stringify({ type: 'auth', token }));
+    }
+    consecutiveFailures = 0;
+    setConnectionState('connected');
+  };
+
+  ws.onmessage = (message) => {
+    const event = parseEvent(message.data);
+    if (event) {
+      eventListeners.forEach(listener => listener(event));
+    }
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    scheduleReconnect();
+  };
+
+  ws.onerror = () => {
+    // 오류 후 onclose가 호출되므로 재연결은 onclose에서 처리
+    ws.close();
+  };
+};
+
+const disconnect = () => {
+  if (reconnectTimer !== null) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (socket) {
+    const ws = socket;
+    socket = null;
+    ws.close();
+  }
+  consecutiveFailures = 0;
+  setConnectionState('disconnected');
+};
+
+/**
+ * 실시간 주문 이벤트 구독 API
+ * 첫 구독 시 연결하고 마지막 구독 해제 시 연결을 종료하는 공유 연결
+ */
+export const realtimeAPI = {
+  // 주문 이벤트 구독 (구독 해제 함수 반환)
+  subscribe: (listener: OrderEventListener) => {
+    eventListeners.add(listener);
+    connect();
+    return () => {
+      eventListeners.delete(listener);
+      if (eventListeners.size === 0) {
+        disconnect();
+      }
+    };
+  },
+
+  // 연결 상태 변경 구독 (구독 해제 함수 반환)
+  onConnectionStateChange: (listener: ConnectionStateListener) => {
+    stateListeners.add(listener);
+    return () => {
+      stateListeners.delete(listener);
+    };
+  },
+
+  // 현재 연결 상태
+  getConnectionState: () => connectionState
+};
@@ -0,0 +1,40 @@
+import type { AddressSearchResult } from '../types';
+
+/**
+ * 오프라인 주소 검색용 샘플 데이터
+ * 로컬 개발과 테스트에서 주소 API 없이 검색 흐름을 확인하기 위한 것으로,
+ * 전국 주요 공공기관/랜드마크 위주이며 실제 배송에는 주소 API 공급자를 사용
+ */
+export const SAMPLE_ADDRESSES: AddressSearchResult[] = [
+  { zipcode: '04524', roadAddress: '서울특별시 중구 세종대로 110', jibunAddress: '서울특별시 중구 태평로1가 31', buildingName: '서울특별시청' },
+  { zipcode: '03045', roadAddress: '서울특별시 종로구 사직로 161', jibunAddress: '서울특별시 종로구 세종로 1-1', buildingName: '경복궁' },
+  { zipcode: '03154', roadAddress: '서울특별시 종로구 세종대로 209', jibunAddress: '서울특별시 종로구 세종로 77-6', buildingName: '정부서울청사' },
+  { zipcode: '06236', roadAddress: '서울특별시 강남구 테헤란로 152', jibunAddress: '서울특별시 강남구 역삼동 737', buildingName: '강남파이낸스센터' },
+  { zipcode: '06164', roadAddress: '서울특별시 강남구 영동대로 513', jibunAddress: '서울특별시 강남구 삼성동 159', buildingName: '코엑스' },
+  { zipcode: '05551', roadAddress: '서울특별시 송파구 올림픽로 300', jibunAddress: '서울특별시 송파구 신천동 29', buildingName: '롯데월드타워' },
+  { zipcode: '07335', roadAddress: '서울특별시 영등포구 여의대로 108', jibunAddress: '서울특별시 영등포구 여의도동 22', buildingName: '파크원' },
+  { zipcode: '04383', roadAddress: '서울특별시 용산구 이태원로 29', jibunAddress: '서울특별시 용산구 용산동1가 8', buildingName: '전쟁기념관' },
+  { zipcode: '03722', roadAddress: '서울특별시 서대문구 연세로 50', jibunAddress: '서울특별시 서대문구 신촌동 134', buildingName: '연세대학교' },
+  { zipcode: '08826', roadAddress: '서울특별시 관악구 관악로 1', jibunAddress: '서울특별시 관악구 신림동 56-1', buildingName: '서울대학교' },
+  { zipcode: '13529', roadAddress: '경기도 성남시 분당구 판교역로 166', jibunAddress: '경기도 성남시 분당구 백현동 532', buildingName: '카카오 판교아지트' },
+  { zipcode: '13561', roadAddress: '경기도 성남시 분당구 불정로 6', jibunAddress: '경기도 성남시 분당구 정자동 178-1', buildingName: '네이버 그린팩토리' },
+  { zipcode: '16677', roadAddress: '경기도 수원시 영통구 삼성로 129', jibunAddress: '경기도 수원시 영통구 매탄동 416', buildingName: '삼성전자 수원사업장' },
+  { zipcode: '16508', roadAddress: '경기도 수원시 영통구 도청로 30', jibunAddress: '경기도 수원시 영통구 이의동 1367', buildingName: '경기도청' },
+  { zipcode: '22382', roadAddress: '인천광역시 중구 공항로 272', jibunAddress: '인천광역시 중구 운서동 2850', buildingName: '인천국제공항 제1여객터미널' },
+  { zipcode: '21554', roadAddress: '인천광역시 남동구 정각로 29', jibunAddress: '인천광역시 남동구 구월동 1138', buildingName: '인천광역시청' },
+  { zipcode: '47545', roadAddress: '부산광역시 연제구 중앙대로 1001', jibunAddress: '부산광역시 연제구 연산동 1000', buildingName: '부산광역시청' },
+  { zipcode: '48058', roadAddress: '부산광역시 해운대구 센텀남대로 35', jibunAddress: '부산광역시 해운대구 우동 1495', buildingName: '신세계센텀시티' },
+  { zipcode: '41911', roadAddress: '대구광역시 중구 공평로 88', jibunAddress: '대구광역시 중구 동인동1가 2-1', buildingName: '대구광역시청' },
+  { zipcode: '35242', roadAddress: '대전광역시 서구 둔산로 100', jibunAddress: '대전광역시 서구 둔산동 1420', buildingName: '대전광역시청' },
+  { zipcode: '61945', roadAddress: '광주광역시 서구 내방로 111', jibunAddress: '광주광역시 서구 치평동 1200', buildingName: '광주광역시청' },
+  { zipcode: '44675', roadAddress: '울산광역시 남구 중앙로 201', jibunAddress: '울산광역시 남구 신정동 646-4', buildingName: '울산광역시청' },
+  { zipcode: '30151', roadAddress: '세종특별자치시 한누리대로 2130', jibunAddress: '세종특별자치시 보람동 660', buildingName: '세종특별자치시청' },
+  { zipcode: '24266', roadAddress: '강원특별자치도 춘천시 중앙로 1', jibunAddress: '강원특별자치도 춘천시 봉의동 15', buildingName: '강원특별자치도청' },
+  { zipcode: '28515', roadAddress: '충청북도 청주시 상당구 상당로 82', jibunAddress: '충청북도 청주시 상당구 문화동 89', buildingName: '충청북도청' },
+  { zipcode: '32249', roadAddress: '충청남도 홍성군 홍북읍 충남대로 21', jibunAddress: '충청남도 홍성군 홍북읍 신경리 1600', buildingName: '충청남도청' },
+  { zipcode: '54968', roadAddress: '전북특별자치도 전주시 완산구 효자로 225', jibunAddress: '전북특별자치도 전주시 완산구 효자동2가 1', buildingName: '전북특별자치도청' },
+  { zipcode: '58564', roadAddress: '전라남도 무안군 삼향읍 오룡길 1', jibunAddress: '전라남도 무안군 삼향읍 남악리 1000', buildingName: '전라남도청' },
+  { zipcode: '36759', roadAddress: '경상북도 안동시 풍천면 도청대로 455', jibunAddress: '경상북도 안동시 풍천면 갈전리 1140', buildingName: '경상북도청' },
+  { zipcode: '51154', roadAddress: '경상남도 창원시 의창구 중앙대로 300', jibunAddress: '경상남도 창원시 의창구 사림동 1', buildingName: '경상남도청' },
+  { zipcode: '63122', roadAddress: '제주특별자치도 제주시 문연로 6', jibunAddress: '제주특별자치도 제주시 연동 312-1', buildingName: '제주특별자치도청' }
+];
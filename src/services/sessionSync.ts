@@ -0,0 +1,23 @@
+import type { SessionSyncMessage } from '../types';
+import { createCrossTabChannel } from './crossTab';
+
+const channel = createCrossTabChannel<SessionSyncMessage>('session');
+
+/**
+ * 탭 간 세션 동기화 API
+ * 토큰은 BroadcastChannel로만 전달하고, storage 이벤트로 대체하는 브라우저에서는 빼고 보냄
+ * (받은 탭은 서버 세션 쿠키로 로그인 상태를 확인)
+ */
+export const sessionSyncAPI = {
+  // 다른 탭에 세션 변경 알림
+  broadcast: (message: SessionSyncMessage) => {
+    if (!channel.isPrivate && 'tokens' in message) {
+      channel.post({ ...message, tokens: undefined });
+      return;
+    }
+    channel.post(message);
+  },
+
+  // 다른 탭의 세션 변경 구독 (구독 해제 함수 반환)
+  subscribe: channel.subscribe
+};
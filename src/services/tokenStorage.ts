@@ -0,0 +1,114 @@
+/**
+ * 인증 토큰 저장소
+ * 토큰을 어디에 보관할지(메모리, httpOnly 쿠키, localStorage) 바꿔 끼울 수 있도록 분리
+ */
+export interface TokenStorage {
+  id: string;
+  /** 리프레시 토큰을 서버가 httpOnly 쿠키로 관리 (클라이언트는 읽을 수 없고 갱신 요청에 쿠키만 함께 보냄) */
+  usesRefreshCookie: boolean;
+  getAccessToken: () => string | null;
+  getRefreshToken: () => string | null;
+  save: (tokens: { token?: string; refreshToken?: string }) => void;
+  clear: () => void;
+}
+
+/** localStorage 저장 키 (이전 버전에서 쓰던 키 그대로) */
+const ACCESS_TOKEN_KEY = 'jwt_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+/**
+ * 메모리 저장소 (기본값)
+ * 스크립트가 읽을 수 있는 영구 저장소에 남기지 않으므로 XSS로 토큰이 유출될 위험이 가장 작음
+ * 새로고침하면 토큰이 사라지고, 서버 세션 쿠키가 있으면 그것으로 로그인 상태를 복원
+ */
+const createMemoryStorage = (): TokenStorage => {
+  let accessToken: string | null = null;
+  let refreshToken: string | null = null;
+
+  return {
+    id: 'memory',
+    usesRefreshCookie: false,
+    getAccessToken: () => accessToken,
+    getRefreshToken: () => refreshToken,
+    save: (tokens) => {
+      if (tokens.token) accessToken = tokens.token;
+      if (tokens.refreshToken) refreshToken = tokens.refreshToken;
+    },
+    clear: () => {
+      accessToken = null;
+      refreshToken = null;
+    }
+  };
+};
+
+/**
+ * httpOnly 쿠키 저장소
+ * 액세스 토큰은 메모리에만 두고, 리프레시 토큰은 서버가 httpOnly 쿠키로 발급
+ * (withCredentials로 쿠키가 함께 전송되므로 새로고침 후에도 갱신 요청으로 세션 복원)
+ */
+const createCookieStorage = (): TokenStorage => {
+  const memory = createMemoryStorage();
+
+  return {
+    id: 'cookie',
+    usesRefreshCookie: true,
+    getAccessToken: memory.getAccessToken,
+    // 응답 본문에 리프레시 토큰이 오더라도 스크립트에서 보관하지 않음
+    getRefreshToken: () => null,
+    save: (tokens) => memory.save({ token: tokens.token }),
+    clear: memory.clear
+  };
+};
+
+/**
+ * localStorage 저장소 (명시적으로 선택한 경우만)
+ * 새로고침·새 탭에서도 로그인이 유지되지만 XSS에 노출되므로 신뢰할 수 있는 환경에서만 사용
+ */
+const localStorageTokenStorage: TokenStorage = {
+  id: 'local',
+  usesRefreshCookie: false,
+  getAccessToken: () => localStorage.getItem(ACCESS_TOKEN_KEY),
+  getRefreshToken: () => localStorage.getItem(REFRESH_TOKEN_KEY),
+  save: (tokens) => {
+    if (tokens.token) localStorage.setItem(ACCESS_TOKEN_KEY, tokens.token);
+    if (tokens.refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, tokens.refreshToken);
+  },
+  clear: () => {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+};
+
+const STORAGE_FACTORIES: Record<string, () => TokenStorage> = {
+  memory: createMemoryStorage,
+  cookie: createCookieStorage,
+  local: () => localStorageTokenStorage
+};
+
+/**
+ * 기본 저장소 선택
+ * VITE_TOKEN_STORAGE(memory | cookie | local)로 지정하고, 없으면 메모리
+ */
+const resolveDefaultStorage = (): TokenStorage => {
+  const configured = import.meta.env.VITE_TOKEN_STORAGE;
+  const storage = (configured && STORAGE_FACTORIES[configured]) ? STORAGE_FACTORIES[configured]() : createMemoryStorage();
+
+  // localStorage를 쓰지 않는 설정이면 이전 버전이 남긴 토큰 제거
+  if (storage.id !== localStorageTokenStorage.id) {
+    localStorageTokenStorage.clear();
+  }
+  return storage;
+};
+
+let currentStorage = resolveDefaultStorage();
+
+export const getTokenStorage = (): TokenStorage => currentStorage;
+
+/**
+ * 토큰 저장소 교체 (테스트, 임베드 환경 등)
+ * 기존 저장소의 토큰은 옮기지 않고 지움
+ */
+export const setTokenStorage = (storage: TokenStorage): void => {
+  currentStorage.clear();
+  currentStorage = storage;
+};
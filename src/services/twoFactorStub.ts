@@ -0,0 +1,286 @@
+import { AxiosError } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { LoginResponse, TwoFactorPolicy, TwoFactorStatus, User, UserRole } from '../types';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+/**
+ * 2단계 인증 서버 스텁 (로컬 개발용)
+ * 2단계 인증 API 요청은 브라우저에서 처리하고, 나머지 요청은 실제 서버로 보냄
+ * - 로그인: 서버 로그인 응답을 보관하고 챌린지를 돌려준 뒤, 코드가 맞으면 보관한 응답(토큰)을 전달
+ * - 사용자 정보 응답에 2단계 인증 상태(two_factor_enabled, two_factor_required)를 추가
+ * 비밀키와 백업 코드를 localStorage에 평문으로 두므로 운영 환경에서는 절대 사용하지 않음
+ */
+
+interface StubUserState {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string; // 등록 중 (코드 확인 전)
+  backupCodes: string[];
+}
+
+interface StubState {
+  policy: TwoFactorPolicy;
+  users: Record<number, StubUserState>;
+}
+
+interface LoginChallenge {
+  response: LoginResponse;
+  userId: number;
+  expiresAt: number;
+  attempts: number;
+}
+
+const STORAGE_KEY = 'fdapp:two-factor-stub';
+const ISSUER = '배송접수 시스템';
+/** 로그인 챌린지 유효 시간 */
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+/** 챌린지 하나에 허용하는 코드 입력 횟수 */
+const MAX_CHALLENGE_ATTEMPTS = 5;
+const BACKUP_CODE_COUNT = 10;
+
+const challenges = new Map<string, LoginChallenge>();
+/** 로그인·사용자 정보 응답으로 알게 된 현재 사용자 */
+let currentUser: User | null = null;
+
+const loadState = (): StubState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved?.policy && saved?.users) return saved;
+  } catch {
+    // 형식이 깨진 값은 초기화
+  }
+  return { policy: { required_roles: [] }, users: {} };
+};
+
+const saveState = (state: StubState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+const getUserState = (state: StubState, userId: number): StubUserState =>
+  state.users[userId] ?? { enabled: false, backupCodes: [] };
+
+const isRequired = (state: StubState, role: UserRole | undefined) =>
+  !!role && state.policy.required_roles.includes(role);
+
+/** 사용자 정보에 2단계 인증 상태 추가 */
+const withTwoFactor = (state: StubState, user: User): User => ({
+  ...user,
+  two_factor_enabled: getUserState(state, user.id).enabled,
+  two_factor_required: isRequired(state, user.role)
+});
+
+const randomToken = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/** 백업 코드 (xxxx-xxxx, 헷갈리는 0/O, 1/l 제외) */
+const generateBackupCodes = (): string[] => {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => alphabet[byte % alphabet.length]);
+    return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+  });
+};
+
+const respond = <T>(config: InternalAxiosRequestConfig, data: T, status = 200): AxiosResponse<T> => ({
+  data,
+  status,
+  statusText: status === 200 ? 'OK' : String(status),
+  headers: {},
+  config
+});
+
+const fail = (config: InternalAxiosRequestConfig, status: number, message: string): never => {
+  throw new AxiosError(
+    message,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    undefined,
+    respond(config, { message }, status)
+  );
+};
+
+const parseJson = (data: unknown) => {
+  if (typeof data !== 'string') return data ?? {};
+  try {
+    return JSON.parse(data || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const requireUser = (config: InternalAxiosRequestConfig): User => {
+  if (!currentUser) return fail(config, 401, '로그인이 필요합니다.');
+  return currentUser;
+};
+
+/**
+ * 인증 앱 코드 또는 백업 코드 확인 (백업 코드는 한 번 쓰면 삭제)
+ */
+const verifyCode = async (userState: StubUserState, code: string, allowBackupCode: boolean): Promise<boolean> => {
+  if (userState.secret && await verifyTotp(userState.secret, code)) return true;
+  if (!allowBackupCode) return false;
+
+  // 하이픈 없이 입력해도 허용
+  const normalized = code.trim().toLowerCase().replace(/-/g, '');
+  const index = userState.backupCodes.findIndex(backupCode => backupCode.replace(/-/g, '') === normalized);
+  if (index === -1) return false;
+  userState.backupCodes.splice(index, 1);
+  return true;
+};
+
+/**
+ * 스텁 요청 처리
+ * @param config - axios 요청 설정 (본문은 이미 JSON 문자열로 변환된 상태)
+ * @param passThrough - 실제 서버로 보내는 기본 어댑터
+ */
+export const handleTwoFactorStubRequest = async (
+  config: InternalAxiosRequestConfig,
+  passThrough: AxiosAdapter
+): Promise<AxiosResponse> => {
+  const path = (config.url || '').split('?')[0];
+  const method = (config.method || 'get').toLowerCase();
+  const body = parseJson(config.data);
+  const state = loadState();
+
+  if (path === '/auth/login' && method === 'post') {
+    const response = await passThrough(config);
+    const data: LoginResponse = parseJson(response.data);
+    if (!data.user) return response;
+
+    if (getUserState(state, data.user.id).enabled) {
+      const challengeToken = randomToken();
+      challenges.set(challengeToken, {
+        response: { ...data, user: withTwoFactor(state, data.user) },
+        userId: data.user.id,
+        expiresAt: Date.now() + CHALLENGE_TTL_MS,
+        attempts: 0
+      });
+      return respond(config, { two_factor_required: true, challenge_token: challengeToken });
+    }
+
+    currentUser = withTwoFactor(state, data.user);
+    return respond(config, { ...data, user: currentUser }, response.status);
+  }
+
+  if (path === '/auth/me' && method === 'get') {
+    const response = await passThrough(config);
+    const data = parseJson(response.data);
+    if (!data.user) return response;
+    currentUser = withTwoFactor(state, data.user);
+    return respond(config, { ...data, user: currentUser }, response.status);
+  }
+
+  if (path === '/auth/logout' && method === 'post') {
+    currentUser = null;
+    return passThrough(config);
+  }
+
+  if (path === '/auth/2fa/verify' && method === 'post') {
+    const challenge = challenges.get(body.challenge_token);
+    if (!challenge || challenge.expiresAt < Date.now()) {
+      challenges.delete(body.challenge_token);
+      return fail(config, 400, '인증 시간이 지났습니다. 처음부터 다시 로그인해주세요.');
+    }
+
+    const userState = getUserState(state, challenge.userId);
+    if (!await verifyCode(userState, String(body.code ?? ''), true)) {
+      challenge.attempts += 1;
+      if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+        challenges.delete(body.challenge_token);
+        return fail(config, 400, '인증 코드를 너무 많이 틀렸습니다. 처음부터 다시 로그인해주세요.');
+      }
+      return fail(config, 400, '인증 코드가 올바르지 않습니다.');
+    }
+
+    challenges.delete(body.challenge_token);
+    state.users[challenge.userId] = userState;
+    saveState(state);
+    currentUser = challenge.response.user ?? null;
+    return respond(config, challenge.response);
+  }
+
+  if (path === '/auth/2fa' && method === 'get') {
+    const user = requireUser(config);
+    const userState = getUserState(state, user.id);
+    const status: TwoFactorStatus = {
+      enabled: userState.enabled,
+      required: isRequired(state, user.role),
+      backup_codes_remaining: userState.enabled ? userState.backupCodes.length : undefined
+    };
+    return respond(config, status);
+  }
+
+  if (path === '/auth/2fa/setup' && method === 'post') {
+    const user = requireUser(config);
+    const userState = getUserState(state, user.id);
+    if (userState.enabled) return fail(config, 400, '이미 2단계 인증을 사용 중입니다.');
+
+    userState.pendingSecret = generateTotpSecret();
+    state.users[user.id] = userState;
+    saveState(state);
+    return respond(config, {
+      secret: userState.pendingSecret,
+      otpauth_url: buildOtpAuthUrl(ISSUER, user.username, userState.pendingSecret)
+    });
+  }
+
+  if (path === '/auth/2fa/enable' && method === 'post') {
+    const user = requireUser(config);
+    const userState = getUserState(state, user.id);
+    if (!userState.pendingSecret) return fail(config, 400, '등록을 먼저 시작해주세요.');
+    if (!await verifyTotp(userState.pendingSecret, String(body.code ?? ''))) {
+      return fail(config, 400, '인증 코드가 올바르지 않습니다. 인증 앱의 현재 코드를 입력해주세요.');
+    }
+
+    userState.enabled = true;
+    userState.secret = userState.pendingSecret;
+    userState.pendingSecret = undefined;
+    userState.backupCodes = generateBackupCodes();
+    state.users[user.id] = userState;
+    saveState(state);
+    currentUser = withTwoFactor(state, user);
+    return respond(config, { backup_codes: userState.backupCodes });
+  }
+
+  if (path === '/auth/2fa/disable' && method === 'post') {
+    const user = requireUser(config);
+    const userState = getUserState(state, user.id);
+    if (isRequired(state, user.role)) return fail(config, 400, '정책상 이 역할은 2단계 인증을 해제할 수 없습니다.');
+    if (!await verifyCode(userState, String(body.code ?? ''), true)) {
+      return fail(config, 400, '인증 코드가 올바르지 않습니다.');
+    }
+
+    state.users[user.id] = { enabled: false, backupCodes: [] };
+    saveState(state);
+    currentUser = withTwoFactor(state, user);
+    return respond(config, { success: true });
+  }
+
+  if (path === '/auth/2fa/backup-codes' && method === 'post') {
+    const user = requireUser(config);
+    const userState = getUserState(state, user.id);
+    if (!userState.enabled) return fail(config, 400, '2단계 인증을 사용 중이 아닙니다.');
+    if (!await verifyCode(userState, String(body.code ?? ''), false)) {
+      return fail(config, 400, '인증 앱의 현재 코드를 입력해주세요.');
+    }
+
+    userState.backupCodes = generateBackupCodes();
+    state.users[user.id] = userState;
+    saveState(state);
+    return respond(config, { backup_codes: userState.backupCodes });
+  }
+
+  if (path === '/admin/2fa-policy') {
+    const user = requireUser(config);
+    if (user.role !== 'admin') return fail(config, 403, '관리자만 정책을 변경할 수 있습니다.');
+
+    if (method === 'put') {
+      state.policy = { required_roles: Array.isArray(body.required_roles) ? body.required_roles : [] };
+      saveState(state);
+      currentUser = withTwoFactor(state, user);
+    }
+    return respond(config, state.policy);
+  }
+
+  return passThrough(config);
+};
@@ -1,3 +1,24 @@
+// 사용자 역할
+export type UserRole = 'admin' | 'manager' | 'user' | 'driver';
+
+// 기능별 권한 (역할별 부여 내역은 utils/permissions.ts)
+export type Permission =
+  | 'orders.view_all' // 다른 사용자의 주문 조회
+  | 'orders.update_status'
+  | 'orders.bulk_update'
+  | 'orders.notify_new' // 새 주문 알림 수신
+  | 'tracking.assign'
+  | 'orders.assign_driver' // 배송 기사 배정 (배차)
+  | 'deliveries.view_assigned' // 배정받은 배송 조회 및 처리 (기사)
+  | 'exports.run'
+  | 'exports.statistics'
+  | 'users.view'
+  | 'users.manage'
+  | 'pricing.manage'
+  | 'returns.review' // 반품 요청 승인/거절
+  | 'permissions.view'
+  | 'security.manage_2fa'; // 역할별 2단계 인증 필수 정책 관리
+
 // 사용자 타입
 export interface User {
   id: number;
@@ -5,7 +26,9 @@ export interface User {
   name: string;
   phone?: string;
   company?: string;
-  role?: string;
+  role?: UserRole;
+  two_factor_enabled?: boolean; // 2단계 인증(TOTP) 사용 중
+  two_factor_required?: boolean; // 역할 정책상 2단계 인증 필수
 }
 
 // 인증 관련 타입
@@ -23,6 +46,60 @@ export interface RegisterData {
   company?: string;
 }
 
+// 로그인·토큰 갱신 응답으로 받는 토큰
+export interface AuthTokens {
+  token?: string; // 액세스 토큰
+  refreshToken?: string; // 리프레시 토큰 (쿠키 모드에서는 본문에 없음)
+}
+
+// 로그인 응답 (2단계 인증을 쓰는 계정은 토큰 대신 인증 코드 확인용 챌린지를 받음)
+export interface LoginResponse extends AuthTokens {
+  user?: User;
+  two_factor_required?: boolean;
+  challenge_token?: string; // 2단계 인증 코드 확인 요청에 함께 보냄
+}
+
+// 로그인 결과 (2단계 인증 계정은 챌린지로 코드 확인이 남음)
+export type LoginResult =
+  | { twoFactorRequired: false }
+  | { twoFactorRequired: true; challengeToken: string };
+
+// 2단계 인증 상태
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // 역할 정책상 필수 (끌 수 없음)
+  backup_codes_remaining?: number;
+}
+
+// 2단계 인증 등록 시작 응답 (인증 앱에 등록할 비밀키)
+export interface TwoFactorEnrollment {
+  secret: string; // Base32 비밀키 (QR 코드를 찍을 수 없을 때 직접 입력)
+  otpauth_url: string; // otpauth://totp/... (QR 코드 내용)
+}
+
+// 2단계 인증 필수 정책 (관리자 설정)
+export interface TwoFactorPolicy {
+  required_roles: UserRole[];
+}
+
+// 탭 간 세션 동기화 메시지 (한 탭의 로그인·로그아웃·토큰 갱신을 다른 탭에 반영)
+export type SessionSyncMessage =
+  | { type: 'login'; user: User; tokens?: AuthTokens }
+  | { type: 'logout' }
+  | { type: 'session-expired' }
+  | { type: 'token-refreshed'; tokens?: AuthTokens }
+  | { type: 'user-updated'; user: User };
+
+// 주문에 담긴 개별 화물 (여러 박스를 한 주문으로 접수)
+export interface ShippingPackage {
+  package_type?: string;
+  package_weight?: number;
+  package_size?: string; // 가로x세로x높이 (cm)
+  package_value?: number;
+  package_description?: string;
+  tracking_number?: string | null; // 화물별 운송장 번호 (접수 후 서버가 부여)
+}
+
 // 배송접수 관련 타입 (26개 필드)
 export interface ShippingOrderData {
   // 발송인 정보 (7개)
@@ -52,6 +129,9 @@ export interface ShippingOrderData {
   delivery_date?: string;
   delivery_time?: string;
   package_description?: string;
+
+  // 화물 목록 (위 화물 필드에는 전체 합계와 대표값을 함께 저장)
+  packages?: ShippingPackage[];
   
   // 특수 옵션 (4개)
   is_fragile?: boolean;
@@ -64,6 +144,54 @@ export interface ShippingOrderData {
   special_instructions?: string;
 }
 
+// 접수와 함께 보내는 배송비 견적 (서버에서 같은 요금표로 재계산해 확정)
+export interface ShippingFeeQuoteFields {
+  shipping_fee?: number;
+  shipping_fee_breakdown?: ShippingQuoteLine[];
+  rate_card_version?: number;
+}
+
+// 반품(반송) 요청 처리 상태
+export type ReturnRequestStatus = 'requested' | 'approved' | 'rejected';
+
+// 반품(반송) 요청
+export interface ReturnRequest {
+  id: number;
+  order_id: number;
+  status: ReturnRequestStatus;
+  reason: string;
+  photo_urls: string[];
+  requested_by_name?: string | null;
+  reviewed_by_name?: string | null;
+  reject_reason?: string | null; // 거절 사유
+  return_order_id?: number | null; // 승인 시 생성된 회수 주문
+  return_tracking_number?: string | null;
+  created_at: string;
+  reviewed_at?: string | null;
+}
+
+// 반품 요청 입력 데이터
+export interface ReturnRequestData {
+  reason: string;
+  photos: File[];
+}
+
+// 배송완료 증빙 (서버에 업로드된 서명/사진)
+export interface ProofOfDelivery {
+  recipient_name: string; // 실제 인수자 이름
+  signature_url?: string | null;
+  photo_urls: string[];
+  delivered_at: string;
+  delivered_by?: string | null; // 처리한 배송기사/담당자 이름
+}
+
+// 배송완료 증빙 업로드 데이터
+export interface ProofOfDeliveryUpload {
+  recipient_name: string;
+  signature: Blob | null;
+  photos: File[];
+}
+
 // 배송접수 완료 후 응답 타입 (데이터베이스 스키마와 일치)
 export interface ShippingOrder {
   id: number;
@@ -96,6 +224,9 @@ export interface ShippingOrder {
   delivery_date?: string;
   delivery_time?: string;
   package_description?: string;
+
+  // 화물 목록 (위 화물 필드에는 전체 합계와 대표값을 함께 저장)
+  packages?: ShippingPackage[];
   
   // 특수 옵션 (4개)
   is_fragile?: boolean;
@@ -106,6 +237,22 @@ export interface ShippingOrder {
   // 추가 메모
   delivery_memo?: string;
   special_instructions?: string;
+
+  // 배송비 (DECIMAL 컬럼은 문자열로 내려올 수 있음)
+  shipping_fee?: number | string;
+  shipping_fee_breakdown?: ShippingQuoteLine[];
+  rate_card_version?: number;
+
+  // 배차 정보
+  assigned_driver_id?: number | null;
+  assigned_driver_name?: string | null;
+  delivery_location_note?: string; // 기사가 남긴 배송 위치 메모 (예: 경비실 보관)
+  proof_of_delivery?: ProofOfDelivery | null; // 배송완료 증빙 (서명/사진/인수자)
+
+  // 반품 정보 (원 주문 ↔ 회수 주문 양방향 연결)
+  return_request?: ReturnRequest | null;
+  original_order_id?: number | null; // 회수 주문이면 원 주문 ID
+  original_tracking_number?: string | null;
   
   // 시스템 필드
   status: string;
@@ -129,6 +276,243 @@ export interface ShippingOrderListItem {
   updated_at: string;
 }
 
+// 배송접수 목록 정렬 기준 컬럼
+// 배송 주문 상태
+export type OrderStatus = '접수완료' | '배송준비' | '배송중' | '배송완료' | '취소' | '반송';
+
+// 상태 변경 시 함께 보내는 입력값
+export interface OrderStatusChangeDetails {
+  reason?: string; // 취소/반송 사유
+  location_note?: string; // 배송기사가 남기는 배송 위치 메모
+}
+
+// 주문 입력값 변경 내역 (필드 단위)
+export interface OrderFieldChange {
+  field: keyof ShippingOrderData;
+  previous_value: string | number | boolean | null;
+  new_value: string | number | boolean | null;
+}
+
+// 주문 변경 이력 종류
+export type OrderHistoryEventType = 'status_changed' | 'tracking_assigned' | 'driver_assigned' | 'proof_uploaded' | 'order_updated';
+
+// 주문 변경 이력 (감사 로그)
+export interface OrderHistoryEntry {
+  id: number;
+  order_id: number;
+  type: OrderHistoryEventType;
+  field?: keyof ShippingOrderData | null; // order_updated일 때 바뀐 필드
+  previous_value: string | null;
+  new_value: string | null;
+  note?: string | null; // 취소/반송 사유, 배송 위치 메모 등
+  actor_id: number | null; // 시스템 자동 처리면 null
+  actor_name?: string | null;
+  actor_role?: UserRole | null;
+  created_at: string;
+}
+
+export type ShippingOrderSortField = 'created_at' | 'tracking_number' | 'sender_name' | 'receiver_name' | 'status';
+
+// 배송접수 목록 조회 조건 (서버 측 검색/필터/정렬)
+export interface ShippingOrderListQuery {
+  search?: string;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+  sortBy?: ShippingOrderSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
+// 상태별 주문 건수 (대시보드 통계 카드)
+export interface DashboardStats {
+  total: number;
+  접수완료: number;
+  배송준비: number;
+  배송중: number;
+  배송완료: number;
+  취소: number;
+  반송: number;
+}
+
+// 통계 조회 기간 (YYYY-MM-DD)
+export interface StatisticsRange {
+  startDate: string;
+  endDate: string;
+}
+
+// 일자별 접수 건수
+export interface DailyOrderVolume {
+  date: string;
+  count: number;
+}
+
+// 기간 내 상태 전이 건수 (from이 null이면 신규 접수)
+export interface StatusTransitionCount {
+  from: string | null;
+  to: string;
+  count: number;
+}
+
+// 배송 통계 응답 타입
+export interface ShippingStatistics {
+  range: StatisticsRange;
+  summary: DashboardStats;
+  daily: DailyOrderVolume[];
+  transitions: StatusTransitionCount[];
+}
+
+// 실시간 주문 이벤트 (actorId는 변경을 일으킨 사용자)
+export type OrderRealtimeEvent =
+  | { type: 'order.created'; order: ShippingOrder; actorId?: number }
+  | { type: 'order.status_changed'; order: ShippingOrder; previousStatus?: string; actorId?: number };
+
+// 실시간 연결 상태 (polling: 연결 불가로 주기적 조회로 대체 중)
+export type RealtimeConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'polling' | 'disconnected';
+
+// 배송접수 템플릿 (반복 발송용으로 저장한 폼 입력값)
+export interface OrderTemplate {
+  id: number;
+  user_id: number;
+  name: string;
+  data: Partial<ShippingOrderData>;
+  created_at: string;
+  updated_at: string;
+}
+
+// 작성 중인 배송접수 임시저장본 (사용자별로 브라우저에 보관)
+export interface OrderDraft {
+  id: string;
+  data: Partial<ShippingOrderData>;
+  currentStep: number;
+  updatedAt: string;
+}
+
+// 요금 지역 (우편번호 앞자리로 판별)
+export interface PricingZone {
+  code: string;
+  name: string;
+  zipcode_prefixes: string[];
+}
+
+// 중량 구간 (max_weight kg 이하에 적용하는 기본 운임)
+export interface WeightBracket {
+  max_weight: number;
+  fee: number;
+}
+
+// 크기 등급 (가로+세로+높이 합이 max_sum_cm 이하)
+export interface SizeClass {
+  name: string;
+  max_sum_cm: number;
+  fee: number;
+}
+
+// 특수 옵션 할증 (건당 고정 금액)
+export interface SurchargeRules {
+  is_fragile: number;
+  is_frozen: number;
+  requires_signature: number;
+}
+
+// 배송비 요금표
+export interface RateCard {
+  version: number;
+  name: string;
+  weight_brackets: WeightBracket[];
+  extra_fee_per_kg: number; // 마지막 중량 구간 초과 시 kg당 추가 운임
+  volumetric_divisor: number; // 부피 중량 = 가로×세로×높이(cm) / divisor
+  size_classes: SizeClass[];
+  zones: PricingZone[];
+  zone_matrix: Record<string, Record<string, number>>; // 출발 지역 → 도착 지역 할증
+  delivery_type_multipliers: Record<string, number>; // 배송 유형별 운임 배수
+  surcharges: SurchargeRules;
+  insurance_rate: number; // 보험 가입금액 대비 보험료 비율
+  insurance_min_fee: number;
+}
+
+// 요금표 버전 적용 상태 (적용일 기준으로 판별)
+export type RateCardStatus = 'scheduled' | 'active' | 'expired';
+
+// 관리자가 등록한 요금표 버전 (적용일부터 다음 버전 적용 전까지 유효)
+export interface RateCardVersion extends RateCard {
+  id: number;
+  effective_from: string; // YYYY-MM-DD
+  memo?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// 요금표 버전 등록/수정 데이터 (버전 번호는 서버가 부여)
+export type RateCardVersionData = Omit<RateCardVersion, 'id' | 'version' | 'created_by' | 'created_at' | 'updated_at'>;
+
+// 배송비 견적 항목
+export interface ShippingQuoteLine {
+  label: string;
+  amount: number;
+}
+
+// 견적 계산에 쓰는 접수 입력값
+export type ShippingQuoteInput = Pick<
+  Partial<ShippingOrderData>,
+  | 'sender_zipcode' | 'receiver_zipcode' | 'package_weight' | 'package_size' | 'delivery_type'
+  | 'is_fragile' | 'is_frozen' | 'requires_signature' | 'insurance_amount' | 'packages'
+>;
+
+// 배송비 견적
+export interface ShippingQuote {
+  rate_card_version: number;
+  package_count: number;
+  // 중량은 화물이 여러 개면 화물별 값의 합계
+  actual_weight: number;
+  volumetric_weight: number | null; // 크기를 해석할 수 없으면 null
+  chargeable_weight: number;
+  size_class: string | null; // 화물이 여러 개면 화물별 운임 항목에 표시하고 null
+  origin_zone: PricingZone | null;
+  destination_zone: PricingZone | null;
+  lines: ShippingQuoteLine[];
+  total: number;
+}
+
+// 주소록 항목 구분 (발송인/수취인)
+export type AddressBookEntryType = 'sender' | 'receiver';
+
+// 주소록 입력 데이터 (배송접수 폼의 발송인/수취인 필드와 1:1 대응)
+export interface AddressBookEntryData {
+  type: AddressBookEntryType;
+  label?: string; // 별칭 (예: 본사 물류창고)
+  name: string;
+  phone: string;
+  email?: string;
+  company?: string;
+  address: string;
+  detail_address?: string;
+  zipcode: string;
+}
+
+// 저장된 주소록 항목
+export interface AddressBookEntry extends AddressBookEntryData {
+  id: number;
+  user_id: number;
+  is_default: boolean; // 사용자별 기본 발송인 여부 (발송인 항목만 해당)
+  created_at: string;
+  updated_at: string;
+}
+
+// 주소 검색 결과 (도로명/지번 주소와 우편번호)
+export interface AddressSearchResult {
+  zipcode: string;
+  roadAddress: string; // 도로명 주소
+  jibunAddress: string; // 지번 주소
+  buildingName?: string;
+}
+
+// 주소 검색 응답
+export interface AddressSearchResponse {
+  results: AddressSearchResult[];
+  total: number;
+}
+
 // API 응답 공통 타입
 export interface ApiResponse<T = any> {
   message?: string;
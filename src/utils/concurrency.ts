@@ -0,0 +1,43 @@
+/**
+ * 작업 결과 (Promise.allSettled와 같은 형태에 원래 항목 포함)
+ */
+export type SettledResult<T, R> =
+  | { status: 'fulfilled'; item: T; value: R }
+  | { status: 'rejected'; item: T; reason: unknown };
+
+/**
+ * 동시 실행 개수를 제한하여 항목별 비동기 작업을 실행
+ * 일부가 실패해도 나머지는 계속 진행하며, 결과는 입력 순서대로 반환
+ *
+ * @param items - 처리할 항목 배열
+ * @param limit - 동시에 실행할 최대 작업 수
+ * @param worker - 항목별 비동기 작업
+ * @param onProgress - 작업이 하나 끝날 때마다 (완료 수, 전체 수)로 호출
+ */
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<SettledResult<T, R>[]> => {
+  const results: SettledResult<T, R>[] = new Array(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const item = items[index];
+      try {
+        results[index] = { status: 'fulfilled', item, value: await worker(item, index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', item, reason };
+      }
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runNext));
+  return results;
+};
@@ -0,0 +1,85 @@
+/**
+ * CSV 텍스트를 행 배열로 파싱 (RFC 4180)
+ * 큰따옴표로 감싼 필드, 이스케이프된 따옴표(""), 필드 내 줄바꿈, UTF-8 BOM 지원
+ * 완전히 빈 행은 제외
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const pushRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      pushRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+};
+
+/**
+ * CSV 필드 값 이스케이프 (쉼표, 따옴표, 줄바꿈 포함 시 따옴표로 감쌈)
+ */
+const escapeCsvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 행 배열을 CSV 텍스트로 변환
+ */
+export const toCsv = (rows: unknown[][]): string => {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+/**
+ * 행 배열을 CSV 파일로 다운로드 (엑셀 한글 호환을 위해 BOM 포함)
+ * @param filename - 저장할 파일명
+ * @param rows - 헤더를 포함한 행 배열
+ */
+export const downloadCsv = (filename: string, rows: unknown[][]): void => {
+  const blob = new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(link.href);
+};
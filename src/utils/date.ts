@@ -0,0 +1,54 @@
+import type { StatisticsRange } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Date를 로컬 시간 기준 YYYY-MM-DD 문자열로 변환
+ * (date input 값 및 API 날짜 파라미터 형식)
+ */
+export const toDateString = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * YYYY-MM-DD 문자열을 로컬 자정 기준 Date로 변환
+ */
+export const parseDateString = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * 오늘을 포함한 최근 N일 기간
+ * @param days - 기간 일수
+ */
+export const getRecentRange = (days: number): StatisticsRange => {
+  const end = new Date();
+  const start = new Date(end.getTime() - (days - 1) * DAY_MS);
+  return { startDate: toDateString(start), endDate: toDateString(end) };
+};
+
+/**
+ * 기간에 포함된 모든 날짜를 YYYY-MM-DD 문자열 배열로 반환
+ */
+export const listDatesInRange = (range: StatisticsRange): string[] => {
+  const dates: string[] = [];
+  const end = parseDateString(range.endDate);
+  for (let d = parseDateString(range.startDate); d <= end; d.setDate(d.getDate() + 1)) {
+    dates.push(toDateString(d));
+  }
+  return dates;
+};
+
+/**
+ * 해당 날짜가 속한 주의 월요일 (YYYY-MM-DD)
+ */
+export const getWeekStart = (value: string): string => {
+  const date = parseDateString(value);
+  const offset = (date.getDay() + 6) % 7;
+  date.setDate(date.getDate() - offset);
+  return toDateString(date);
+};
@@ -0,0 +1,25 @@
+/**
+ * JWT 페이로드 디코딩 (서명 검증 없음 — 만료 시각 확인 등 클라이언트 표시용)
+ * @returns 페이로드 객체, 형식이 잘못되었으면 null
+ */
+export const decodeTokenPayload = (token: string): Record<string, unknown> | null => {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const json = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    const decoded = JSON.parse(json);
+    return decoded && typeof decoded === 'object' ? decoded : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 토큰 만료 시각 (exp 클레임, ms 단위)
+ * @returns exp가 없거나 읽을 수 없으면 null
+ */
+export const getTokenExpiresAt = (token: string): number | null => {
+  const exp = decodeTokenPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
@@ -0,0 +1,126 @@
+import axios from 'axios';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4
+};
+
+/**
+ * 출력할 최소 로그 레벨
+ * VITE_LOG_LEVEL(debug | info | warn | error | silent)로 지정하고, 없으면 개발 모드는 debug, 빌드 결과물은 warn
+ */
+const resolveLogLevel = (): LogLevel => {
+  const configured = import.meta.env.VITE_LOG_LEVEL;
+  if (configured && configured in LEVEL_ORDER) {
+    return configured as LogLevel;
+  }
+  return import.meta.env.DEV ? 'debug' : 'warn';
+};
+
+let currentLevel = resolveLogLevel();
+
+/** 값 전체를 가리는 키 (인증 정보) */
+const SECRET_KEY_PATTERN = /token|password|secret|authorization|cookie|otp|backup_?codes?/i;
+/** 앞 글자만 남기고 가리는 키 (개인정보) */
+const PII_KEY_PATTERN = /name|phone|address|email|zipcode|company/i;
+
+const JWT_PATTERN = /eyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+const BEARER_PATTERN = /Bearer\s+[\w.~+/-]+=*/gi;
+const PHONE_PATTERN = /01[016789]-?\d{3,4}-?\d{4}/g;
+
+const MAX_DEPTH = 5;
+
+const maskValue = (value: unknown): string => {
+  const text = String(value ?? '');
+  return text ? `${text.charAt(0)}***` : '';
+};
+
+const redactString = (text: string): string =>
+  text
+    .replace(JWT_PATTERN, '[JWT]')
+    .replace(BEARER_PATTERN, 'Bearer [REDACTED]')
+    .replace(PHONE_PATTERN, '***-****-****');
+
+/**
+ * 로그에 남길 값에서 토큰과 개인정보 제거
+ * - 인증 정보 키(token, password 등)는 값 전체를 가림
+ * - 개인정보 키(이름, 전화번호, 주소 등)는 첫 글자만 남김
+ * - 문자열 안의 JWT, Bearer 헤더, 휴대폰 번호도 가림
+ * - 요청 오류는 설정·헤더를 빼고 메서드, URL, 상태 코드만 남김
+ */
+export const redact = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[…]';
+
+  if (axios.isAxiosError(value)) {
+    return {
+      message: redactString(value.message),
+      method: value.config?.method?.toUpperCase(),
+      url: value.config?.url,
+      status: value.response?.status
+    };
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => {
+      if (SECRET_KEY_PATTERN.test(key)) return [key, '[REDACTED]'];
+      if (PII_KEY_PATTERN.test(key) && (typeof item === 'string' || typeof item === 'number')) {
+        return [key, maskValue(item)];
+      }
+      return [key, redact(item, depth + 1)];
+    })
+  );
+};
+
+type LogMethod = (message: string, ...details: unknown[]) => void;
+
+export interface Logger {
+  debug: LogMethod;
+  info: LogMethod;
+  warn: LogMethod;
+  error: LogMethod;
+}
+
+const CONSOLE_METHODS: Record<Exclude<LogLevel, 'silent'>, (...args: unknown[]) => void> = {
+  debug: (...args) => console.debug(...args),
+  info: (...args) => console.info(...args),
+  warn: (...args) => console.warn(...args),
+  error: (...args) => console.error(...args)
+};
+
+/**
+ * 범위(모듈 이름)가 붙은 로거 생성
+ * @param scope - 로그 앞에 붙일 이름 (예: api, auth)
+ */
+export const createLogger = (scope: string): Logger => {
+  const write = (level: Exclude<LogLevel, 'silent'>): LogMethod => (message, ...details) => {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[currentLevel]) return;
+    CONSOLE_METHODS[level](`[${scope}] ${redactString(message)}`, ...details.map(detail => redact(detail)));
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error')
+  };
+};
+
+/**
+ * 로그 레벨 변경 (디버깅 중 콘솔에서 일시적으로 올리거나 내릴 때)
+ */
+export const setLogLevel = (level: LogLevel): void => {
+  currentLevel = level;
+};
@@ -0,0 +1,63 @@
+import type { OrderDraft, ShippingOrderData } from '../types';
+
+/** 사용자별로 보관하는 최대 임시저장 수 (초과 시 오래된 것부터 삭제) */
+const MAX_DRAFTS = 10;
+
+const storageKey = (userId: number) => `order_drafts:${userId}`;
+
+/**
+ * 사용자의 임시저장 목록 (최근 수정 순)
+ * 저장 형식이 깨졌으면 빈 목록으로 취급
+ */
+export const listOrderDrafts = (userId: number): OrderDraft[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    const drafts = raw ? (JSON.parse(raw) as OrderDraft[]) : [];
+    return Array.isArray(drafts)
+      ? [...drafts].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeDrafts = (userId: number, drafts: OrderDraft[]) => {
+  try {
+    if (drafts.length === 0) {
+      localStorage.removeItem(storageKey(userId));
+    } else {
+      localStorage.setItem(storageKey(userId), JSON.stringify(drafts));
+    }
+  } catch (error) {
+    // 저장 공간 부족 등 (임시저장 실패는 접수에 영향 없음)
+    console.error('임시저장 실패:', error);
+  }
+};
+
+/**
+ * 임시저장본 추가 또는 갱신
+ */
+export const saveOrderDraft = (userId: number, draft: OrderDraft): void => {
+  const others = listOrderDrafts(userId).filter(d => d.id !== draft.id);
+  writeDrafts(userId, [draft, ...others].slice(0, MAX_DRAFTS));
+};
+
+export const deleteOrderDraft = (userId: number, draftId: string): void => {
+  writeDrafts(userId, listOrderDrafts(userId).filter(d => d.id !== draftId));
+};
+
+export const createDraftId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** 기본값 외에 사용자가 직접 입력한 내용이 있는지 (빈 폼은 저장하지 않음) */
+const CONTENT_FIELDS: (keyof ShippingOrderData)[] = [
+  'sender_name', 'sender_phone', 'sender_address', 'sender_zipcode',
+  'receiver_name', 'receiver_phone', 'receiver_address', 'receiver_zipcode',
+  'package_weight', 'package_size', 'package_description', 'delivery_memo'
+];
+
+export const hasDraftContent = (data: Partial<ShippingOrderData>): boolean =>
+  CONTENT_FIELDS.some(field => {
+    const value = data[field];
+    return typeof value === 'number' ? !Number.isNaN(value) : !!value && String(value).trim() !== '';
+  });
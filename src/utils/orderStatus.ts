@@ -0,0 +1,95 @@
+import { Clock, TrendingUp, Truck, CheckCircle, AlertCircle } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import type { OrderStatus, OrderStatusChangeDetails, ShippingOrder } from '../types';
+import { isSignatureMissing } from './proofOfDelivery';
+
+/**
+ * 주문 상태 표시 정보 (진행 순서대로)
+ * 상태 배지, 상태 선택 목록, 대시보드 필터가 모두 이 목록을 사용
+ */
+export const ORDER_STATUSES: { status: OrderStatus; badgeClassName: string; dotClassName: string; icon: LucideIcon }[] = [
+  { status: '접수완료', badgeClassName: 'bg-yellow-100 text-yellow-800', dotClassName: 'bg-yellow-500', icon: Clock },
+  { status: '배송준비', badgeClassName: 'bg-blue-100 text-blue-800', dotClassName: 'bg-blue-500', icon: TrendingUp },
+  { status: '배송중', badgeClassName: 'bg-orange-100 text-orange-800', dotClassName: 'bg-orange-500', icon: Truck },
+  { status: '배송완료', badgeClassName: 'bg-green-100 text-green-800', dotClassName: 'bg-green-500', icon: CheckCircle },
+  { status: '취소', badgeClassName: 'bg-red-100 text-red-800', dotClassName: 'bg-red-500', icon: AlertCircle },
+  { status: '반송', badgeClassName: 'bg-red-100 text-red-800', dotClassName: 'bg-red-500', icon: AlertCircle }
+];
+
+/**
+ * 상태별로 다음에 바꿀 수 있는 상태
+ * 서버도 같은 규칙으로 검증하며, 취소/반송은 종료 상태
+ */
+export const STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  접수완료: ['배송준비', '취소'],
+  배송준비: ['배송중', '취소'],
+  배송중: ['배송완료', '반송'],
+  배송완료: ['반송'],
+  취소: [],
+  반송: []
+};
+
+/** 상태 변경에 필요한 입력 */
+export type TransitionRequirement = 'tracking_number' | 'reason' | 'proof_of_delivery';
+
+/**
+ * 변경할 상태별 필수 입력
+ * - 배송중: 운송장 번호가 할당되어 있어야 함
+ * - 배송완료: 배송완료 증빙 (서명 필요 주문은 서명 포함)
+ * - 취소/반송: 사유 입력
+ */
+export const TRANSITION_REQUIREMENTS: Partial<Record<OrderStatus, TransitionRequirement[]>> = {
+  배송중: ['tracking_number'],
+  배송완료: ['proof_of_delivery'],
+  취소: ['reason'],
+  반송: ['reason']
+};
+
+/**
+ * 주문자가 접수 내용을 수정하거나 직접 취소할 수 있는 상태 (출고 전)
+ */
+export const EDITABLE_STATUSES: OrderStatus[] = ['접수완료', '배송준비'];
+
+export const isOrderEditable = (status: string): boolean =>
+  EDITABLE_STATUSES.some(s => s === status);
+
+export const getOrderStatusInfo = (status: string) =>
+  ORDER_STATUSES.find(s => s.status === status) || ORDER_STATUSES[0];
+
+export const isOrderStatus = (status: string): status is OrderStatus =>
+  ORDER_STATUSES.some(s => s.status === status);
+
+export const getAllowedTransitions = (status: string): OrderStatus[] =>
+  isOrderStatus(status) ? STATUS_TRANSITIONS[status] : [];
+
+export const canTransition = (from: string, to: string): boolean =>
+  getAllowedTransitions(from).some(status => status === to);
+
+export const requiresInput = (to: string, requirement: TransitionRequirement): boolean =>
+  isOrderStatus(to) && !!TRANSITION_REQUIREMENTS[to]?.includes(requirement);
+
+/**
+ * 주문을 해당 상태로 바꿀 수 있는지 검사
+ * 증빙은 별도 단계에서 받으므로, 서명 필요 주문의 서명 누락만 확인
+ *
+ * @returns 변경할 수 없으면 사유 메시지, 가능하면 null
+ */
+export const validateTransition = (
+  order: Pick<ShippingOrder, 'status' | 'tracking_number' | 'requires_signature' | 'proof_of_delivery'>,
+  to: string,
+  details: OrderStatusChangeDetails = {}
+): string | null => {
+  if (!canTransition(order.status, to)) {
+    return `"${order.status}" 상태에서 "${to}"(으)로 변경할 수 없습니다.`;
+  }
+  if (requiresInput(to, 'tracking_number') && !order.tracking_number) {
+    return '운송장 번호를 먼저 할당해야 배송중으로 변경할 수 있습니다.';
+  }
+  if (requiresInput(to, 'reason') && !details.reason?.trim()) {
+    return `${to} 사유를 입력해주세요.`;
+  }
+  if (requiresInput(to, 'proof_of_delivery') && isSignatureMissing(order)) {
+    return '서명이 필요한 주문입니다. 주문 상세에서 서명을 받아 완료 처리하세요.';
+  }
+  return null;
+};
@@ -0,0 +1,69 @@
+import type { ShippingOrderData, ShippingPackage } from '../types';
+
+/** 한 주문에 담을 수 있는 최대 화물 수 */
+export const MAX_PACKAGES = 20;
+
+/** 화물 목록과 함께 저장하는 주문 단위 화물 필드 (합계/대표값) */
+export type PackageSummaryFields = Pick<
+  ShippingOrderData,
+  'package_type' | 'package_weight' | 'package_size' | 'package_value' | 'package_description'
+>;
+
+/** 0.1kg 단위로 반올림 (소수 덧셈 오차 제거) */
+const roundWeight = (weight: number) => Math.round(weight * 10) / 10;
+
+/**
+ * 주문의 화물 목록
+ * 화물 목록이 없는 주문(다건 화물 도입 전 주문, 일괄 접수 등)은 단일 화물 필드로 화물 하나를 만듦
+ */
+export const getOrderPackages = (
+  order: Partial<ShippingOrderData> & { tracking_number?: string | null }
+): ShippingPackage[] => {
+  if (order.packages && order.packages.length > 0) return order.packages;
+  return [{
+    package_type: order.package_type,
+    package_weight: order.package_weight,
+    package_size: order.package_size,
+    package_value: order.package_value,
+    package_description: order.package_description,
+    tracking_number: order.tracking_number
+  }];
+};
+
+/**
+ * 화물 목록에서 주문 단위 화물 필드 계산
+ * 중량·가액은 합계, 종류·크기는 첫 화물 기준, 설명은 화물별 설명을 이어 붙임
+ */
+export const summarizePackages = (packages: ShippingPackage[]): PackageSummaryFields => {
+  const first = packages[0] || {};
+  const totalValue = packages.reduce((sum, pkg) => sum + (Number(pkg.package_value) || 0), 0);
+  const descriptions = packages
+    .map(pkg => pkg.package_description?.trim())
+    .filter(Boolean);
+
+  return {
+    package_type: first.package_type,
+    package_weight: roundWeight(packages.reduce((sum, pkg) => sum + (Number(pkg.package_weight) || 0), 0)),
+    package_size: first.package_size,
+    package_value: totalValue > 0 ? totalValue : undefined,
+    package_description: descriptions.length > 0 ? descriptions.join(', ') : undefined
+  };
+};
+
+/**
+ * 화물 목록이 있으면 주문 단위 화물 필드를 목록 기준으로 맞춤 (접수/수정 저장 직전에 사용)
+ */
+export const applyPackageSummary = <T extends Partial<ShippingOrderData>>(data: T): T =>
+  data.packages && data.packages.length > 0 ? { ...data, ...summarizePackages(data.packages) } : data;
+
+/**
+ * 목록/카드 표시용 화물 요약
+ * 화물이 하나면 기존처럼 설명(없으면 종류), 여러 개면 개수와 총중량 (예: "화물 3개 · 12.5kg")
+ */
+export const formatPackageSummary = (order: Partial<ShippingOrderData>): string => {
+  const packages = getOrderPackages(order);
+  if (packages.length === 1) return order.package_description || order.package_type || '';
+
+  const weight = roundWeight(packages.reduce((sum, pkg) => sum + (Number(pkg.package_weight) || 0), 0));
+  return `화물 ${packages.length}개${weight > 0 ? ` · ${weight}kg` : ''}`;
+};
@@ -0,0 +1,55 @@
+import type { Permission, UserRole } from '../types';
+
+/**
+ * 역할 표시 정보 (표시 순서대로)
+ */
+export const ROLES: { role: UserRole; label: string; badgeClassName: string }[] = [
+  { role: 'admin', label: '관리자', badgeClassName: 'bg-red-100 text-red-800' },
+  { role: 'manager', label: '매니저', badgeClassName: 'bg-blue-100 text-blue-800' },
+  { role: 'driver', label: '배송기사', badgeClassName: 'bg-amber-100 text-amber-800' },
+  { role: 'user', label: '사용자', badgeClassName: 'bg-gray-100 text-gray-800' }
+];
+
+/**
+ * 권한 설명 (권한 매트릭스 화면 표시 순서대로)
+ */
+export const PERMISSIONS: { permission: Permission; group: string; label: string }[] = [
+  { permission: 'orders.view_all', group: '주문', label: '전체 주문 조회' },
+  { permission: 'orders.update_status', group: '주문', label: '배송 상태 변경' },
+  { permission: 'orders.bulk_update', group: '주문', label: '주문 선택 및 일괄 처리' },
+  { permission: 'orders.notify_new', group: '주문', label: '새 주문 알림 수신' },
+  { permission: 'tracking.assign', group: '운송장', label: '운송장 번호 할당' },
+  { permission: 'orders.assign_driver', group: '배차', label: '배송기사 배정' },
+  { permission: 'deliveries.view_assigned', group: '배차', label: '배정받은 배송 처리' },
+  { permission: 'returns.review', group: '반품', label: '반품 요청 승인·거절' },
+  { permission: 'exports.run', group: '내보내기', label: '주문 데이터 내보내기' },
+  { permission: 'exports.statistics', group: '내보내기', label: '통계 리포트 내보내기' },
+  { permission: 'users.view', group: '사용자', label: '사용자 목록 조회' },
+  { permission: 'users.manage', group: '사용자', label: '사용자 생성·역할 변경·삭제' },
+  { permission: 'pricing.manage', group: '요금', label: '요금표 관리' },
+  { permission: 'permissions.view', group: '권한', label: '역할별 권한 조회' },
+  { permission: 'security.manage_2fa', group: '보안', label: '2단계 인증 필수 정책 관리' }
+];
+
+/**
+ * 역할별 권한
+ * 화면 표시 여부만 결정하며, 실제 접근 제어는 서버가 같은 기준으로 수행
+ * 새 역할을 추가할 때는 UserRole, ROLES와 이 표만 고치면 됨
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  // 관리자는 기사 전용 화면을 제외한 모든 권한
+  admin: PERMISSIONS.map(p => p.permission).filter(p => p !== 'deliveries.view_assigned'),
+  manager: [
+    'orders.view_all', 'orders.update_status', 'orders.bulk_update', 'orders.notify_new',
+    'tracking.assign', 'orders.assign_driver', 'returns.review', 'exports.run', 'exports.statistics', 'users.view'
+  ],
+  driver: ['deliveries.view_assigned'],
+  user: ['exports.run']
+};
+
+export const hasPermission = (role: UserRole | undefined, permission: Permission): boolean =>
+  !!role && (ROLE_PERMISSIONS[role]?.includes(permission) ?? false);
+
+/** 역할 표시 정보 (알 수 없는 역할은 일반 사용자로 표시) */
+export const getRoleInfo = (role: string | undefined) =>
+  ROLES.find(r => r.role === role) || ROLES[ROLES.length - 1];
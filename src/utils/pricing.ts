@@ -0,0 +1,324 @@
+import type {
+  RateCard, RateCardStatus, RateCardVersion, RateCardVersionData, PricingZone,
+  ShippingPackage, ShippingQuote, ShippingQuoteInput, ShippingQuoteLine
+} from '../types';
+
+/**
+ * 기본 요금표
+ * 서버에 등록된 요금표를 불러오지 못했을 때 견적 표시용으로만 사용 (확정 요금은 서버가 계산)
+ * 지역은 우편번호 앞 두 자리(시·도 구분) 기준
+ */
+export const DEFAULT_RATE_CARD: RateCard = {
+  version: 0,
+  name: '기본 요금표',
+  weight_brackets: [
+    { max_weight: 2, fee: 4000 },
+    { max_weight: 5, fee: 5000 },
+    { max_weight: 10, fee: 6500 },
+    { max_weight: 20, fee: 8500 },
+    { max_weight: 30, fee: 11000 }
+  ],
+  extra_fee_per_kg: 500,
+  volumetric_divisor: 6000,
+  size_classes: [
+    { name: '소형', max_sum_cm: 80, fee: 0 },
+    { name: '중형', max_sum_cm: 120, fee: 1000 },
+    { name: '대형', max_sum_cm: 160, fee: 2500 },
+    { name: '특대형', max_sum_cm: 200, fee: 5000 }
+  ],
+  zones: [
+    {
+      code: 'capital',
+      name: '수도권',
+      zipcode_prefixes: ['01', '02', '03', '04', '05', '06', '07', '08', '09', '10', '11', '12', '13', '14', '15', '16', '17', '18', '19', '20', '21', '22', '23']
+    },
+    { code: 'gangwon', name: '강원', zipcode_prefixes: ['24', '25', '26'] },
+    { code: 'chungcheong', name: '충청', zipcode_prefixes: ['27', '28', '29', '30', '31', '32', '33', '34', '35'] },
+    {
+      code: 'gyeongsang',
+      name: '경상',
+      zipcode_prefixes: ['36', '37', '38', '39', '40', '41', '42', '43', '44', '45', '46', '47', '48', '49', '50', '51', '52', '53']
+    },
+    { code: 'jeolla', name: '전라', zipcode_prefixes: ['54', '55', '56', '57', '58', '59', '60', '61', '62'] },
+    { code: 'jeju', name: '제주', zipcode_prefixes: ['63'] }
+  ],
+  zone_matrix: {
+    capital: { gangwon: 500, chungcheong: 500, gyeongsang: 1000, jeolla: 1000, jeju: 3000 },
+    gangwon: { capital: 500, chungcheong: 500, gyeongsang: 1000, jeolla: 1000, jeju: 3000 },
+    chungcheong: { capital: 500, gangwon: 500, gyeongsang: 500, jeolla: 500, jeju: 3000 },
+    gyeongsang: { capital: 1000, gangwon: 1000, chungcheong: 500, jeolla: 500, jeju: 3000 },
+    jeolla: { capital: 1000, gangwon: 1000, chungcheong: 500, gyeongsang: 500, jeju: 3000 },
+    jeju: { capital: 3000, gangwon: 3000, chungcheong: 3000, gyeongsang: 3000, jeolla: 3000 }
+  },
+  delivery_type_multipliers: { 일반: 1, 익일: 1.2, 지정일: 1.3, 당일: 1.8 },
+  surcharges: { is_fragile: 2000, is_frozen: 3000, requires_signature: 500 },
+  insurance_rate: 0.005,
+  insurance_min_fee: 500
+};
+
+export const SURCHARGE_LABELS: Record<keyof RateCard['surcharges'], string> = {
+  is_fragile: '취급주의',
+  is_frozen: '냉동',
+  requires_signature: '서명확인'
+};
+
+/** 원 단위 금액을 10원 단위로 반올림 */
+const roundFee = (amount: number) => Math.round(amount / 10) * 10;
+
+/**
+ * 화물 크기 문자열을 cm 단위 세 변으로 해석
+ * "30x20x10", "30*20*10", "30 × 20 × 10cm" 형식 허용
+ */
+export const parsePackageSize = (size: string | undefined): [number, number, number] | null => {
+  if (!size) return null;
+  const parts = size
+    .toLowerCase()
+    .replace(/cm/g, '')
+    .split(/[x×*]/)
+    .map(part => Number(part.trim()));
+  if (parts.length !== 3 || parts.some(part => !Number.isFinite(part) || part <= 0)) return null;
+  return [parts[0], parts[1], parts[2]];
+};
+
+/**
+ * 우편번호가 속한 요금 지역 (가장 길게 일치하는 접두사 우선)
+ */
+export const resolveZone = (rateCard: RateCard, zipcode: string | undefined): PricingZone | null => {
+  if (!zipcode) return null;
+  let matched: PricingZone | null = null;
+  let matchedLength = 0;
+  for (const zone of rateCard.zones) {
+    for (const prefix of zone.zipcode_prefixes) {
+      if (prefix.length > matchedLength && zipcode.startsWith(prefix)) {
+        matched = zone;
+        matchedLength = prefix.length;
+      }
+    }
+  }
+  return matched;
+};
+
+export type QuoteResult = { quote: ShippingQuote; error?: undefined } | { quote?: undefined; error: string };
+
+interface PackageFreight {
+  lines: ShippingQuoteLine[];
+  actualWeight: number;
+  volumetricWeight: number | null;
+  chargeableWeight: number;
+  sizeClassName: string | null;
+}
+
+/**
+ * 화물 하나의 운임 (중량 구간 운임 + 크기 할증)
+ * 실중량과 부피 중량 중 큰 값으로 중량 구간을 정함
+ * @param labelPrefix - 화물이 여러 개일 때 항목 앞에 붙일 화물 번호 (예: "화물 2 ")
+ */
+const calculatePackageFreight = (
+  rateCard: RateCard,
+  pkg: Pick<ShippingPackage, 'package_weight' | 'package_size'>,
+  labelPrefix: string
+): { freight: PackageFreight; error?: undefined } | { freight?: undefined; error: string } => {
+  const actualWeight = Number(pkg.package_weight);
+  if (!actualWeight || actualWeight <= 0) {
+    return { error: `${labelPrefix}중량을 입력하면 배송비를 계산합니다.` };
+  }
+
+  const dimensions = parsePackageSize(pkg.package_size);
+  const volumetricWeight = dimensions
+    ? Math.round((dimensions[0] * dimensions[1] * dimensions[2] / rateCard.volumetric_divisor) * 10) / 10
+    : null;
+  const chargeableWeight = Math.max(actualWeight, volumetricWeight ?? 0);
+
+  const lines: ShippingQuoteLine[] = [];
+
+  // 중량 운임
+  const brackets = [...rateCard.weight_brackets].sort((a, b) => a.max_weight - b.max_weight);
+  if (brackets.length === 0) {
+    return { error: '요금표에 중량 구간이 없습니다.' };
+  }
+  const bracket = brackets.find(b => chargeableWeight <= b.max_weight);
+  if (bracket) {
+    lines.push({ label: `${labelPrefix}기본 운임 (${bracket.max_weight}kg 이하)`, amount: bracket.fee });
+  } else {
+    const last = brackets[brackets.length - 1];
+    const extraKg = Math.ceil(chargeableWeight - last.max_weight);
+    lines.push({ label: `${labelPrefix}기본 운임 (${last.max_weight}kg 이하)`, amount: last.fee });
+    lines.push({ label: `${labelPrefix}초과 중량 ${extraKg}kg`, amount: extraKg * rateCard.extra_fee_per_kg });
+  }
+
+  // 크기 할증 (세 변의 합 기준)
+  let sizeClassName: string | null = null;
+  if (dimensions) {
+    const sum = dimensions[0] + dimensions[1] + dimensions[2];
+    const sizeClass = [...rateCard.size_classes]
+      .sort((a, b) => a.max_sum_cm - b.max_sum_cm)
+      .find(c => sum <= c.max_sum_cm);
+    if (rateCard.size_classes.length > 0 && !sizeClass) {
+      return { error: `${labelPrefix}세 변의 합 ${sum}cm는 접수 가능한 최대 크기를 초과합니다.` };
+    }
+    if (sizeClass) {
+      sizeClassName = sizeClass.name;
+      if (sizeClass.fee > 0) lines.push({ label: `${labelPrefix}크기 할증 (${sizeClass.name})`, amount: sizeClass.fee });
+    }
+  }
+
+  return { freight: { lines, actualWeight, volumetricWeight, chargeableWeight, sizeClassName } };
+};
+
+/**
+ * 배송비 견적 계산
+ * 화물마다 중량·크기 운임을 계산하고 지역 할증(화물 수만큼)을 더한 뒤 배송 유형 배수를 곱함
+ * 특수 옵션 할증과 보험료는 주문 단위로 배수 적용 후 더함
+ * 화물 목록이 없으면 단일 화물 필드(package_weight, package_size)로 계산
+ */
+export const calculateShippingQuote = (rateCard: RateCard, input: ShippingQuoteInput): QuoteResult => {
+  const packages: Pick<ShippingPackage, 'package_weight' | 'package_size'>[] = input.packages && input.packages.length > 0
+    ? input.packages
+    : [{ package_weight: input.package_weight, package_size: input.package_size }];
+  const isMultiPackage = packages.length > 1;
+
+  const lines: ShippingQuoteLine[] = [];
+  const freights: PackageFreight[] = [];
+  for (const [index, pkg] of packages.entries()) {
+    const result = calculatePackageFreight(rateCard, pkg, isMultiPackage ? `화물 ${index + 1} ` : '');
+    if (!result.freight) return { error: result.error };
+    freights.push(result.freight);
+    lines.push(...result.freight.lines);
+  }
+
+  // 지역 할증 (화물마다 부과)
+  const originZone = resolveZone(rateCard, input.sender_zipcode);
+  const destinationZone = resolveZone(rateCard, input.receiver_zipcode);
+  if (originZone && destinationZone) {
+    const zoneFee = rateCard.zone_matrix[originZone.code]?.[destinationZone.code] ?? 0;
+    if (zoneFee > 0) {
+      lines.push({
+        label: `지역 할증 (${originZone.name} → ${destinationZone.name})${isMultiPackage ? ` ×${packages.length}` : ''}`,
+        amount: zoneFee * packages.length
+      });
+    }
+  }
+
+  // 배송 유형 배수 (운임 합계에만 적용)
+  const deliveryType = input.delivery_type || '일반';
+  const multiplier = rateCard.delivery_type_multipliers[deliveryType] ?? 1;
+  if (multiplier !== 1) {
+    const freight = lines.reduce((sum, line) => sum + line.amount, 0);
+    lines.push({ label: `${deliveryType} 배송 (×${multiplier})`, amount: roundFee(freight * (multiplier - 1)) });
+  }
+
+  // 특수 옵션 할증
+  (Object.keys(SURCHARGE_LABELS) as (keyof RateCard['surcharges'])[]).forEach(option => {
+    const fee = rateCard.surcharges[option];
+    if (input[option] && fee > 0) {
+      lines.push({ label: `${SURCHARGE_LABELS[option]} 할증`, amount: fee });
+    }
+  });
+
+  // 보험료
+  const insuredAmount = Number(input.insurance_amount) || 0;
+  if (insuredAmount > 0) {
+    const premium = Math.max(roundFee(insuredAmount * rateCard.insurance_rate), rateCard.insurance_min_fee);
+    lines.push({ label: `보험료 (가입금액 ${insuredAmount.toLocaleString()}원)`, amount: premium });
+  }
+
+  // 화물별 중량 합계 (부피 중량은 크기를 해석할 수 있는 화물만 합산)
+  const sumWeight = (weights: number[]) => Math.round(weights.reduce((sum, weight) => sum + weight, 0) * 10) / 10;
+  const volumetricWeights = freights.map(f => f.volumetricWeight).filter((weight): weight is number => weight !== null);
+
+  return {
+    quote: {
+      rate_card_version: rateCard.version,
+      package_count: packages.length,
+      actual_weight: sumWeight(freights.map(f => f.actualWeight)),
+      volumetric_weight: volumetricWeights.length > 0 ? sumWeight(volumetricWeights) : null,
+      chargeable_weight: sumWeight(freights.map(f => f.chargeableWeight)),
+      size_class: isMultiPackage ? null : freights[0].sizeClassName,
+      origin_zone: originZone,
+      destination_zone: destinationZone,
+      lines,
+      total: roundFee(lines.reduce((sum, line) => sum + line.amount, 0))
+    }
+  };
+};
+
+/**
+ * 요금표 버전별 적용 상태
+ * 적용일이 오늘 이전인 버전 중 가장 늦은 것이 적용 중, 그보다 앞선 버전은 만료, 적용일이 미래면 예정
+ * @param today - 기준일 (YYYY-MM-DD)
+ */
+export const getRateCardStatuses = (
+  versions: Pick<RateCardVersion, 'id' | 'effective_from'>[],
+  today: string
+): Record<number, RateCardStatus> => {
+  const active = versions
+    .filter(v => v.effective_from <= today)
+    .reduce<Pick<RateCardVersion, 'id' | 'effective_from'> | null>(
+      (latest, v) => (!latest || v.effective_from > latest.effective_from ? v : latest),
+      null
+    );
+
+  const statuses: Record<number, RateCardStatus> = {};
+  versions.forEach(v => {
+    statuses[v.id] = v.effective_from > today ? 'scheduled' : v.id === active?.id ? 'active' : 'expired';
+  });
+  return statuses;
+};
+
+/**
+ * 요금표 입력값 검증
+ * @returns 오류 메시지 목록 (비어 있으면 저장 가능)
+ */
+export const validateRateCard = (card: RateCardVersionData): string[] => {
+  const errors: string[] = [];
+  const isAmount = (value: number) => Number.isFinite(value) && value >= 0;
+
+  if (!card.name.trim()) errors.push('요금표 이름을 입력해주세요.');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(card.effective_from)) errors.push('적용일을 입력해주세요.');
+
+  if (card.weight_brackets.length === 0) {
+    errors.push('중량 구간을 하나 이상 입력해주세요.');
+  }
+  const weights = card.weight_brackets.map(b => b.max_weight);
+  if (weights.some(w => !(w > 0)) || new Set(weights).size !== weights.length) {
+    errors.push('중량 구간의 상한은 0보다 크고 서로 달라야 합니다.');
+  }
+  if (card.weight_brackets.some(b => !isAmount(b.fee)) || !isAmount(card.extra_fee_per_kg)) {
+    errors.push('중량 운임은 0원 이상이어야 합니다.');
+  }
+  if (!(card.volumetric_divisor > 0)) errors.push('부피 중량 환산 계수는 0보다 커야 합니다.');
+
+  const sizeLimits = card.size_classes.map(c => c.max_sum_cm);
+  if (card.size_classes.some(c => !c.name.trim() || !(c.max_sum_cm > 0) || !isAmount(c.fee))
+    || new Set(sizeLimits).size !== sizeLimits.length) {
+    errors.push('크기 등급은 이름, 서로 다른 세 변 합 상한, 0원 이상의 할증이 필요합니다.');
+  }
+
+  const codes = card.zones.map(z => z.code);
+  if (card.zones.some(z => !/^[a-z0-9_-]+$/.test(z.code) || !z.name.trim()) || new Set(codes).size !== codes.length) {
+    errors.push('지역 코드는 영문 소문자·숫자로 서로 다르게, 지역 이름은 필수로 입력해주세요.');
+  }
+  const prefixes = card.zones.flatMap(z => z.zipcode_prefixes);
+  if (prefixes.some(p => !/^\d{1,5}$/.test(p))) {
+    errors.push('우편번호 접두사는 1~5자리 숫자여야 합니다.');
+  }
+  const duplicated = prefixes.filter((p, index) => prefixes.indexOf(p) !== index);
+  if (duplicated.length > 0) {
+    errors.push(`우편번호 접두사가 여러 지역에 중복되었습니다: ${[...new Set(duplicated)].join(', ')}`);
+  }
+  if (Object.values(card.zone_matrix).some(row => Object.values(row).some(fee => !isAmount(fee)))) {
+    errors.push('지역 할증은 0원 이상이어야 합니다.');
+  }
+
+  if (Object.values(card.delivery_type_multipliers).some(m => !(m > 0))) {
+    errors.push('배송 유형 배수는 0보다 커야 합니다.');
+  }
+  if (Object.values(card.surcharges).some(fee => !isAmount(fee)) || !isAmount(card.insurance_min_fee)) {
+    errors.push('할증과 최소 보험료는 0원 이상이어야 합니다.');
+  }
+  if (!(card.insurance_rate >= 0 && card.insurance_rate < 1)) {
+    errors.push('보험료율은 0% 이상 100% 미만이어야 합니다.');
+  }
+
+  return errors;
+};
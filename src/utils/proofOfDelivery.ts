@@ -0,0 +1,11 @@
+import type { ShippingOrder } from '../types';
+
+/** 배송완료 증빙에 첨부할 수 있는 최대 사진 수 */
+export const MAX_PROOF_PHOTOS = 3;
+
+/**
+ * 서명이 필요한 주문인데 아직 서명 증빙이 없는지 확인
+ * 이 경우 배송완료 처리를 막고 증빙 입력 단계를 거치도록 함
+ */
+export const isSignatureMissing = (order: Pick<ShippingOrder, 'requires_signature' | 'proof_of_delivery'>): boolean =>
+  !!order.requires_signature && !order.proof_of_delivery?.signature_url;
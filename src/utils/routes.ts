@@ -0,0 +1,105 @@
+import type { Permission } from '../types';
+
+/**
+ * 화면 경로
+ * 주문 상세(/orders/:id)는 대시보드 위에 상세 모달을 연 상태
+ */
+export type Route =
+  | { name: 'dashboard' }
+  | { name: 'order'; orderId: number }
+  | { name: 'new-order' }
+  | { name: 'bulk-import' }
+  | { name: 'address-book' }
+  | { name: 'users' }
+  | { name: 'rate-cards' }
+  | { name: 'my-deliveries' }
+  | { name: 'security' }
+  | { name: 'tracking'; trackingNumber?: string }
+  | { name: 'login' }
+  | { name: 'home' } // "/" — 역할별 시작 화면으로 이동
+  | { name: 'not-found' };
+
+export type RouteName = Route['name'];
+
+/** 경로가 고정된 화면 (주문 상세, 배송 추적은 buildPath에서 따로 처리) */
+const STATIC_PATHS: Partial<Record<RouteName, string>> = {
+  dashboard: '/dashboard',
+  'new-order': '/orders/new',
+  'bulk-import': '/orders/import',
+  'address-book': '/addresses',
+  users: '/users',
+  'rate-cards': '/rate-cards',
+  'my-deliveries': '/my-deliveries',
+  security: '/profile/security',
+  login: '/login',
+  home: '/'
+};
+
+/** 로그인하지 않아도 볼 수 있는 화면 */
+export const PUBLIC_ROUTES: RouteName[] = ['tracking', 'login'];
+
+/** 권한이 있어야 볼 수 있는 화면 (없으면 시작 화면으로 이동) */
+export const ROUTE_PERMISSIONS: Partial<Record<RouteName, Permission>> = {
+  users: 'users.view',
+  'rate-cards': 'pricing.manage',
+  'my-deliveries': 'deliveries.view_assigned'
+};
+
+/**
+ * 경로가 보여주는 화면 (주문 상세는 대시보드 화면 — 메뉴 강조, 스크롤 유지 판단용)
+ */
+export const getScreenName = (route: Route): RouteName => (route.name === 'order' ? 'dashboard' : route.name);
+
+/**
+ * URL을 화면 경로로 해석
+ * 이전 형식의 추적 링크(/tracking?number=...)도 지원
+ */
+export const parseRoute = (pathname: string, search = ''): Route => {
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+
+  const orderMatch = path.match(/^\/orders\/(\d+)$/);
+  if (orderMatch) return { name: 'order', orderId: Number(orderMatch[1]) };
+
+  const trackingMatch = path.match(/^\/tracking(?:\/([^/]+))?$/);
+  if (trackingMatch) {
+    const trackingNumber = trackingMatch[1]
+      ? decodeURIComponent(trackingMatch[1])
+      : new URLSearchParams(search).get('number') || undefined;
+    return { name: 'tracking', trackingNumber };
+  }
+
+  const staticRoute = (Object.keys(STATIC_PATHS) as RouteName[]).find(name => STATIC_PATHS[name] === path);
+  return staticRoute ? ({ name: staticRoute } as Route) : { name: 'not-found' };
+};
+
+/**
+ * 화면 경로를 URL 경로로 변환
+ */
+export const buildPath = (route: Route): string => {
+  switch (route.name) {
+    case 'order':
+      return `/orders/${route.orderId}`;
+    case 'tracking':
+      return route.trackingNumber ? `/tracking/${encodeURIComponent(route.trackingNumber)}` : '/tracking';
+    default:
+      return STATIC_PATHS[route.name] ?? '/';
+  }
+};
+
+/** 배송 추적 링크 (새 탭으로 여는 운송장 링크용) */
+export const getTrackingPath = (trackingNumber: string): string => buildPath({ name: 'tracking', trackingNumber });
+
+/**
+ * 로그인 후 돌아갈 경로
+ * 외부 주소로 이동하지 않도록 같은 사이트 경로("/"로 시작, "//"·"/\" 제외)만 허용
+ */
+export const getRedirectPath = (search: string): string | null => {
+  const redirect = new URLSearchParams(search).get('redirect');
+  if (!redirect || !/^\/(?![/\\])/.test(redirect)) return null;
+  const route = parseRoute(redirect.split('?')[0]);
+  return route.name === 'login' || route.name === 'not-found' ? null : redirect;
+};
+
+/** 로그인 화면 경로 (로그인 후 돌아갈 경로 포함) */
+export const buildLoginPath = (redirect: string): string =>
+  redirect === '/' ? '/login' : `/login?redirect=${encodeURIComponent(redirect)}`;
@@ -0,0 +1,126 @@
+/**
+ * TOTP(RFC 6238) — 인증 앱(Google Authenticator 등)이 30초마다 만드는 6자리 코드
+ * 운영 환경에서 코드 확인은 서버가 하며, 이 모듈은 로컬 2단계 인증 스텁에서 사용
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/** 코드 갱신 주기 (초) */
+export const TOTP_PERIOD_SECONDS = 30;
+/** 코드 자릿수 */
+export const TOTP_DIGITS = 6;
+
+/**
+ * 바이트 배열을 Base32 문자열로 (패딩 없이, 인증 앱 비밀키 형식)
+ */
+export const encodeBase32 = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  bytes.forEach(byte => {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+/**
+ * Base32 문자열을 바이트 배열로 (공백·하이픈·패딩 무시, 대소문자 구분 없음)
+ * @throws {Error} Base32가 아닌 문자가 있으면 에러 발생
+ */
+export const decodeBase32 = (text: string): Uint8Array => {
+  const clean = text.replace(/[\s=-]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('올바른 Base32 비밀키가 아닙니다.');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * 새 비밀키 생성 (기본 160비트, RFC 4226 권장 길이)
+ */
+export const generateTotpSecret = (byteLength = 20): string =>
+  encodeBase32(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+/**
+ * 특정 시각의 TOTP 코드
+ * @param secret - Base32 비밀키
+ * @param timeMs - 기준 시각 (기본값: 현재)
+ */
+export const generateTotp = async (secret: string, timeMs = Date.now()): Promise<string> => {
+  const counter = Math.floor(timeMs / 1000 / TOTP_PERIOD_SECONDS);
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter % 2 ** 32);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    decodeBase32(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+
+  // 동적 절단 (RFC 4226 5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * TOTP 코드 확인 (기기 시계 오차를 고려해 앞뒤 window 주기까지 허용)
+ * @param secret - Base32 비밀키
+ * @param code - 사용자가 입력한 코드 (공백 무시)
+ */
+export const verifyTotp = async (secret: string, code: string, window = 1, timeMs = Date.now()): Promise<boolean> => {
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return false;
+
+  for (let step = -window; step <= window; step++) {
+    if (await generateTotp(secret, timeMs + step * TOTP_PERIOD_SECONDS * 1000) === normalized) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * 인증 앱 등록용 otpauth URL (QR 코드 내용)
+ * @param issuer - 인증 앱에 표시할 서비스 이름
+ * @param account - 인증 앱에 표시할 계정 (아이디)
+ */
+export const buildOtpAuthUrl = (issuer: string, account: string, secret: string): string => {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params}`;
+};